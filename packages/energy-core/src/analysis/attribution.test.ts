@@ -0,0 +1,69 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { activeShareStrategy, dynamicOnlyStrategy, getAttributionStrategy, idleSharedByReservationStrategy, regressionStrategy, AttributionInput, AttributionTick } from "./attribution.js";
+
+// 10 s, 100 J host, 5 W idle (50 J), the process used 1/4 of the active ticks
+const INPUT: AttributionInput = {
+    hostEnergyJoules: 100,
+    hostCpuActiveTicks: 400n,
+    processCpuActiveTicks: 100n,
+    durationSeconds: 10,
+    ticks: [],
+    idlePowerWatts: 5,
+    reservedCores: 2,
+    totalCores: 8,
+};
+
+test("attribution strategies test suite", async (t) => {
+    await t.test("active-share: host energy × tick share", () => {
+        const result = activeShareStrategy.attribute(INPUT);
+        assert.strictEqual(result.ok, true);
+        assert.strictEqual(result.processEnergyJoules, 25);
+    });
+
+    await t.test("dynamic-only: idle energy is not attributed", () => {
+        const result = dynamicOnlyStrategy.attribute(INPUT);
+        assert.strictEqual(result.ok, true);
+        assert.strictEqual(result.idleEnergyJoules, 50);
+        assert.strictEqual(result.processEnergyJoules, 12.5);
+
+        assert.deepStrictEqual(dynamicOnlyStrategy.attribute({ ...INPUT, idlePowerWatts: null }), { ok: false, reason: "missing_idle_power" });
+        // idle power above the measured power: nothing dynamic left
+        assert.strictEqual(dynamicOnlyStrategy.attribute({ ...INPUT, idlePowerWatts: 50 }).processEnergyJoules, 0);
+    });
+
+    await t.test("idle-shared-by-reservation: idle share of the reserved cores", () => {
+        const result = idleSharedByReservationStrategy.attribute(INPUT);
+        assert.strictEqual(result.ok, true);
+        assert.strictEqual(result.processEnergyJoules, 12.5 + 50 * 2 / 8);
+
+        assert.strictEqual(idleSharedByReservationStrategy.attribute({ ...INPUT, reservedCores: null }).reason, "missing_reserved_cores");
+        assert.strictEqual(idleSharedByReservationStrategy.attribute({ ...INPUT, totalCores: 0 }).reason, "invalid_total_cores");
+    });
+
+    await t.test("regression: recovers idle power and energy per tick", () => {
+        // E = 5 W × 1 s + 0.1 J × host ticks
+        const ticks: AttributionTick[] = [10n, 80n, 30n, 60n].map((hostTicks) => ({
+            durationSeconds: 1,
+            hostEnergyJoules: 5 + 0.1 * Number(hostTicks),
+            hostCpuActiveTicks: hostTicks,
+            processCpuActiveTicks: 0n,
+        }));
+        const result = regressionStrategy.attribute({ ...INPUT, hostEnergyJoules: 38, hostCpuActiveTicks: 180n, processCpuActiveTicks: 50n, durationSeconds: 4, ticks });
+        assert.strictEqual(result.ok, true);
+        assert.ok(Math.abs(result.regression!.idlePowerWatts - 5) < 1e-9);
+        assert.ok(Math.abs(result.regression!.joulesPerTick - 0.1) < 1e-9);
+        assert.ok(Math.abs(result.processEnergyJoules! - 5) < 1e-9);
+        assert.ok(result.regression!.r2 > 0.999);
+
+        // constant load: idle and dynamic power cannot be told apart
+        const flat = ticks.map((tick) => ({ ...tick, hostCpuActiveTicks: 50n, hostEnergyJoules: 10 }));
+        assert.strictEqual(regressionStrategy.attribute({ ...INPUT, ticks: flat }).reason, "no_load_variation");
+        assert.strictEqual(regressionStrategy.attribute({ ...INPUT, ticks: ticks.slice(0, 2) }).reason, "not_enough_ticks");
+    });
+
+    await t.test("getAttributionStrategy - by name", () => {
+        assert.strictEqual(getAttributionStrategy("dynamic-only"), dynamicOnlyStrategy);
+        assert.strictEqual(getAttributionStrategy("unknown"), undefined);
+    });
+});
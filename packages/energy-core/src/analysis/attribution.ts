@@ -0,0 +1,194 @@
+import { attributeHostEnergyToPid } from "./hostToPid.js";
+
+/**
+ * One audit tick, host and process CPU time in the same unit (jiffies, or µs for cgroups).
+ */
+export interface AttributionTick {
+    durationSeconds: number;
+    hostEnergyJoules: number;
+    hostCpuActiveTicks: bigint;
+    processCpuActiveTicks: bigint;
+}
+
+export interface AttributionInput {
+    hostEnergyJoules: number;
+    hostCpuActiveTicks: bigint;     // same unit as processCpuActiveTicks
+    processCpuActiveTicks: bigint;
+    durationSeconds: number;
+    ticks: AttributionTick[];       // per-tick series (regression)
+
+    idlePowerWatts?: number | null; // measured or modeled host idle power (dynamic-only, idle-shared-by-reservation)
+    reservedCores?: number | null;  // cores reserved by the process (idle-shared-by-reservation)
+    totalCores?: number | null;
+}
+
+export interface AttributionRegression {
+    idlePowerWatts: number;         // fitted P_idle
+    joulesPerTick: number;          // fitted energy of one host active tick
+    r2: number;
+    ticks: number;
+}
+
+export interface AttributionResult {
+    ok: boolean;
+    reason?: string;
+    cpuShare?: number;              // process share of the active (or dynamic) energy
+    processEnergyJoules?: number;
+    idlePowerWatts?: number;
+    idleEnergyJoules?: number;      // host idle energy over the run
+    dynamicEnergyJoules?: number;   // host energy minus idle
+    regression?: AttributionRegression;
+}
+
+/**
+ * Splits the host energy of a run between the process and the rest of the host.
+ * Implementations are pure and never throw: a missing input is an `ok: false` result.
+ */
+export interface AttributionStrategy {
+    readonly name: string;
+    readonly description: string;
+    attribute(input: AttributionInput): AttributionResult;
+}
+
+export const DEFAULT_ATTRIBUTION_STRATEGY = 'active-share';
+
+/**
+ * Idle energy over the run, capped by the measured host energy.
+ */
+function splitIdle(input: AttributionInput): { idleEnergyJoules: number, dynamicEnergyJoules: number } | null {
+    const { idlePowerWatts, hostEnergyJoules, durationSeconds } = input;
+    if (typeof idlePowerWatts !== 'number' || !Number.isFinite(idlePowerWatts) || idlePowerWatts < 0) return null;
+    const idleEnergyJoules = Math.min(idlePowerWatts * Math.max(durationSeconds, 0), hostEnergyJoules);
+    return { idleEnergyJoules, dynamicEnergyJoules: hostEnergyJoules - idleEnergyJoules };
+}
+
+/**
+ * Host energy × process share of the active ticks: the process carries all of its
+ * proportional share, idle included, the rest of the host none of the idle baseline.
+ */
+export const activeShareStrategy: AttributionStrategy = {
+    name: 'active-share',
+    description: 'host energy × process share of the active CPU ticks',
+    attribute(input) {
+        return attributeHostEnergyToPid(input);
+    },
+};
+
+/**
+ * Only the energy above idle is split by active ticks; idle power is nobody's.
+ */
+export const dynamicOnlyStrategy: AttributionStrategy = {
+    name: 'dynamic-only',
+    description: '(host energy - idle power × duration) × process share of the active CPU ticks',
+    attribute(input) {
+        const idle = splitIdle(input);
+        if (!idle) return { ok: false, reason: 'missing_idle_power' };
+
+        const dynamic = attributeHostEnergyToPid({ ...input, hostEnergyJoules: idle.dynamicEnergyJoules });
+        if (!dynamic.ok) return dynamic;
+        return {
+            ...dynamic,
+            idlePowerWatts: input.idlePowerWatts!,
+            ...idle,
+        };
+    },
+};
+
+/**
+ * Dynamic energy split by active ticks, plus a share of idle energy for the cores
+ * the process reserves (reservedCores / totalCores), used or not.
+ */
+export const idleSharedByReservationStrategy: AttributionStrategy = {
+    name: 'idle-shared-by-reservation',
+    description: 'dynamic-only + idle energy × reserved cores / total cores',
+    attribute(input) {
+        const idle = splitIdle(input);
+        if (!idle) return { ok: false, reason: 'missing_idle_power' };
+        const { reservedCores, totalCores } = input;
+        if (typeof totalCores !== 'number' || !Number.isFinite(totalCores) || totalCores <= 0) {
+            return { ok: false, reason: 'invalid_total_cores' };
+        }
+        if (typeof reservedCores !== 'number' || !Number.isFinite(reservedCores) || reservedCores <= 0) {
+            return { ok: false, reason: 'missing_reserved_cores' };
+        }
+
+        const dynamic = attributeHostEnergyToPid({ ...input, hostEnergyJoules: idle.dynamicEnergyJoules });
+        if (!dynamic.ok) return dynamic;
+        const reservation = Math.min(reservedCores / totalCores, 1);
+        return {
+            ...dynamic,
+            processEnergyJoules: dynamic.processEnergyJoules! + idle.idleEnergyJoules * reservation,
+            idlePowerWatts: input.idlePowerWatts!,
+            ...idle,
+        };
+    },
+};
+
+/**
+ * Least-squares fit of the tick series, E_i = P_idle × dt_i + k × hostTicks_i,
+ * then process energy = k × process ticks. Needs load variation across ticks
+ * (a constant load cannot tell idle from dynamic power): the host load must vary by 10 % of its peak.
+ */
+export const regressionStrategy: AttributionStrategy = {
+    name: 'regression',
+    description: 'least-squares fit of tick energy against host active ticks, process energy = J/tick × process ticks',
+    attribute(input) {
+        const points = input.ticks
+            .filter((tick) => tick.durationSeconds > 0 && Number.isFinite(tick.hostEnergyJoules) && tick.hostEnergyJoules >= 0)
+            .map((tick) => ({ dt: tick.durationSeconds, h: Number(tick.hostCpuActiveTicks), e: tick.hostEnergyJoules }));
+        if (points.length < 3) return { ok: false, reason: 'not_enough_ticks' };
+
+        // host load (ticks per second) must spread over at least 10 % of its peak
+        const loads = points.map((p) => p.h / p.dt);
+        const peak = Math.max(...loads);
+        if (!(peak > 0) || peak - Math.min(...loads) < 0.1 * peak) return { ok: false, reason: 'no_load_variation' };
+
+        let sdd = 0, sdh = 0, shh = 0, sde = 0, she = 0;
+        for (const { dt, h, e } of points) {
+            sdd += dt * dt;
+            sdh += dt * h;
+            shh += h * h;
+            sde += dt * e;
+            she += h * e;
+        }
+        const det = sdd * shh - sdh * sdh;
+        if (shh === 0 || det <= 1e-9 * sdd * shh) return { ok: false, reason: 'no_load_variation' };
+
+        let idlePowerWatts = (sde * shh - she * sdh) / det;
+        let joulesPerTick = (she * sdd - sde * sdh) / det;
+        if (idlePowerWatts < 0) {
+            // no idle floor in the data: refit through the origin
+            idlePowerWatts = 0;
+            joulesPerTick = she / shh;
+        }
+        if (!(joulesPerTick > 0)) return { ok: false, reason: 'no_energy_per_tick' };
+
+        const mean = points.reduce((sum, p) => sum + p.e, 0) / points.length;
+        let ssRes = 0, ssTot = 0;
+        for (const { dt, h, e } of points) {
+            ssRes += (e - idlePowerWatts * dt - joulesPerTick * h) ** 2;
+            ssTot += (e - mean) ** 2;
+        }
+
+        const processEnergyJoules = Math.min(joulesPerTick * Number(input.processCpuActiveTicks), input.hostEnergyJoules);
+        const idleEnergyJoules = Math.min(idlePowerWatts * input.durationSeconds, input.hostEnergyJoules);
+        return {
+            ok: true,
+            cpuShare: input.hostEnergyJoules > 0 ? processEnergyJoules / input.hostEnergyJoules : 0,
+            processEnergyJoules,
+            idlePowerWatts,
+            idleEnergyJoules,
+            dynamicEnergyJoules: input.hostEnergyJoules - idleEnergyJoules,
+            regression: { idlePowerWatts, joulesPerTick, r2: ssTot > 0 ? 1 - ssRes / ssTot : 1, ticks: points.length },
+        };
+    },
+};
+
+export const ATTRIBUTION_STRATEGIES: ReadonlyMap<string, AttributionStrategy> = new Map(
+    [activeShareStrategy, dynamicOnlyStrategy, idleSharedByReservationStrategy, regressionStrategy]
+        .map((strategy) => [strategy.name, strategy])
+);
+
+export function getAttributionStrategy(name: string): AttributionStrategy | undefined {
+    return ATTRIBUTION_STRATEGIES.get(name);
+}
@@ -0,0 +1,32 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { computeMarginalEnergy, summarizeBaseline } from "./baseline.js";
+
+test("baseline test suite", async (t) => {
+    await t.test("summarizeBaseline - mean power, spread and tick rate", () => {
+        const baseline = summarizeBaseline([
+            { durationSeconds: 1, hostEnergyJoules: 4, hostCpuActiveTicks: 10n },
+            { durationSeconds: 1, hostEnergyJoules: 6, hostCpuActiveTicks: 30n },
+            { durationSeconds: 0, hostEnergyJoules: 99, hostCpuActiveTicks: 99n },
+        ]);
+        assert.strictEqual(baseline.ok, true);
+        assert.strictEqual(baseline.ticks, 2);
+        assert.strictEqual(baseline.hostPowerWatts, 5);
+        assert.strictEqual(baseline.hostPowerStdWatts, Math.sqrt(2));
+        assert.strictEqual(baseline.hostTicksPerSecond, 20);
+
+        assert.strictEqual(summarizeBaseline([]).reason, "not_enough_ticks");
+    });
+
+    await t.test("computeMarginalEnergy - total minus baseline × duration, with uncertainty", () => {
+        const baseline = summarizeBaseline([4, 6, 4, 6].map((hostEnergyJoules) => ({ durationSeconds: 1, hostEnergyJoules, hostCpuActiveTicks: 20n })));
+        const marginal = computeMarginalEnergy({ baseline, hostEnergyJoules: 80, hostCpuActiveTicks: 500n, durationSeconds: 10, ticks: 4 });
+        assert.strictEqual(marginal.ok, true);
+        assert.strictEqual(marginal.hostMarginalEnergyJoules, 30);
+        assert.strictEqual(marginal.hostMarginalPowerWatts, 3);
+        assert.strictEqual(marginal.hostMarginalActiveTicks, 300);
+        assert.ok(Math.abs(marginal.hostMarginalEnergyUncertaintyJoules! - baseline.hostPowerStdWatts * 10 * Math.sqrt(0.5)) < 1e-12);
+
+        assert.strictEqual(computeMarginalEnergy({ baseline: summarizeBaseline([]), hostEnergyJoules: 1, hostCpuActiveTicks: 0n, durationSeconds: 1, ticks: 1 }).reason, "not_enough_ticks");
+    });
+});
@@ -0,0 +1,85 @@
+export interface BaselineTick {
+    durationSeconds: number;
+    hostEnergyJoules: number;
+    hostCpuActiveTicks: bigint;
+}
+
+export interface BaselineMeasurement {
+    ok: boolean;
+    reason?: string;
+    durationSeconds: number;
+    ticks: number;
+    hostPowerWatts: number;         // mean background power (energy / time)
+    hostPowerStdWatts: number;      // per-tick standard deviation
+    hostTicksPerSecond: number;     // background host active ticks rate
+}
+
+export interface MarginalEnergyInput {
+    baseline: BaselineMeasurement;
+    hostEnergyJoules: number;
+    hostCpuActiveTicks: bigint;
+    durationSeconds: number;
+    ticks: number;                  // measured ticks of the run
+}
+
+export interface MarginalEnergyResult {
+    ok: boolean;
+    reason?: string;
+    hostMarginalEnergyJoules?: number;      // total - baseline power × duration (can be < 0 within noise)
+    hostMarginalEnergyUncertaintyJoules?: number;
+    hostMarginalPowerWatts?: number;
+    hostMarginalActiveTicks?: number;
+}
+
+/**
+ * Background host power and tick rate from the ticks of an idle pre-roll.
+ */
+export function summarizeBaseline(ticks: BaselineTick[]): BaselineMeasurement {
+    const valid = ticks.filter((tick) => tick.durationSeconds > 0 && Number.isFinite(tick.hostEnergyJoules) && tick.hostEnergyJoules >= 0);
+    const durationSeconds = valid.reduce((sum, tick) => sum + tick.durationSeconds, 0);
+    if (valid.length < 2 || durationSeconds <= 0) {
+        return { ok: false, reason: "not_enough_ticks", durationSeconds, ticks: valid.length, hostPowerWatts: 0, hostPowerStdWatts: 0, hostTicksPerSecond: 0 };
+    }
+
+    const hostPowerWatts = valid.reduce((sum, tick) => sum + tick.hostEnergyJoules, 0) / durationSeconds;
+    const variance = valid.reduce((sum, tick) => sum + (tick.hostEnergyJoules / tick.durationSeconds - hostPowerWatts) ** 2, 0) / (valid.length - 1);
+    const hostTicksPerSecond = valid.reduce((sum, tick) => sum + Number(tick.hostCpuActiveTicks), 0) / durationSeconds;
+
+    return {
+        ok: true,
+        durationSeconds,
+        ticks: valid.length,
+        hostPowerWatts,
+        hostPowerStdWatts: Math.sqrt(variance),
+        hostTicksPerSecond,
+    };
+}
+
+/**
+ * Host energy caused by the workload: total minus baseline power × duration.
+ * Uncertainty (1σ) combines the error on the baseline mean and the background
+ * fluctuations during the run: σ × T × √(1/n_baseline + 1/n_run).
+ */
+export function computeMarginalEnergy(input: MarginalEnergyInput): MarginalEnergyResult {
+    const { baseline, hostEnergyJoules, hostCpuActiveTicks, durationSeconds, ticks } = input;
+    if (!baseline.ok) {
+        return { ok: false, reason: baseline.reason ?? "invalid_baseline" };
+    }
+    if (!Number.isFinite(hostEnergyJoules) || hostEnergyJoules < 0) {
+        return { ok: false, reason: "invalid_host_energy" };
+    }
+    if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+        return { ok: false, reason: "invalid_duration" };
+    }
+
+    const hostMarginalEnergyJoules = hostEnergyJoules - baseline.hostPowerWatts * durationSeconds;
+    const hostMarginalEnergyUncertaintyJoules = baseline.hostPowerStdWatts * durationSeconds * Math.sqrt(1 / baseline.ticks + 1 / Math.max(ticks, 1));
+
+    return {
+        ok: true,
+        hostMarginalEnergyJoules,
+        hostMarginalEnergyUncertaintyJoules,
+        hostMarginalPowerWatts: hostMarginalEnergyJoules / durationSeconds,
+        hostMarginalActiveTicks: Number(hostCpuActiveTicks) - baseline.hostTicksPerSecond * durationSeconds,
+    };
+}
@@ -0,0 +1,23 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { checkEnergyBudget } from "./budget.js";
+
+test('checkEnergyBudget - exceeded thresholds with excess', () => {
+    const result = checkEnergyBudget({ energyJoules: 120, carbon_gCO2e: 0.01, durationSeconds: 10 }, { maxJoules: 100, maxGco2e: 0.02, maxAvgWatts: 15 }, "nightly");
+
+    assert.strictEqual(result.ok, false);
+    assert.strictEqual(result.label, "nightly");
+    assert.strictEqual(result.checks.length, 3);
+    assert.deepStrictEqual(result.exceeded, [{ metric: "joules", limit: 100, actual: 120, exceeded: true, excess: 20, excessRatio: 0.2 }]);
+    assert.strictEqual(result.checks[2].actual, 12);
+    assert.strictEqual(result.checks[2].exceeded, false);
+});
+
+test('checkEnergyBudget - unset thresholds are not checked, equality passes', () => {
+    const result = checkEnergyBudget({ energyJoules: 50, carbon_gCO2e: 0.01, durationSeconds: 0 }, { maxJoules: 50 });
+    assert.strictEqual(result.ok, true);
+    assert.strictEqual(result.label, null);
+    assert.deepStrictEqual(result.checks.map((c) => c.metric), ["joules"]);
+
+    assert.strictEqual(checkEnergyBudget({ energyJoules: 1, carbon_gCO2e: 0, durationSeconds: 1 }, {}).checks.length, 0);
+});
@@ -0,0 +1,51 @@
+export type BudgetMetric = "joules" | "gco2e" | "avgWatts";
+
+export interface EnergyBudget {
+    maxJoules?: number;     // process CPU energy
+    maxGco2e?: number;      // process CPU carbon
+    maxAvgWatts?: number;   // process CPU energy / duration
+}
+
+export interface BudgetMeasurement {
+    energyJoules: number;
+    carbon_gCO2e: number;
+    durationSeconds: number;
+}
+
+export interface BudgetCheck {
+    metric: BudgetMetric;
+    limit: number;
+    actual: number;
+    exceeded: boolean;
+    excess: number;         // actual - limit, > 0 when exceeded
+    excessRatio: number;    // excess / limit
+}
+
+export interface BudgetResult {
+    ok: boolean;            // false when at least one threshold is exceeded
+    label?: string | null;  // config budgets key, for reports
+    checks: BudgetCheck[];
+    exceeded: BudgetCheck[];
+}
+
+/**
+ * Compares an audit with its thresholds; only the thresholds that are set are checked.
+ */
+export function checkEnergyBudget(measurement: BudgetMeasurement, budget: EnergyBudget, label: string | null = null): BudgetResult {
+    const avgWatts = measurement.durationSeconds > 0 ? measurement.energyJoules / measurement.durationSeconds : 0;
+    const limits: [BudgetMetric, number | undefined, number][] = [
+        ["joules", budget.maxJoules, measurement.energyJoules],
+        ["gco2e", budget.maxGco2e, measurement.carbon_gCO2e],
+        ["avgWatts", budget.maxAvgWatts, avgWatts],
+    ];
+
+    const checks: BudgetCheck[] = [];
+    for (const [metric, limit, actual] of limits) {
+        if (limit === undefined) continue;
+        const excess = actual - limit;
+        checks.push({ metric, limit, actual, exceeded: excess > 0, excess, excessRatio: limit > 0 ? excess / limit : excess > 0 ? Infinity : 0 });
+    }
+
+    const exceeded = checks.filter((check) => check.exceeded);
+    return { ok: exceeded.length === 0, label, checks, exceeded };
+}
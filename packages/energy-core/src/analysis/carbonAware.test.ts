@@ -0,0 +1,62 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { findLowestCarbonStart } from "./carbonAware.js";
+
+const H = 3_600_000;
+const T0 = Date.parse('2025-01-18T00:00:00Z');
+
+// 3am cheap, 6pm dirty
+const SERIES = [
+    { timestampMs: T0, intensity_gCO2ePerKWh: 300 },
+    { timestampMs: T0 + 1 * H, intensity_gCO2ePerKWh: 200 },
+    { timestampMs: T0 + 2 * H, intensity_gCO2ePerKWh: 50 },
+    { timestampMs: T0 + 3 * H, intensity_gCO2ePerKWh: 100 },
+    { timestampMs: T0 + 4 * H, intensity_gCO2ePerKWh: 400 },
+];
+
+test('findLowestCarbonStart - picks the cleanest slot of the window', () => {
+    const result = findLowestCarbonStart({
+        energyJoules: 3.6e6, // 1 kWh over 1 h
+        durationSeconds: 3600,
+        series: SERIES,
+        nowMs: T0 + 30 * 60_000,
+        windowMs: 4 * H,
+        emissionFactor: 475,
+    });
+
+    assert.strictEqual(result.ok, true);
+    // now: half an hour at 300, half an hour at 200
+    assert.strictEqual(result.now?.carbon_gCO2e, 250);
+    assert.strictEqual(result.best?.startMs, T0 + 2 * H);
+    assert.strictEqual(result.best?.carbon_gCO2e, 50);
+    assert.strictEqual(result.savings_gCO2e, 200);
+    assert.strictEqual(result.savingsRatio, 0.8);
+    assert.ok(result.candidates!.every((slot, i, all) => i === 0 || all[i - 1].carbon_gCO2e <= slot.carbon_gCO2e));
+});
+
+test('findLowestCarbonStart - slot straddling two values', () => {
+    const result = findLowestCarbonStart({
+        energyJoules: 7.2e6, // 2 kWh over 2 h
+        durationSeconds: 7200,
+        series: SERIES,
+        nowMs: T0,
+        windowMs: 5 * H,
+        emissionFactor: 475,
+    });
+    assert.strictEqual(result.best?.startMs, T0 + 2 * H);
+    assert.strictEqual(result.best?.carbon_gCO2e, 150);
+    assert.strictEqual(result.best?.effectiveEmissionFactor, 75);
+});
+
+test('findLowestCarbonStart - invalid inputs', () => {
+    const base = { energyJoules: 1, durationSeconds: 3600, series: SERIES, nowMs: T0, windowMs: 4 * H, emissionFactor: 475 };
+    assert.strictEqual(findLowestCarbonStart({ ...base, windowMs: H / 2 }).reason, 'window_shorter_than_job');
+    assert.strictEqual(findLowestCarbonStart({ ...base, series: [] }).reason, 'empty_series');
+    assert.strictEqual(findLowestCarbonStart({ ...base, durationSeconds: 0 }).reason, 'invalid_duration');
+
+    // forecast in the past: baseline only
+    const stale = findLowestCarbonStart({ ...base, nowMs: T0 + 10 * H });
+    assert.strictEqual(stale.ok, false);
+    assert.strictEqual(stale.reason, 'forecast_does_not_cover_window');
+    assert.strictEqual(stale.now?.covered, false);
+});
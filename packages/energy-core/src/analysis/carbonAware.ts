@@ -0,0 +1,114 @@
+import { estimateCarbonFootprint, EnergySlice } from "./estimateCarbon.js";
+import type { CarbonIntensityPoint } from "./carbonIntensity.js";
+
+export interface CarbonAwareInput {
+    energyJoules: number;       // energy of one run (processCpuEnergyJoules of an audit)
+    durationSeconds: number;    // job duration, constant power assumed
+    series: CarbonIntensityPoint[];
+    nowMs: number;
+    windowMs: number;           // the job must end within [now, now + window]
+    emissionFactor: number;     // gCO2e/kWh where the series has no value (baseline only)
+}
+
+export interface CarbonAwareSlot {
+    startMs: number;
+    endMs: number;
+    carbon_gCO2e: number;
+    effectiveEmissionFactor: number;
+    covered: boolean;           // whole run inside the series
+}
+
+export interface CarbonAwareResult {
+    ok: boolean;
+    reason?: string;
+    now?: CarbonAwareSlot;
+    best?: CarbonAwareSlot;
+    savings_gCO2e?: number;
+    savingsRatio?: number;      // of the carbon of running now
+    candidates?: CarbonAwareSlot[]; // covered slots, lowest carbon first
+}
+
+/**
+ * Slices [startMs, endMs) at the series boundaries: constant intensity inside each slice.
+ */
+function sliceRun(startMs: number, endMs: number, powerWatts: number, series: CarbonIntensityPoint[]): EnergySlice[] {
+    const cuts = [startMs, ...series.map((p) => p.timestampMs).filter((t) => t > startMs && t < endMs), endMs];
+    const slices: EnergySlice[] = [];
+    for (let i = 0; i < cuts.length - 1; i++) {
+        slices.push({ timestampMs: cuts[i], energyJoules: powerWatts * (cuts[i + 1] - cuts[i]) / 1000 });
+    }
+    return slices;
+}
+
+function evaluateSlot(input: CarbonAwareInput, startMs: number, powerWatts: number): CarbonAwareSlot {
+    const durationMs = input.durationSeconds * 1000;
+    const energySlices = sliceRun(startMs, startMs + durationMs, powerWatts, input.series);
+    const estimate = estimateCarbonFootprint({
+        energyJoules: input.energyJoules,
+        emissionFactor: input.emissionFactor,
+        intensitySeries: input.series,
+        energySlices,
+    });
+    return {
+        startMs,
+        endMs: startMs + durationMs,
+        carbon_gCO2e: estimate.carbon_gCO2e ?? 0,
+        effectiveEmissionFactor: estimate.effectiveEmissionFactor ?? input.emissionFactor,
+        covered: (estimate.uncoveredSlices ?? 0) === 0,
+    };
+}
+
+/**
+ * Start time minimizing the carbon of a job (constant power = energy / duration) within a window.
+ * The intensity is a step function, so the optimum starts or ends on a series point:
+ * only those starts (and now) are evaluated. Slots leaving the series are not proposed.
+ */
+export function findLowestCarbonStart(input: CarbonAwareInput): CarbonAwareResult {
+    const { energyJoules, durationSeconds, series, nowMs, windowMs } = input;
+
+    if (!Number.isFinite(energyJoules) || energyJoules < 0) {
+        return { ok: false, reason: "invalid_energy_joules" };
+    }
+    if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+        return { ok: false, reason: "invalid_duration" };
+    }
+    if (series.length === 0) {
+        return { ok: false, reason: "empty_series" };
+    }
+
+    const durationMs = durationSeconds * 1000;
+    const latestStartMs = nowMs + windowMs - durationMs;
+    if (latestStartMs < nowMs) {
+        return { ok: false, reason: "window_shorter_than_job" };
+    }
+
+    const powerWatts = energyJoules / durationSeconds;
+    const now = evaluateSlot(input, nowMs, powerWatts);
+
+    const starts = new Set<number>([nowMs]);
+    for (const point of series) {
+        for (const start of [point.timestampMs, point.timestampMs - durationMs]) {
+            if (start >= nowMs && start <= latestStartMs) starts.add(start);
+        }
+    }
+
+    const candidates = [...starts]
+        .map((start) => start === nowMs ? now : evaluateSlot(input, start, powerWatts))
+        .filter((slot) => slot.covered)
+        .sort((a, b) => a.carbon_gCO2e - b.carbon_gCO2e || a.startMs - b.startMs);
+
+    if (candidates.length === 0) {
+        return { ok: false, reason: "forecast_does_not_cover_window", now };
+    }
+
+    const best = candidates[0];
+    const savings_gCO2e = now.carbon_gCO2e - best.carbon_gCO2e;
+    return {
+        ok: true,
+        now,
+        best,
+        savings_gCO2e,
+        savingsRatio: now.carbon_gCO2e > 0 ? savings_gCO2e / now.carbon_gCO2e : 0,
+        candidates,
+    };
+}
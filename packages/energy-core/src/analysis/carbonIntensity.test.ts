@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import { join } from "node:path";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { intensityAt, loadCarbonIntensitySeries, parseCarbonIntensityCsv, parseCarbonIntensityJson } from "./carbonIntensity.js";
+import { estimateCarbonFootprint } from "./estimateCarbon.js";
+
+const H = 3_600_000;
+const T0 = Date.parse('2025-01-18T00:00:00Z');
+
+test('parseCarbonIntensityCsv - header by name, epoch or ISO timestamps', () => {
+    const series = parseCarbonIntensityCsv([
+        'zone,datetime,carbon_intensity_gco2_per_kwh',
+        'FR,2025-01-18T01:00:00Z,40',
+        'FR,2025-01-18T00:00:00Z,30',
+        'FR,not a date,50',
+    ].join('\n'));
+    assert.deepStrictEqual(series, [
+        { timestampMs: T0, intensity_gCO2ePerKWh: 30 },
+        { timestampMs: T0 + H, intensity_gCO2ePerKWh: 40 },
+    ]);
+
+    // no header: timestamp (s), gCO2e/kWh
+    assert.deepStrictEqual(parseCarbonIntensityCsv(`${T0 / 1000},120\n`), [{ timestampMs: T0, intensity_gCO2ePerKWh: 120 }]);
+    assert.throws(() => parseCarbonIntensityCsv('timestamp,intensity\n'), /no valid/);
+});
+
+test('parseCarbonIntensityJson - arrays and provider exports', () => {
+    assert.deepStrictEqual(parseCarbonIntensityJson(JSON.stringify([{ timestamp: T0, intensity: 80 }])), [{ timestampMs: T0, intensity_gCO2ePerKWh: 80 }]);
+    assert.deepStrictEqual(parseCarbonIntensityJson(JSON.stringify({ history: [{ datetime: '2025-01-18T00:00:00Z', carbonIntensity: 55 }] })), [{ timestampMs: T0, intensity_gCO2ePerKWh: 55 }]);
+    assert.deepStrictEqual(parseCarbonIntensityJson(JSON.stringify({ data: [{ from: '2025-01-18T00:00Z', to: '2025-01-18T00:30Z', intensity: { forecast: 190, actual: 180 } }] })), [{ timestampMs: T0, intensity_gCO2ePerKWh: 180 }]);
+    assert.throws(() => parseCarbonIntensityJson('{"foo": 1}'), /expected an array/);
+});
+
+test('intensityAt - step function, null outside the series', () => {
+    const series = [
+        { timestampMs: T0, intensity_gCO2ePerKWh: 30 },
+        { timestampMs: T0 + H, intensity_gCO2ePerKWh: 40 },
+        { timestampMs: T0 + 2 * H, intensity_gCO2ePerKWh: 50 },
+    ];
+    assert.strictEqual(intensityAt(series, T0 - 1), null);
+    assert.strictEqual(intensityAt(series, T0), 30);
+    assert.strictEqual(intensityAt(series, T0 + H - 1), 30);
+    assert.strictEqual(intensityAt(series, T0 + H + 10), 40);
+    assert.strictEqual(intensityAt(series, T0 + 3 * H - 1), 50); // last point lasts one step
+    assert.strictEqual(intensityAt(series, T0 + 3 * H), null);
+});
+
+test('estimateCarbonFootprint - energy-weighted factor with a series', () => {
+    const intensitySeries = [
+        { timestampMs: T0, intensity_gCO2ePerKWh: 100 },
+        { timestampMs: T0 + H, intensity_gCO2ePerKWh: 400 },
+    ];
+    const result = estimateCarbonFootprint({
+        energyJoules: 3.6e6,
+        emissionFactor: 475,
+        intensitySeries,
+        energySlices: [
+            { timestampMs: T0 + 10, energyJoules: 2.7e6 },
+            { timestampMs: T0 + H + 10, energyJoules: 0.9e6 },
+        ],
+    });
+    assert.strictEqual(result.ok, true);
+    assert.strictEqual(result.effectiveEmissionFactor, 175); // (0.75 × 100) + (0.25 × 400)
+    assert.strictEqual(result.carbon_gCO2e, 175);
+    assert.strictEqual(result.uncoveredSlices, 0);
+
+    // outside the series: static factor
+    const outside = estimateCarbonFootprint({ energyJoules: 3.6e6, emissionFactor: 475, intensitySeries, energySlices: [{ timestampMs: T0 - H, energyJoules: 3.6e6 }] });
+    assert.strictEqual(outside.effectiveEmissionFactor, 475);
+    assert.strictEqual(outside.uncoveredSlices, 1);
+
+    // no series: unchanged behaviour
+    assert.strictEqual(estimateCarbonFootprint({ energyJoules: 3.6e6, emissionFactor: 52 }).carbon_gCO2e, 52);
+});
+
+test('loadCarbonIntensitySeries - by extension', async (t) => {
+    const tmp = await mkdtemp(join(os.tmpdir(), 'intensity-'));
+    t.after(async () => {
+        await rm(tmp, { recursive: true, force: true });
+    });
+    await writeFile(join(tmp, 'grid.json'), JSON.stringify([{ timestamp: '2025-01-18T00:00:00Z', value: 12 }]));
+    await writeFile(join(tmp, 'grid.csv'), 'timestamp;gCO2e/kWh\n2025-01-18T00:00:00Z;13\n');
+    assert.strictEqual((await loadCarbonIntensitySeries(join(tmp, 'grid.json')))[0].intensity_gCO2ePerKWh, 12);
+    assert.strictEqual((await loadCarbonIntensitySeries(join(tmp, 'grid.csv')))[0].intensity_gCO2ePerKWh, 13);
+});
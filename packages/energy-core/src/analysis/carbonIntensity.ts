@@ -0,0 +1,135 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+
+export interface CarbonIntensityPoint {
+    timestampMs: number;            // wall clock (epoch ms), start of the period
+    intensity_gCO2ePerKWh: number;
+}
+
+const TIMESTAMP_KEYS = ['timestamp', 'datetime', 'time', 'date', 'from'];
+const INTENSITY_KEYS = ['intensity_gco2eperkwh', 'carbonintensity', 'carbon_intensity', 'intensity', 'gco2eperkwh', 'gco2e_per_kwh', 'value'];
+
+/**
+ * ISO 8601 string, or epoch in seconds (< 1e11) / milliseconds.
+ */
+function parseTimestamp(value: unknown): number | null {
+    if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+        const n = Number(value);
+        if (!Number.isFinite(n)) return null;
+        return n < 1e11 ? n * 1000 : n;
+    }
+    if (typeof value === 'string') {
+        const ms = Date.parse(value.trim());
+        return Number.isFinite(ms) ? ms : null;
+    }
+    return null;
+}
+
+function parseIntensity(value: unknown): number | null {
+    // UK carbon intensity API: { intensity: { forecast, actual } }
+    if (typeof value === 'object' && value !== null) {
+        const { actual, forecast } = value as { actual?: unknown, forecast?: unknown };
+        return parseIntensity(actual ?? forecast);
+    }
+    if (value === null || value === undefined || value === '') return null;
+    const n = Number(value);
+    return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function sortSeries(points: CarbonIntensityPoint[]): CarbonIntensityPoint[] {
+    if (points.length === 0) {
+        throw new Error('carbon intensity series: no valid (timestamp, gCO2e/kWh) row');
+    }
+    return points.sort((a, b) => a.timestampMs - b.timestampMs);
+}
+
+/**
+ * `timestamp,gCO2e/kWh` rows. With a header, columns are picked by name
+ * (timestamp/datetime/time/date/from, and *intensity*, *gco2* or value), otherwise the first two columns.
+ * Rows that cannot be parsed are skipped.
+ */
+export function parseCarbonIntensityCsv(raw: string): CarbonIntensityPoint[] {
+    const rows = raw.split(/\r?\n/).map((line) => line.trim()).filter(Boolean).map((line) => line.split(/[,;]/).map((cell) => cell.trim().replace(/^"|"$/g, '')));
+    if (rows.length === 0) return sortSeries([]);
+
+    let timeColumn = 0;
+    let intensityColumn = 1;
+    const hasHeader = parseIntensity(rows[0][1]) === null;
+    if (hasHeader) {
+        const header = rows[0].map((cell) => cell.toLowerCase().replace(/[^a-z0-9]/g, ''));
+        const time = header.findIndex((name) => TIMESTAMP_KEYS.some((key) => name.includes(key)));
+        const intensity = header.findIndex((name) => name.includes('intensity') || name.includes('gco2') || name === 'value');
+        if (time >= 0) timeColumn = time;
+        if (intensity >= 0) intensityColumn = intensity;
+    }
+
+    const points: CarbonIntensityPoint[] = [];
+    for (const row of hasHeader ? rows.slice(1) : rows) {
+        const timestampMs = parseTimestamp(row[timeColumn]);
+        const intensity = parseIntensity(row[intensityColumn]);
+        if (timestampMs === null || intensity === null) continue;
+        points.push({ timestampMs, intensity_gCO2ePerKWh: intensity });
+    }
+    return sortSeries(points);
+}
+
+/**
+ * Array of objects, or `{ data: [...] }` / `{ history: [...] }` as exported by grid-data providers.
+ * Timestamp and intensity keys are matched case-insensitively (see TIMESTAMP_KEYS / INTENSITY_KEYS).
+ */
+export function parseCarbonIntensityJson(raw: string): CarbonIntensityPoint[] {
+    const parsed = JSON.parse(raw);
+    const rows: unknown = Array.isArray(parsed) ? parsed : parsed?.data ?? parsed?.history;
+    if (!Array.isArray(rows)) {
+        throw new Error('carbon intensity series: expected an array, or { data: [...] } / { history: [...] }');
+    }
+
+    const points: CarbonIntensityPoint[] = [];
+    for (const row of rows) {
+        if (typeof row !== 'object' || row === null) continue;
+        const entries = Object.entries(row).map(([key, value]) => [key.toLowerCase(), value] as const);
+        const pick = (keys: string[]) => keys.map((key) => entries.find(([name]) => name === key)?.[1]).find((value) => value !== undefined);
+
+        const timestampMs = parseTimestamp(pick(TIMESTAMP_KEYS));
+        const intensity = parseIntensity(pick(INTENSITY_KEYS));
+        if (timestampMs === null || intensity === null) continue;
+        points.push({ timestampMs, intensity_gCO2ePerKWh: intensity });
+    }
+    return sortSeries(points);
+}
+
+/**
+ * Loads a series from a `.json` or `.csv` file (anything else is read as csv). Throws on invalid content.
+ */
+export async function loadCarbonIntensitySeries(filePath: string): Promise<CarbonIntensityPoint[]> {
+    const raw = await readFile(filePath, 'utf8');
+    return extname(filePath).toLowerCase() === '.json'
+        ? parseCarbonIntensityJson(raw)
+        : parseCarbonIntensityCsv(raw);
+}
+
+function medianStepMs(series: CarbonIntensityPoint[]): number {
+    const steps = series.slice(1).map((point, i) => point.timestampMs - series[i].timestampMs).filter((step) => step > 0).sort((a, b) => a - b);
+    return steps.length > 0 ? steps[Math.floor(steps.length / 2)] : 3_600_000;
+}
+
+/**
+ * Intensity in force at `timestampMs`: the last point at or before it (step function).
+ * The last point stays in force for one median step of the series (1 h for a single point).
+ * Returns null outside the series.
+ */
+export function intensityAt(series: CarbonIntensityPoint[], timestampMs: number): number | null {
+    if (series.length === 0 || timestampMs < series[0].timestampMs) return null;
+
+    let lo = 0;
+    let hi = series.length - 1;
+    while (lo < hi) {
+        const mid = Math.ceil((lo + hi) / 2);
+        if (series[mid].timestampMs <= timestampMs) lo = mid; else hi = mid - 1;
+    }
+
+    if (lo === series.length - 1 && timestampMs >= series[lo].timestampMs + medianStepMs(series)) {
+        return null;
+    }
+    return series[lo].intensity_gCO2ePerKWh;
+}
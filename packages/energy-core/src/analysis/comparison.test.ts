@@ -0,0 +1,37 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { compareSamples } from "./comparison.js";
+
+const A = [10, 10.4, 9.8, 10.2, 9.9, 10.1];
+const B = [8, 8.3, 7.9, 8.1, 8.2, 7.8];     // ~20 % less energy
+const NOISY = [9, 11.5, 8.6, 11.9, 10.3, 9.2];
+
+test("compareSamples test suite", async (t) => {
+    await t.test("welch - significant difference and ratio", () => {
+        const result = compareSamples(A, B);
+        assert.strictEqual(result.ok, true);
+        assert.strictEqual(result.method, "welch");
+        assert.ok(Math.abs(result.ratio! - 48.3 / 60.4) < 1e-12);
+        assert.ok(result.welch!.pValue < 0.001);
+        assert.strictEqual(result.significant, true);
+
+        assert.strictEqual(compareSamples(A, NOISY).significant, false);
+    });
+
+    await t.test("bootstrap - ratio interval, reproducible with a seed", () => {
+        const result = compareSamples(A, B, { method: "bootstrap", seed: 42 });
+        assert.strictEqual(result.significant, true);
+        assert.ok(result.ratioCi95![0] < result.ratio! && result.ratio! < result.ratioCi95![1]);
+        assert.ok(result.ratioCi95![1] < 1);
+        assert.deepStrictEqual(compareSamples(A, B, { method: "bootstrap", seed: 42 }).ratioCi95, result.ratioCi95);
+
+        const noisy = compareSamples(A, NOISY, { method: "bootstrap", seed: 42 });
+        assert.ok(noisy.ratioCi95![0] < 1 && noisy.ratioCi95![1] > 1);
+        assert.strictEqual(noisy.significant, false);
+    });
+
+    await t.test("needs 2 runs per command and energy in A", () => {
+        assert.strictEqual(compareSamples([1], B).reason, "not_enough_runs");
+        assert.strictEqual(compareSamples([0, 0], B).reason, "no_energy_in_a");
+    });
+});
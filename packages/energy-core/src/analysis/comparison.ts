@@ -0,0 +1,110 @@
+import { describeSample, welchTTest, SampleStatistics, WelchTestResult } from "./statistics.js";
+
+export type ComparisonMethod = "welch" | "bootstrap";
+
+export interface ComparisonOptions {
+    method?: ComparisonMethod;  // default: welch
+    iterations?: number;        // bootstrap resamples (default 10000)
+    seed?: number;              // bootstrap PRNG seed, for reproducible intervals
+}
+
+export interface ComparisonResult {
+    ok: boolean;
+    reason?: string;
+    method: ComparisonMethod;
+    a: SampleStatistics;
+    b: SampleStatistics;
+    ratio?: number;                         // mean(b) / mean(a)
+    ratioCi95?: [number, number] | null;    // bootstrap percentile interval
+    difference?: number;                    // mean(b) - mean(a)
+    differenceCi95?: [number, number];
+    welch?: WelchTestResult;
+    significant?: boolean;                  // at 5 %: welch p < 0.05, bootstrap ratio interval excludes 1
+}
+
+/**
+ * Small deterministic PRNG (mulberry32), uniform in [0, 1).
+ */
+function mulberry32(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let x = state;
+        x = Math.imul(x ^ (x >>> 15), x | 1);
+        x ^= x + Math.imul(x ^ (x >>> 7), x | 61);
+        return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function resampleMean(values: number[], random: () => number): number {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += values[Math.floor(random() * values.length)];
+    return sum / values.length;
+}
+
+function percentile(sorted: number[], p: number): number {
+    const index = (sorted.length - 1) * p;
+    const lo = Math.floor(index);
+    const hi = Math.ceil(index);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (index - lo);
+}
+
+/**
+ * Compares two samples of the same measurement (e.g. process joules of A and B runs).
+ * welch: Welch t-test on the difference of means; bootstrap: percentile interval of mean(b) / mean(a).
+ */
+export function compareSamples(a: number[], b: number[], options: ComparisonOptions = {}): ComparisonResult {
+    const method = options.method ?? "welch";
+    const sa = describeSample(a);
+    const sb = describeSample(b);
+    const base = { method, a: sa, b: sb };
+
+    if (sa.n < 2 || sb.n < 2) {
+        return { ok: false, reason: "not_enough_runs", ...base };
+    }
+    if (sa.mean <= 0) {
+        return { ok: false, reason: "no_energy_in_a", ...base };
+    }
+
+    const ratio = sb.mean / sa.mean;
+    const welch = welchTTest(a, b)!;
+
+    if (method === "welch") {
+        return {
+            ok: true,
+            ...base,
+            ratio,
+            ratioCi95: null,
+            difference: welch.difference,
+            differenceCi95: welch.differenceCi95,
+            welch,
+            significant: welch.pValue < 0.05,
+        };
+    }
+
+    const finiteA = a.filter(Number.isFinite);
+    const finiteB = b.filter(Number.isFinite);
+    const random = mulberry32(options.seed ?? 0x5EED);
+    const iterations = Math.max(100, Math.floor(options.iterations ?? 10_000));
+    const ratios: number[] = [];
+    const differences: number[] = [];
+    for (let i = 0; i < iterations; i++) {
+        const meanA = resampleMean(finiteA, random);
+        const meanB = resampleMean(finiteB, random);
+        differences.push(meanB - meanA);
+        if (meanA > 0) ratios.push(meanB / meanA);
+    }
+    ratios.sort((x, y) => x - y);
+    differences.sort((x, y) => x - y);
+
+    const ratioCi95: [number, number] = [percentile(ratios, 0.025), percentile(ratios, 0.975)];
+    return {
+        ok: true,
+        ...base,
+        ratio,
+        ratioCi95,
+        difference: welch.difference,
+        differenceCi95: [percentile(differences, 0.025), percentile(differences, 0.975)],
+        significant: ratioCi95[0] > 1 || ratioCi95[1] < 1,
+    };
+}
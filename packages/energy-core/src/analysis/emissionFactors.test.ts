@@ -0,0 +1,54 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import { join } from "node:path";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { loadCountryEmissionFactors, lookupCountryEmissionFactor, normalizeCountryCode, searchCountries } from "./emissionFactors.js";
+
+test('normalizeCountryCode - ISO-2 and ISO-3', () => {
+    assert.strictEqual(normalizeCountryCode('FRA'), 'FRA');
+    assert.strictEqual(normalizeCountryCode('fr'), 'FRA');
+    assert.strictEqual(normalizeCountryCode('UK'), 'GBR');
+    assert.strictEqual(normalizeCountryCode('XX'), null);
+    assert.strictEqual(normalizeCountryCode('France'), null);
+});
+
+test('emission factors - bundled dataset', async () => {
+    const countries = await loadCountryEmissionFactors();
+    const france = countries.find((c) => c.isoCode === 'FRA');
+    assert.strictEqual(france?.iso2, 'FR');
+    assert.strictEqual(france?.countryName, 'France');
+    assert.ok(france!.year > 2000);
+
+    assert.deepStrictEqual(searchCountries('de', countries).map((c) => c.isoCode).includes('DEU'), true);
+    assert.deepStrictEqual(searchCountries('zealand', countries).map((c) => c.isoCode), ['NZL']);
+    assert.strictEqual(searchCountries('', countries).length, countries.length);
+
+    const lookup = await lookupCountryEmissionFactor('fr');
+    assert.strictEqual(lookup.ok, true);
+    assert.strictEqual(lookup.ok && lookup.country.emissionFactor_gCO2ePerKWh, france!.emissionFactor_gCO2ePerKWh);
+});
+
+test('lookupCountryEmissionFactor - errors', async (t) => {
+    const tmp = await mkdtemp(join(os.tmpdir(), 'energy-mix-'));
+    t.after(async () => {
+        await rm(tmp, { recursive: true, force: true });
+    });
+
+    const datasetPath = join(tmp, 'energy-mix.json');
+    await writeFile(datasetPath, JSON.stringify({
+        FRA: { carbon_intensity: 56, country_name: 'France', iso_code: 'FRA', year: 2021 },
+        ATA: { carbon_intensity: null, country_name: 'Antarctica', iso_code: 'ATA', year: 2021 },
+    }));
+
+    assert.deepStrictEqual(await lookupCountryEmissionFactor('FR', datasetPath), {
+        ok: true,
+        country: { isoCode: 'FRA', iso2: 'FR', countryName: 'France', emissionFactor_gCO2ePerKWh: 56, year: 2021 },
+    });
+    assert.deepStrictEqual(await lookupCountryEmissionFactor('ATA', datasetPath), { ok: false, error: 'unknown_country' });
+    assert.deepStrictEqual(await lookupCountryEmissionFactor('GLOBAL', datasetPath), { ok: false, error: 'invalid_country_code' });
+    assert.deepStrictEqual(await lookupCountryEmissionFactor('FR', join(tmp, 'missing.json')), { ok: false, error: 'file_not_found' });
+
+    await writeFile(datasetPath, '{ not json');
+    assert.deepStrictEqual(await lookupCountryEmissionFactor('FR', datasetPath), { ok: false, error: 'invalid_energy_mix_dataset' });
+});
@@ -0,0 +1,108 @@
+import { readFile } from "node:fs/promises";
+import { extractErrorCode, reasonFromCode } from "@nodefootprint/shared";
+import { repoDataPath } from "../utils/data-path.js";
+
+// <repo>/data/energy-mix.json (Our World in Data, keyed by ISO-3)
+const DEFAULT_ENERGY_MIX_PATH = repoDataPath('energy-mix.json');
+
+export interface CountryEmissionFactor {
+    isoCode: string;        // ISO-3 ("FRA")
+    iso2: string | null;    // ISO-2 ("FR")
+    countryName: string;
+    emissionFactor_gCO2ePerKWh: number; // carbon_intensity of the electricity mix
+    year: number;
+}
+
+export type CountryEmissionFactorResult =
+    | { ok: true, country: CountryEmissionFactor }
+    | { ok: false, error: string };
+
+const ISO2_TO_ISO3: Record<string, string> = {
+    AW: 'ABW', AF: 'AFG', AO: 'AGO', AL: 'ALB', AE: 'ARE', AR: 'ARG', AM: 'ARM', AS: 'ASM', AG: 'ATG', AU: 'AUS', AT: 'AUT', AZ: 'AZE',
+    BI: 'BDI', BE: 'BEL', BJ: 'BEN', BF: 'BFA', BD: 'BGD', BG: 'BGR', BH: 'BHR', BS: 'BHS', BA: 'BIH', BY: 'BLR', BZ: 'BLZ', BO: 'BOL',
+    BR: 'BRA', BB: 'BRB', BN: 'BRN', BT: 'BTN', BW: 'BWA', CF: 'CAF', CA: 'CAN', CH: 'CHE', CL: 'CHL', CN: 'CHN', CI: 'CIV', CM: 'CMR',
+    CD: 'COD', CG: 'COG', CK: 'COK', CO: 'COL', KM: 'COM', CV: 'CPV', CR: 'CRI', CU: 'CUB', KY: 'CYM', CY: 'CYP', CZ: 'CZE', DE: 'DEU',
+    DJ: 'DJI', DM: 'DMA', DK: 'DNK', DO: 'DOM', DZ: 'DZA', EC: 'ECU', EG: 'EGY', ER: 'ERI', ES: 'ESP', EE: 'EST', ET: 'ETH', FI: 'FIN',
+    FJ: 'FJI', FK: 'FLK', FR: 'FRA', FO: 'FRO', GA: 'GAB', GB: 'GBR', GE: 'GEO', GH: 'GHA', GN: 'GIN', GM: 'GMB', GW: 'GNB', GQ: 'GNQ',
+    GR: 'GRC', GD: 'GRD', GL: 'GRL', GT: 'GTM', GU: 'GUM', GY: 'GUY', HK: 'HKG', HN: 'HND', HR: 'HRV', HT: 'HTI', HU: 'HUN', ID: 'IDN',
+    IN: 'IND', IE: 'IRL', IR: 'IRN', IQ: 'IRQ', IS: 'ISL', IL: 'ISR', IT: 'ITA', JM: 'JAM', JO: 'JOR', JP: 'JPN', KZ: 'KAZ', KE: 'KEN',
+    KG: 'KGZ', KH: 'KHM', KI: 'KIR', KN: 'KNA', KR: 'KOR', KW: 'KWT', LA: 'LAO', LB: 'LBN', LR: 'LBR', LY: 'LBY', LC: 'LCA', LK: 'LKA',
+    LS: 'LSO', LT: 'LTU', LU: 'LUX', LV: 'LVA', MO: 'MAC', MA: 'MAR', MD: 'MDA', MG: 'MDG', MV: 'MDV', MX: 'MEX', MK: 'MKD', ML: 'MLI',
+    MT: 'MLT', MM: 'MMR', ME: 'MNE', MN: 'MNG', MZ: 'MOZ', MR: 'MRT', MS: 'MSR', MU: 'MUS', MW: 'MWI', MY: 'MYS', NA: 'NAM', NC: 'NCL',
+    NE: 'NER', NG: 'NGA', NI: 'NIC', NL: 'NLD', NO: 'NOR', NP: 'NPL', NR: 'NRU', NZ: 'NZL', OM: 'OMN', PK: 'PAK', PA: 'PAN', PE: 'PER',
+    PH: 'PHL', PG: 'PNG', PL: 'POL', PR: 'PRI', KP: 'PRK', PT: 'PRT', PY: 'PRY', PS: 'PSE', PF: 'PYF', QA: 'QAT', RO: 'ROU', RU: 'RUS',
+    RW: 'RWA', SA: 'SAU', SD: 'SDN', SN: 'SEN', SG: 'SGP', SB: 'SLB', SL: 'SLE', SV: 'SLV', SO: 'SOM', PM: 'SPM', RS: 'SRB', SS: 'SSD',
+    ST: 'STP', SR: 'SUR', SK: 'SVK', SI: 'SVN', SE: 'SWE', SZ: 'SWZ', SC: 'SYC', SY: 'SYR', TC: 'TCA', TD: 'TCD', TG: 'TGO', TH: 'THA',
+    TJ: 'TJK', TM: 'TKM', TL: 'TLS', TO: 'TON', TT: 'TTO', TN: 'TUN', TR: 'TUR', TW: 'TWN', TZ: 'TZA', UG: 'UGA', UA: 'UKR', UY: 'URY',
+    US: 'USA', UZ: 'UZB', VC: 'VCT', VE: 'VEN', VG: 'VGB', VI: 'VIR', VN: 'VNM', VU: 'VUT', WS: 'WSM', YE: 'YEM', ZA: 'ZAF', ZM: 'ZMB',
+    ZW: 'ZWE',
+    UK: 'GBR',
+};
+
+const ISO3_TO_ISO2 = new Map(Object.entries(ISO2_TO_ISO3).filter(([iso2]) => iso2 !== 'UK').map(([iso2, iso3]) => [iso3, iso2]));
+
+/**
+ * "fr", "FR", "fra" => "FRA". Returns null for anything that is not a 2 or 3 letters code.
+ */
+export function normalizeCountryCode(code: string): string | null {
+    const upper = code.trim().toUpperCase();
+    if (/^[A-Z]{3}$/.test(upper)) return upper;
+    if (/^[A-Z]{2}$/.test(upper)) return ISO2_TO_ISO3[upper] ?? null;
+    return null;
+}
+
+/**
+ * Loads the per-country carbon intensity (gCO2e/kWh) of the bundled energy mix dataset.
+ * Entries without a carbon intensity are skipped. Sorted by ISO-3 code.
+ */
+export async function loadCountryEmissionFactors(datasetPath: string = DEFAULT_ENERGY_MIX_PATH): Promise<CountryEmissionFactor[]> {
+    const raw = JSON.parse(await readFile(datasetPath, 'utf8')) as Record<string, any>;
+    const countries: CountryEmissionFactor[] = [];
+    for (const [key, entry] of Object.entries(raw)) {
+        const factor = Number(entry?.carbon_intensity);
+        if (entry?.carbon_intensity === null || !Number.isFinite(factor) || factor < 0) continue;
+        const isoCode = String(entry.iso_code ?? key).toUpperCase();
+        countries.push({
+            isoCode,
+            iso2: ISO3_TO_ISO2.get(isoCode) ?? null,
+            countryName: String(entry.country_name ?? isoCode),
+            emissionFactor_gCO2ePerKWh: factor,
+            year: Number(entry.year),
+        });
+    }
+    return countries.sort((a, b) => a.isoCode.localeCompare(b.isoCode));
+}
+
+/**
+ * Case-insensitive search on ISO-2, ISO-3 and country name. An empty query returns every country.
+ */
+export function searchCountries(query: string, countries: CountryEmissionFactor[]): CountryEmissionFactor[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return countries;
+    return countries.filter((c) =>
+        c.isoCode.toLowerCase() === needle ||
+        c.iso2?.toLowerCase() === needle ||
+        c.countryName.toLowerCase().includes(needle));
+}
+
+/**
+ * Emission factor of a country (ISO-2 or ISO-3) from the bundled dataset. Never throws.
+ * @param datasetPath  default '<repo>/data/energy-mix.json'
+ */
+export async function lookupCountryEmissionFactor(country: string, datasetPath?: string): Promise<CountryEmissionFactorResult> {
+    const isoCode = normalizeCountryCode(country);
+    if (!isoCode) {
+        return { ok: false, error: 'invalid_country_code' };
+    }
+
+    let countries: CountryEmissionFactor[];
+    try {
+        countries = await loadCountryEmissionFactors(datasetPath);
+    } catch (error) {
+        const code = extractErrorCode(error);
+        return { ok: false, error: code ? reasonFromCode(code) : 'invalid_energy_mix_dataset' };
+    }
+
+    const found = countries.find((c) => c.isoCode === isoCode);
+    return found ? { ok: true, country: found } : { ok: false, error: 'unknown_country' };
+}
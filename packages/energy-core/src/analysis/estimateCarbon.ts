@@ -1,12 +1,24 @@
+import { intensityAt, CarbonIntensityPoint } from "./carbonIntensity.js";
+
+export interface EnergySlice {
+    timestampMs:number; // wall clock of the slice
+    energyJoules:number;
+}
+
 export interface CarbonEstimationInput {
     energyJoules:number;
-    emissionFactor:number; // grams CO2 per kWh
+    emissionFactor:number; // grams CO2 per kWh (static, or where the series has no value)
+    // time-varying intensity: each slice is weighted by the intensity in force at its wall-clock time
+    intensitySeries?:CarbonIntensityPoint[];
+    energySlices?:EnergySlice[];
 }
 
 export interface CarbonEstimationResult {
     ok:boolean;
     energy_Kwh?:number;
     carbon_gCO2e?:number;
+    effectiveEmissionFactor?:number; // energy-weighted gCO2e/kWh actually applied
+    uncoveredSlices?:number;         // slices outside the series (static factor used)
     reason?:string;
 }
 
@@ -29,12 +41,35 @@ export function estimateCarbonFootprint(input:CarbonEstimationInput): CarbonEsti
         };
     }
 
+    let effectiveEmissionFactor = emissionFactor;
+    let uncoveredSlices = 0;
+
+    if(input.intensitySeries && input.intensitySeries.length > 0 && input.energySlices && input.energySlices.length > 0) {
+        let weighted = 0;
+        let slicesJoules = 0;
+        let intensitiesSum = 0;
+        for(const slice of input.energySlices) {
+            const intensity = intensityAt(input.intensitySeries, slice.timestampMs);
+            if(intensity === null) uncoveredSlices++;
+            const factor = intensity ?? emissionFactor;
+            weighted += slice.energyJoules * factor;
+            slicesJoules += slice.energyJoules;
+            intensitiesSum += factor;
+        }
+        // no energy in the slices: plain time average of the intensities
+        effectiveEmissionFactor = slicesJoules > 0
+            ? weighted / slicesJoules
+            : intensitiesSum / input.energySlices.length;
+    }
+
     const energy_Kwh = energyJoules / JOULES_PER_KWH;
-    const carbon_gCO2e = energy_Kwh * emissionFactor;
+    const carbon_gCO2e = energy_Kwh * effectiveEmissionFactor;
 
     return {
         ok:true,
         energy_Kwh,
-        carbon_gCO2e
+        carbon_gCO2e,
+        effectiveEmissionFactor,
+        uncoveredSlices
     };
 }
\ No newline at end of file
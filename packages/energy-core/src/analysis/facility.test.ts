@@ -0,0 +1,18 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { applyFacilityOverhead } from "./facility.js";
+
+test('applyFacilityOverhead - PUE and WUE', () => {
+    const result = applyFacilityOverhead({ energyJoules: 3.6e6, carbon_gCO2e: 100, factors: { pue: 1.5, wue_LPerKWh: 1.8 } });
+    assert.deepStrictEqual(result, { ok: true, facilityEnergyJoules: 5.4e6, facilityCarbon_gCO2e: 150, water_L: 1.8 });
+
+    const noWater = applyFacilityOverhead({ energyJoules: 3.6e6, carbon_gCO2e: 100, factors: { pue: 1 } });
+    assert.strictEqual(noWater.water_L, null);
+    assert.strictEqual(noWater.facilityEnergyJoules, 3.6e6);
+});
+
+test('applyFacilityOverhead - invalid factors', () => {
+    assert.strictEqual(applyFacilityOverhead({ energyJoules: 1, carbon_gCO2e: 1, factors: { pue: 0.9 } }).reason, 'invalid_pue');
+    assert.strictEqual(applyFacilityOverhead({ energyJoules: 1, carbon_gCO2e: 1, factors: { pue: 1.2, wue_LPerKWh: -1 } }).reason, 'invalid_wue');
+    assert.strictEqual(applyFacilityOverhead({ energyJoules: -1, carbon_gCO2e: 1, factors: { pue: 1.2 } }).reason, 'invalid_energy_joules');
+});
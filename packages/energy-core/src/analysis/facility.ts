@@ -0,0 +1,47 @@
+const JOULES_PER_KWH = 3.6e6;
+
+export interface FacilityFactors {
+    pue: number;                // Power Usage Effectiveness: facility energy / IT energy (>= 1)
+    wue_LPerKWh?: number | null; // Water Usage Effectiveness: site litres per IT kWh
+    site?: string | null;       // preset name, for reports
+}
+
+export interface FacilityInput {
+    energyJoules: number;       // IT energy (CPU joules measured)
+    carbon_gCO2e: number;       // carbon of the IT energy
+    factors: FacilityFactors;
+}
+
+export interface FacilityResult {
+    ok: boolean;
+    reason?: string;
+    facilityEnergyJoules?: number;  // IT energy × PUE (cooling, power distribution...)
+    facilityCarbon_gCO2e?: number;  // carbon × PUE, same emission factor
+    water_L?: number | null;        // IT kWh × WUE, null without WUE
+}
+
+/**
+ * Datacenter overhead: the facility energy is the IT energy × PUE, its carbon follows.
+ * WUE is defined per IT kWh (The Green Grid), so water is computed on the IT energy.
+ */
+export function applyFacilityOverhead(input: FacilityInput): FacilityResult {
+    const { energyJoules, carbon_gCO2e, factors } = input;
+    const wue = factors.wue_LPerKWh ?? null;
+
+    if (!Number.isFinite(energyJoules) || energyJoules < 0) {
+        return { ok: false, reason: "invalid_energy_joules" };
+    }
+    if (!Number.isFinite(factors.pue) || factors.pue < 1) {
+        return { ok: false, reason: "invalid_pue" };
+    }
+    if (wue !== null && (!Number.isFinite(wue) || wue < 0)) {
+        return { ok: false, reason: "invalid_wue" };
+    }
+
+    return {
+        ok: true,
+        facilityEnergyJoules: energyJoules * factors.pue,
+        facilityCarbon_gCO2e: carbon_gCO2e * factors.pue,
+        water_L: wue === null ? null : (energyJoules / JOULES_PER_KWH) * wue,
+    };
+}
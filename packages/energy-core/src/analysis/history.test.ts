@@ -0,0 +1,29 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { detectRegressions } from "./history.js";
+
+test('detectRegressions - rolling 95 % prediction bound', () => {
+    const checks = detectRegressions([10, 11, 9, 10, 10.5, 14, 10], { window: 4 });
+
+    // not enough previous runs
+    assert.deepStrictEqual(checks.slice(0, 3).map((c) => c.baselineMean), [null, null, null]);
+    assert.ok(checks.slice(0, 3).every((c) => !c.regression));
+
+    // [10, 11, 9]: mean 10, s 1, t(0.95, 2) = 2.920 => bound 10 + 2.920 · √(4/3)
+    assert.strictEqual(checks[3].baselineMean, 10);
+    assert.ok(Math.abs(checks[3].upperBound! - (10 + 2.91999 * Math.sqrt(4 / 3))) < 1e-3);
+    assert.strictEqual(checks[3].regression, false);
+
+    assert.strictEqual(checks[5].baselineRuns, 4);
+    assert.strictEqual(checks[5].regression, true);
+    assert.ok(Math.abs(checks[5].change! - (14 / 10.125 - 1)) < 1e-12);
+
+    // the regressed run is part of the next baseline, which widens it
+    assert.strictEqual(checks[6].regression, false);
+});
+
+test('detectRegressions - options', () => {
+    assert.strictEqual(detectRegressions([1, 1, 2], { minRuns: 2 })[2].regression, true);
+    assert.strictEqual(detectRegressions([1, 1, 2])[2].regression, false);
+    assert.deepStrictEqual(detectRegressions([]), []);
+});
@@ -0,0 +1,45 @@
+import { describeSample, studentTQuantile } from "./statistics.js";
+
+export interface RollingBaselineOptions {
+    window?: number;    // previous runs forming the baseline (default 10)
+    minRuns?: number;   // no verdict below this many previous runs (default 3)
+}
+
+export interface RegressionCheck {
+    index: number;
+    value: number;
+    baselineRuns: number;
+    baselineMean: number | null;
+    upperBound: number | null;      // one-sided 95 % prediction bound of a new run
+    change: number | null;          // value / baselineMean - 1
+    regression: boolean;
+}
+
+/**
+ * Flags the runs that are statistically worse than the runs before them: each value is compared
+ * with the one-sided 95 % prediction interval of the previous `window` values,
+ * mean + t(0.95, n-1) · s · √(1 + 1/n). Values are in chronological order.
+ */
+export function detectRegressions(values: number[], options: RollingBaselineOptions = {}): RegressionCheck[] {
+    const window = Math.max(2, Math.floor(options.window ?? 10));
+    const minRuns = Math.max(2, Math.floor(options.minRuns ?? 3));
+
+    return values.map((value, index) => {
+        const previous = values.slice(Math.max(0, index - window), index).filter(Number.isFinite);
+        if (previous.length < minRuns || !Number.isFinite(value)) {
+            return { index, value, baselineRuns: previous.length, baselineMean: null, upperBound: null, change: null, regression: false };
+        }
+
+        const baseline = describeSample(previous);
+        const upperBound = baseline.mean + studentTQuantile(0.95, baseline.n - 1) * baseline.stddev * Math.sqrt(1 + 1 / baseline.n);
+        return {
+            index,
+            value,
+            baselineRuns: baseline.n,
+            baselineMean: baseline.mean,
+            upperBound,
+            change: baseline.mean > 0 ? value / baseline.mean - 1 : null,
+            regression: value > upperBound,
+        };
+    });
+}
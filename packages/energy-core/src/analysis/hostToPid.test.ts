@@ -0,0 +1,41 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { attributePackageEnergyToPid, attributeHostEnergyByCpuTime } from "./hostToPid.js";
+
+test("attributePackageEnergyToPid test suite", async (t) => {
+    await t.test("uses each package's own tick ratio", () => {
+        const result = attributePackageEnergyToPid([
+            { packageId: 0, hostEnergyJoules: 100, hostCpuActiveTicks: 1000n, processCpuActiveTicks: 0n },
+            { packageId: 1, hostEnergyJoules: 50, hostCpuActiveTicks: 100n, processCpuActiveTicks: 50n },
+        ]);
+        assert.strictEqual(result.ok, true);
+        assert.strictEqual(result.processEnergyJoules, 25);
+        assert.strictEqual(result.cpuShare, 25 / 150);
+        assert.strictEqual(result.packages?.[1].cpuShare, 0.5);
+    });
+
+    await t.test("skips idle packages and fails when none can be attributed", () => {
+        const partial = attributePackageEnergyToPid([
+            { packageId: 0, hostEnergyJoules: 10, hostCpuActiveTicks: 0n, processCpuActiveTicks: 0n },
+            { packageId: 1, hostEnergyJoules: 10, hostCpuActiveTicks: 10n, processCpuActiveTicks: 10n },
+        ]);
+        assert.strictEqual(partial.ok, true);
+        assert.strictEqual(partial.processEnergyJoules, 10);
+        assert.strictEqual(partial.packages?.[0].reason, "no_host_cpu_activity");
+
+        assert.deepStrictEqual(attributePackageEnergyToPid([]), { ok: false, reason: "no_package" });
+        const none = attributePackageEnergyToPid([
+            { packageId: 0, hostEnergyJoules: 10, hostCpuActiveTicks: 0n, processCpuActiveTicks: 0n },
+        ]);
+        assert.strictEqual(none.ok, false);
+        assert.strictEqual(none.reason, "no_host_cpu_activity");
+    });
+
+    await t.test("compares microseconds of cgroup CPU time with host jiffies", () => {
+        // 200 jiffies = 2 s of host CPU time, the cgroup used 0.5 s
+        const result = attributeHostEnergyByCpuTime({ hostEnergyJoules: 40, hostCpuActiveTicks: 200n, targetCpuUsec: 500_000n });
+        assert.strictEqual(result.ok, true);
+        assert.strictEqual(result.cpuShare, 0.25);
+        assert.strictEqual(result.processEnergyJoules, 10);
+    });
+});
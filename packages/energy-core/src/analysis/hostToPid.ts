@@ -1,3 +1,5 @@
+import { jiffiesToUsec } from "../timers/timing.js";
+
 export interface HostToPidAttributionInput {
     hostEnergyJoules: number;
     hostCpuActiveTicks: bigint;
@@ -42,4 +44,75 @@ export function attributeHostEnergyToPid(input: HostToPidAttributionInput): Host
         cpuShare:safeCpuShare,
         processEnergyJoules
     }
-}
\ No newline at end of file
+}
+
+export interface PackageAttributionInput extends HostToPidAttributionInput {
+    packageId: number;
+}
+
+export interface PackageAttributionResult {
+    ok: boolean;
+    reason?: string;
+    cpuShare?: number; // effective share of the summed package energy
+    processEnergyJoules?: number;
+    packages?: Array<HostToPidAttributionResult & { packageId: number; hostEnergyJoules: number }>;
+}
+
+/**
+ * Socket-aware attribution: each package's energy is split with that package's own tick ratio,
+ * then the per-package process energies are summed.
+ * A package without host activity contributes nothing (its result carries the reason).
+ */
+export function attributePackageEnergyToPid(inputs: PackageAttributionInput[]): PackageAttributionResult {
+    if (inputs.length === 0) {
+        return {
+            ok:false,
+            reason:"no_package"
+        }
+    }
+
+    const packages = inputs.map((input) => ({
+        packageId: input.packageId,
+        hostEnergyJoules: input.hostEnergyJoules,
+        ...attributeHostEnergyToPid(input),
+    }));
+
+    const attributed = packages.filter((p) => p.ok);
+    if (attributed.length === 0) {
+        return {
+            ok:false,
+            reason:packages[0].reason,
+            packages
+        }
+    }
+
+    const processEnergyJoules = attributed.reduce((sum, p) => sum + (p.processEnergyJoules ?? 0), 0);
+    const hostEnergyJoules = packages.reduce((sum, p) => sum + (Number.isFinite(p.hostEnergyJoules) ? p.hostEnergyJoules : 0), 0);
+
+    return {
+        ok:true,
+        cpuShare: hostEnergyJoules > 0 ? processEnergyJoules / hostEnergyJoules : 0,
+        processEnergyJoules,
+        packages
+    }
+}
+
+
+export interface CpuTimeAttributionInput {
+    hostEnergyJoules: number;
+    hostCpuActiveTicks: bigint; // jiffies, from /proc/stat
+    targetCpuUsec: bigint;      // microseconds, e.g. cgroup cpu.stat usage_usec
+}
+
+/**
+ * Same attribution when the target CPU time is in microseconds (cgroups):
+ * host jiffies are converted to µs (USER_HZ) so both sides of the ratio share a unit.
+ */
+export function attributeHostEnergyByCpuTime(input: CpuTimeAttributionInput): HostToPidAttributionResult {
+    const { hostEnergyJoules, hostCpuActiveTicks, targetCpuUsec } = input;
+    return attributeHostEnergyToPid({
+        hostEnergyJoules,
+        hostCpuActiveTicks: jiffiesToUsec(hostCpuActiveTicks),
+        processCpuActiveTicks: targetCpuUsec,
+    });
+}
@@ -0,0 +1,37 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { computeSci } from "./sci.js";
+
+const YEAR = 365 * 24 * 3600;
+
+test('computeSci - operational only', () => {
+    const sci = computeSci({ energyJoules: 3.6e6, emissionFactor_gCO2ePerKWh: 100, durationSeconds: 60, functionalUnits: 1000, functionalUnit: 'request' });
+    assert.strictEqual(sci.ok, true);
+    assert.strictEqual(sci.operational_gCO2e, 100);
+    assert.strictEqual(sci.embodied_gCO2e, 0);
+    assert.strictEqual(sci.sci_gCO2ePerUnit, 0.1);
+    assert.strictEqual(sci.functionalUnit, 'request');
+});
+
+test('computeSci - embodied term amortized over lifespan and reserved share', () => {
+    const sci = computeSci({
+        energyJoules: 0,
+        emissionFactor_gCO2ePerKWh: 100,
+        durationSeconds: YEAR / 100,
+        embodied: { embodied_gCO2e: 1_000_000, lifespanYears: 4, resourceShare: 0.5 },
+        functionalUnits: 10,
+    });
+    assert.strictEqual(sci.timeShare, 1 / 400);
+    assert.strictEqual(sci.embodied_gCO2e, 1250); // 1e6 × 1/400 × 0.5
+    assert.strictEqual(sci.total_gCO2e, 1250);
+    assert.strictEqual(sci.sci_gCO2ePerUnit, 125);
+    assert.strictEqual(sci.functionalUnit, 'unit');
+});
+
+test('computeSci - invalid inputs', () => {
+    const base = { energyJoules: 1, emissionFactor_gCO2ePerKWh: 100, durationSeconds: 1, functionalUnits: 1 };
+    assert.strictEqual(computeSci({ ...base, functionalUnits: 0 }).reason, 'invalid_functional_unit');
+    assert.strictEqual(computeSci({ ...base, energyJoules: -1 }).reason, 'invalid_energy_joules');
+    assert.strictEqual(computeSci({ ...base, embodied: { embodied_gCO2e: 1, lifespanYears: 0 } }).reason, 'invalid_lifespan');
+    assert.strictEqual(computeSci({ ...base, embodied: { embodied_gCO2e: 1, lifespanYears: 4, resourceShare: 2 } }).reason, 'invalid_resource_share');
+});
@@ -0,0 +1,95 @@
+const JOULES_PER_KWH = 3.6e6;
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+
+/**
+ * Embodied carbon of the hardware running the workload (M term of the SCI).
+ */
+export interface EmbodiedProfile {
+    embodied_gCO2e: number;  // TE: manufacturing, transport, end of life of the machine
+    lifespanYears: number;   // EL: expected lifespan
+    resourceShare?: number;  // RS: share of the machine reserved for the workload (0..1, default 1)
+}
+
+export interface SciInput {
+    energyJoules: number;               // E (J), e.g. processCpuEnergyJoules
+    emissionFactor_gCO2ePerKWh: number; // I
+    durationSeconds: number;            // TiR: time the hardware is reserved
+    embodied?: EmbodiedProfile | null;  // no profile => M = 0
+    functionalUnits: number;            // R: requests, jobs, users...
+    functionalUnit?: string;            // name of R, for reports
+}
+
+export interface SciResult {
+    ok: boolean;
+    reason?: string;
+
+    energy_kWh?: number;
+    emissionFactor_gCO2ePerKWh?: number;
+    operational_gCO2e?: number;    // O = E × I
+
+    embodied_gCO2e?: number;       // M = TE × TS × RS
+    timeShare?: number;            // TS = TiR / EL
+    resourceShare?: number;        // RS
+
+    total_gCO2e?: number;          // O + M
+    functionalUnits?: number;
+    functionalUnit?: string;
+    sci_gCO2ePerUnit?: number;     // (O + M) / R
+}
+
+/**
+ * Software Carbon Intensity (Green Software Foundation): SCI = ((E × I) + M) per R
+ * with M = TE × (TiR / EL) × RS.
+ */
+export function computeSci(input: SciInput): SciResult {
+    const { energyJoules, emissionFactor_gCO2ePerKWh, durationSeconds, embodied, functionalUnits } = input;
+
+    if (!Number.isFinite(energyJoules) || energyJoules < 0) {
+        return { ok: false, reason: "invalid_energy_joules" };
+    }
+    if (!Number.isFinite(emissionFactor_gCO2ePerKWh) || emissionFactor_gCO2ePerKWh < 0) {
+        return { ok: false, reason: "invalid_emission_factor" };
+    }
+    if (!Number.isFinite(durationSeconds) || durationSeconds < 0) {
+        return { ok: false, reason: "invalid_duration" };
+    }
+    if (!Number.isFinite(functionalUnits) || functionalUnits <= 0) {
+        return { ok: false, reason: "invalid_functional_unit" };
+    }
+
+    let embodied_gCO2e = 0;
+    let timeShare = 0;
+    let resourceShare = 0;
+    if (embodied) {
+        resourceShare = embodied.resourceShare ?? 1;
+        if (!Number.isFinite(embodied.embodied_gCO2e) || embodied.embodied_gCO2e < 0) {
+            return { ok: false, reason: "invalid_embodied_carbon" };
+        }
+        if (!Number.isFinite(embodied.lifespanYears) || embodied.lifespanYears <= 0) {
+            return { ok: false, reason: "invalid_lifespan" };
+        }
+        if (!Number.isFinite(resourceShare) || resourceShare < 0 || resourceShare > 1) {
+            return { ok: false, reason: "invalid_resource_share" };
+        }
+        timeShare = durationSeconds / (embodied.lifespanYears * SECONDS_PER_YEAR);
+        embodied_gCO2e = embodied.embodied_gCO2e * timeShare * resourceShare;
+    }
+
+    const energy_kWh = energyJoules / JOULES_PER_KWH;
+    const operational_gCO2e = energy_kWh * emissionFactor_gCO2ePerKWh;
+    const total_gCO2e = operational_gCO2e + embodied_gCO2e;
+
+    return {
+        ok: true,
+        energy_kWh,
+        emissionFactor_gCO2ePerKWh,
+        operational_gCO2e,
+        embodied_gCO2e,
+        timeShare,
+        resourceShare,
+        total_gCO2e,
+        functionalUnits,
+        functionalUnit: input.functionalUnit ?? "unit",
+        sci_gCO2ePerUnit: total_gCO2e / functionalUnits,
+    };
+}
@@ -0,0 +1,50 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { describeSample, studentTCdf, studentTQuantile, welchTTest } from "./statistics.js";
+
+function close(actual: number, expected: number, epsilon = 1e-3) {
+    assert.ok(Math.abs(actual - expected) < epsilon, `${actual} != ${expected}`);
+}
+
+test("statistics test suite", async (t) => {
+    await t.test("studentTCdf / studentTQuantile - match t tables", () => {
+        close(studentTCdf(0, 5), 0.5, 1e-12);
+        close(studentTCdf(2.571, 5), 0.975);
+        close(studentTQuantile(0.975, 1), 12.706);
+        close(studentTQuantile(0.975, 9), 2.262);
+        close(studentTQuantile(0.975, 1000), 1.962);
+        close(studentTQuantile(0.025, 9), -2.262);
+    });
+
+    await t.test("describeSample - mean, median, stddev and 95 % CI", () => {
+        const stats = describeSample([4, 2, 6, 8, NaN]);
+        assert.strictEqual(stats.n, 4);
+        assert.strictEqual(stats.mean, 5);
+        assert.strictEqual(stats.median, 5);
+        assert.strictEqual(stats.min, 2);
+        assert.strictEqual(stats.max, 8);
+        close(stats.stddev, Math.sqrt(20 / 3), 1e-12);
+        // t(0.975, 3) = 3.182
+        close(stats.ci95![1] - stats.mean, 3.182 * stats.stddev / 2);
+
+        assert.strictEqual(describeSample([3]).ci95, null);
+        assert.strictEqual(describeSample([]).n, 0);
+    });
+
+    await t.test("welchTTest - unequal variances", () => {
+        // var(a) = 2.5, var(b) = 10 => se = √(0.5 + 2), t = 4 / se, df = 2.5² / (0.5²/4 + 2²/4)
+        const a = [10, 11, 12, 13, 14];
+        const b = [12, 14, 16, 18, 20];
+        const result = welchTTest(a, b)!;
+        assert.strictEqual(result.difference, 4);
+        close(result.t, 4 / Math.sqrt(2.5));
+        close(result.df, 6.25 / 1.0625);
+        close(result.pValue, 2 * (1 - studentTCdf(result.t, result.df)), 1e-12);
+        assert.ok(result.pValue > 0.04 && result.pValue < 0.05);
+        // p < 0.05 <=> the 95 % CI of the difference excludes 0
+        assert.ok(result.differenceCi95[0] > 0 && result.differenceCi95[1] > 4);
+
+        assert.strictEqual(welchTTest([1], [2, 3]), null);
+        assert.strictEqual(welchTTest([1, 1], [2, 2])!.pValue, 0);
+    });
+});
@@ -0,0 +1,149 @@
+export interface SampleStatistics {
+    n: number;
+    mean: number;
+    median: number;
+    stddev: number;                 // sample standard deviation (n - 1), 0 for a single value
+    min: number;
+    max: number;
+    ci95: [number, number] | null;  // Student t interval of the mean, null below 2 values
+}
+
+/**
+ * ln Γ(x), Lanczos approximation (x > 0).
+ */
+function logGamma(x: number): number {
+    const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let ser = 1.000000000190015;
+    for (const coefficient of c) ser += coefficient / ++y;
+    return -tmp + Math.log(2.5066282746310005 * ser / x);
+}
+
+/**
+ * Continued fraction of the incomplete beta function (modified Lentz).
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+    const tiny = 1e-300;
+    let c = 1;
+    let d = 1 - (a + b) * x / (a + 1);
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let h = d;
+    for (let m = 1; m <= 300; m++) {
+        const m2 = 2 * m;
+        let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        h *= d * c;
+        aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-14) break;
+    }
+    return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b).
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+    return x < (a + 1) / (a + b + 2)
+        ? front * betaContinuedFraction(x, a, b) / a
+        : 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+/**
+ * P(T <= t) for a Student t distribution with df degrees of freedom (df may be fractional, e.g. Welch).
+ */
+export function studentTCdf(t: number, df: number): number {
+    if (!Number.isFinite(t)) return t > 0 ? 1 : 0;
+    const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5);
+    return t >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * t such that P(T <= t) = p (bisection on studentTCdf).
+ */
+export function studentTQuantile(p: number, df: number): number {
+    if (!(p > 0 && p < 1) || !(df > 0)) return NaN;
+    if (p < 0.5) return -studentTQuantile(1 - p, df);
+    let lo = 0;
+    let hi = 1;
+    while (studentTCdf(hi, df) < p) hi *= 2;
+    for (let i = 0; i < 100; i++) {
+        const mid = (lo + hi) / 2;
+        if (studentTCdf(mid, df) < p) lo = mid; else hi = mid;
+    }
+    return (lo + hi) / 2;
+}
+
+/**
+ * Mean, median, spread and 95 % confidence interval of the mean of repeated measurements.
+ * Non-finite values are ignored.
+ */
+export function describeSample(values: number[]): SampleStatistics {
+    const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+    const n = sorted.length;
+    if (n === 0) {
+        return { n: 0, mean: NaN, median: NaN, stddev: NaN, min: NaN, max: NaN, ci95: null };
+    }
+
+    const mean = sorted.reduce((sum, v) => sum + v, 0) / n;
+    const median = n % 2 === 1 ? sorted[(n - 1) / 2] : (sorted[n / 2 - 1] + sorted[n / 2]) / 2;
+    const stddev = n > 1 ? Math.sqrt(sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1)) : 0;
+    const halfWidth = n > 1 ? studentTQuantile(0.975, n - 1) * stddev / Math.sqrt(n) : null;
+
+    return {
+        n,
+        mean,
+        median,
+        stddev,
+        min: sorted[0],
+        max: sorted[n - 1],
+        ci95: halfWidth === null ? null : [mean - halfWidth, mean + halfWidth],
+    };
+}
+
+export interface WelchTestResult {
+    t: number;
+    df: number;
+    pValue: number;                      // two-sided
+    difference: number;                  // mean(b) - mean(a)
+    differenceCi95: [number, number];
+}
+
+/**
+ * Welch's unequal-variances t-test of mean(b) - mean(a). Null below 2 values per sample.
+ */
+export function welchTTest(a: number[], b: number[]): WelchTestResult | null {
+    const sa = describeSample(a);
+    const sb = describeSample(b);
+    if (sa.n < 2 || sb.n < 2) return null;
+
+    const difference = sb.mean - sa.mean;
+    const va = sa.stddev ** 2 / sa.n;
+    const vb = sb.stddev ** 2 / sb.n;
+    const se = Math.sqrt(va + vb);
+    if (se === 0) {
+        // no spread at all: any difference is certain
+        return { t: difference === 0 ? 0 : Math.sign(difference) * Infinity, df: sa.n + sb.n - 2, pValue: difference === 0 ? 1 : 0, difference, differenceCi95: [difference, difference] };
+    }
+
+    const t = difference / se;
+    const df = (va + vb) ** 2 / (va ** 2 / (sa.n - 1) + vb ** 2 / (sb.n - 1));
+    const pValue = Math.min(1, 2 * (1 - studentTCdf(Math.abs(t), df)));
+    const halfWidth = studentTQuantile(0.975, df) * se;
+    return { t, df, pValue, difference, differenceCi95: [difference - halfWidth, difference + halfWidth] };
+}
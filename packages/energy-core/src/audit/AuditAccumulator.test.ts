@@ -0,0 +1,88 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { AuditAccumulator } from "./AuditAccumulator.js";
+
+function pkg(node: string, deltaJ: number, { wraps = 0, ok = true } = {}) {
+    return { node, path: `/fake/${node}`, deltaUj: deltaJ * 1e6, deltaJ, wraps, ok };
+}
+
+test("AuditAccumulator test suite", async (t) => {
+    await t.test("sums energy and ticks, ignoring missing or negative values", () => {
+        const accumulator = new AuditAccumulator(0n);
+        accumulator.push({ hostCpuEnergyJoules: 2, hostCpuActiveTicks: 100n, processCpuActiveTicks: 10n });
+        accumulator.push({ hostCpuEnergyJoules: -1, hostCpuActiveTicks: 50n });
+        accumulator.push({});
+
+        const totals = accumulator.snapshot(2_000_000_000n);
+        assert.strictEqual(totals.durationSeconds, 2);
+        assert.strictEqual(totals.hostCpuEnergyJoules, 2);
+        assert.strictEqual(totals.totalHostCpuActiveTicks, 150n);
+        assert.strictEqual(totals.totalProcessCpuActiveTicks, 10n);
+        assert.strictEqual(totals.hostDramEnergyJoules, null);
+    });
+
+    await t.test("keeps a per-package breakdown with wraps and failed reads", () => {
+        const accumulator = new AuditAccumulator(0n);
+        accumulator.push({ packages: [pkg("intel-rapl:0", 0), pkg("intel-rapl:1", 0)] });
+        accumulator.push({ packages: [pkg("intel-rapl:0", 3), pkg("intel-rapl:1", 1, { wraps: 1 })] });
+        accumulator.push({ packages: [pkg("intel-rapl:0", 2), pkg("intel-rapl:1", 0, { ok: false })] });
+
+        const { packages } = accumulator.snapshot(1n);
+        assert.deepStrictEqual(packages, [
+            { node: "intel-rapl:0", domain: "package", parent: null, energyJoules: 5, wraps: 0, failedReads: 0 },
+            { node: "intel-rapl:1", domain: "package", parent: null, energyJoules: 1, wraps: 1, failedReads: 1 },
+        ]);
+    });
+
+    await t.test("keeps a per-domain breakdown and the dram total", () => {
+        const accumulator = new AuditAccumulator(0n);
+        const dram = { ...pkg("intel-rapl:0:2", 1.5), domain: "dram" as const, parent: "intel-rapl:0" };
+        accumulator.push({ domains: [dram], hostDramEnergyJoules: 1.5 });
+        accumulator.push({ domains: [dram], hostDramEnergyJoules: 1.5 });
+
+        const totals = accumulator.finalize();
+        assert.strictEqual(totals.hostDramEnergyJoules, 3);
+        assert.deepStrictEqual(totals.domains, [
+            { node: "intel-rapl:0:2", domain: "dram", parent: "intel-rapl:0", energyJoules: 3, wraps: 0, failedReads: 0 },
+        ]);
+    });
+
+    await t.test("sums host and process ticks per physical package", () => {
+        const accumulator = new AuditAccumulator(0n);
+        accumulator.push({ packageCpu: [{ packageId: 0, deltaHostActiveTicks: 10n, deltaProcessActiveTicks: 2n }] });
+        accumulator.push({ packageCpu: [
+            { packageId: 0, deltaHostActiveTicks: 5n, deltaProcessActiveTicks: 0n },
+            { packageId: 1, deltaHostActiveTicks: 7n, deltaProcessActiveTicks: 7n },
+        ] });
+
+        assert.deepStrictEqual(accumulator.snapshot(1n).packageCpu, [
+            { packageId: 0, hostCpuActiveTicks: 15n, processCpuActiveTicks: 2n },
+            { packageId: 1, hostCpuActiveTicks: 7n, processCpuActiveTicks: 7n },
+        ]);
+    });
+
+    await t.test("keeps ticks of processes that already exited", () => {
+        const accumulator = new AuditAccumulator(0n);
+        const proc = (pid: number, deltaActive: bigint, starttime = 1n) => ({ pid, ppid: 1, comm: "node", starttime, deltaActive });
+        accumulator.push({ processes: [proc(10, 5n), proc(11, 3n)] });
+        accumulator.push({ processes: [proc(10, 2n), proc(11, 4n, 2n)] });
+
+        assert.deepStrictEqual(accumulator.snapshot(1n).processes, [
+            { pid: 10, ppid: 1, comm: "node", activeTicks: 7n },
+            { pid: 11, ppid: 1, comm: "node", activeTicks: 3n },
+            { pid: 11, ppid: 1, comm: "node", activeTicks: 4n },
+        ]);
+    });
+
+    await t.test("groups thread ticks by thread name", () => {
+        const accumulator = new AuditAccumulator(0n);
+        const thread = (tid: number, comm: string, deltaActive: bigint) => ({ tid, comm, starttime: 1n, deltaActive });
+        accumulator.push({ threads: [thread(1, "node", 10n), thread(2, "libuv-worker", 1n)] });
+        accumulator.push({ threads: [thread(1, "node", 5n), thread(2, "libuv-worker", 1n), thread(3, "libuv-worker", 2n)] });
+
+        assert.deepStrictEqual(accumulator.snapshot(1n).threads, [
+            { comm: "node", threadCount: 1, activeTicks: 15n },
+            { comm: "libuv-worker", threadCount: 2, activeTicks: 4n },
+        ]);
+    });
+});
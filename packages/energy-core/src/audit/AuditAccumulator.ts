@@ -1,16 +1,73 @@
 // src/audit/AuditAccumulator.ts
+import type { RaplDomain } from "../sensors/rapl/rapl-probe.js";
+import type { RaplDomainSample, RaplPackageSample } from "../sensors/rapl/RaplReader.js";
+import type { PackageCpuTicks } from "../sensors/cpus/PackageCpuReader.js";
+import type { ProcessTreeEntry } from "../sensors/cpus/ProcessTreeCpuReader.js";
+import type { ThreadCpuEntry } from "../sensors/cpus/ThreadCpuReader.js";
 
 export interface AccumulatorSample {
   hostCpuEnergyJoules?: number;
+  hostCpuEnergySeconds?: number; // dt du lecteur d’énergie couvert par hostCpuEnergyJoules
+  hostDramEnergyJoules?: number;
   hostCpuActiveTicks?: bigint;
   processCpuActiveTicks?: bigint;
+  processCpuActiveUsec?: bigint; // cible mesurée en µs (cgroup)
+
+  // détail par zone RAPL (socket / sous-domaine), deltas du tick
+  packages?: RaplPackageSample[];
+  domains?: RaplDomainSample[];
+
+  // ticks hôte / process par socket (mode topologie)
+  packageCpu?: PackageCpuTicks[];
+
+  // détail par process (mode arbre)
+  processes?: ProcessTreeEntry[];
+
+  // détail par thread du process cible
+  threads?: ThreadCpuEntry[];
+}
+
+export interface AccumulatorThreadTotals {
+  comm: string;         // nom du thread, les threads homonymes sont regroupés
+  threadCount: number;  // threads distincts vus sous ce nom
+  activeTicks: bigint;
+}
+
+export interface AccumulatorProcessTotals {
+  pid: number;
+  ppid: number | null;
+  comm: string | null;
+  activeTicks: bigint;
+}
+
+export interface AccumulatorPackageCpuTotals {
+  packageId: number;
+  hostCpuActiveTicks: bigint;
+  processCpuActiveTicks: bigint;
+}
+
+export interface AccumulatorZoneTotals {
+  node: string;
+  domain: RaplDomain;
+  parent: string | null;
+  energyJoules: number;
+  wraps: number;
+  failedReads: number;
 }
 
 export interface AccumulatorTotals {
   durationSeconds: number;
+  measuredSeconds: number; // somme des dt des ticks d’énergie amorcés (hors tick d’amorçage et tick d’arrêt)
   hostCpuEnergyJoules: number;
+  hostDramEnergyJoules: number | null; // null => no dram domain on this host
   totalHostCpuActiveTicks: bigint;
   totalProcessCpuActiveTicks: bigint;
+  totalProcessCpuActiveUsec: bigint | null; // null => cible mesurée en jiffies
+  packages: AccumulatorZoneTotals[];
+  domains: AccumulatorZoneTotals[];
+  packageCpu: AccumulatorPackageCpuTotals[];
+  processes: AccumulatorProcessTotals[];
+  threads: AccumulatorThreadTotals[];
 }
 
 export class AuditAccumulator {
@@ -19,8 +76,17 @@ export class AuditAccumulator {
 
   // accumulation brute
   private _hostCpuEnergyJoules = 0;
+  private _measuredSeconds = 0;
+  private _hostDramEnergyJoules: number | null = null;
   private _totalHostCpuActiveTicks = 0n;
   private _totalProcessCpuActiveTicks = 0n;
+  private _totalProcessCpuActiveUsec: bigint | null = null;
+  private _packages = new Map<string, AccumulatorZoneTotals>();
+  private _domains = new Map<string, AccumulatorZoneTotals>();
+  private _packageCpu = new Map<number, AccumulatorPackageCpuTotals>();
+  private _processes = new Map<string, AccumulatorProcessTotals>(); // clé pid:starttime
+  private _threads = new Map<string, AccumulatorThreadTotals>(); // clé comm
+  private _threadKeys = new Set<string>(); // tid:starttime déjà vus
 
   constructor(startTimeNs: bigint) {
     this.startTimeNs = startTimeNs;
@@ -37,6 +103,19 @@ export class AuditAccumulator {
       }
     }
 
+    if (typeof sample.hostCpuEnergySeconds === "number") {
+      if (sample.hostCpuEnergySeconds > 0) {
+        this._measuredSeconds += sample.hostCpuEnergySeconds;
+      }
+    }
+
+    if (typeof sample.hostDramEnergyJoules === "number") {
+      this._hostDramEnergyJoules ??= 0;
+      if (sample.hostDramEnergyJoules > 0) {
+        this._hostDramEnergyJoules += sample.hostDramEnergyJoules;
+      }
+    }
+
     if (typeof sample.hostCpuActiveTicks === "bigint") {
       if (sample.hostCpuActiveTicks > 0n) {
         this._totalHostCpuActiveTicks += sample.hostCpuActiveTicks;
@@ -49,25 +128,115 @@ export class AuditAccumulator {
           sample.processCpuActiveTicks;
       }
     }
+
+    if (typeof sample.processCpuActiveUsec === "bigint") {
+      this._totalProcessCpuActiveUsec ??= 0n;
+      if (sample.processCpuActiveUsec > 0n) {
+        this._totalProcessCpuActiveUsec += sample.processCpuActiveUsec;
+      }
+    }
+
+    for (const pkg of sample.packages ?? []) {
+      this.pushZone(this._packages, { ...pkg, domain: "package", parent: null });
+    }
+
+    for (const zone of sample.domains ?? []) {
+      this.pushZone(this._domains, zone);
+    }
+
+    for (const pkg of sample.packageCpu ?? []) {
+      let totals = this._packageCpu.get(pkg.packageId);
+      if (!totals) {
+        totals = { packageId: pkg.packageId, hostCpuActiveTicks: 0n, processCpuActiveTicks: 0n };
+        this._packageCpu.set(pkg.packageId, totals);
+      }
+      if (pkg.deltaHostActiveTicks > 0n) totals.hostCpuActiveTicks += pkg.deltaHostActiveTicks;
+      if (pkg.deltaProcessActiveTicks > 0n) totals.processCpuActiveTicks += pkg.deltaProcessActiveTicks;
+    }
+
+    // un process terminé garde ses ticks déjà comptés
+    for (const proc of sample.processes ?? []) {
+      const key = `${proc.pid}:${proc.starttime}`;
+      let totals = this._processes.get(key);
+      if (!totals) {
+        totals = { pid: proc.pid, ppid: proc.ppid, comm: proc.comm, activeTicks: 0n };
+        this._processes.set(key, totals);
+      }
+      if (proc.deltaActive > 0n) totals.activeTicks += proc.deltaActive;
+    }
+
+    for (const thread of sample.threads ?? []) {
+      const comm = thread.comm ?? "?";
+      let totals = this._threads.get(comm);
+      if (!totals) {
+        totals = { comm, threadCount: 0, activeTicks: 0n };
+        this._threads.set(comm, totals);
+      }
+      const key = `${thread.tid}:${thread.starttime}`;
+      if (!this._threadKeys.has(key)) {
+        this._threadKeys.add(key);
+        totals.threadCount++;
+      }
+      if (thread.deltaActive > 0n) totals.activeTicks += thread.deltaActive;
+    }
+  }
+
+  private pushZone(zones: Map<string, AccumulatorZoneTotals>, zone: RaplDomainSample): void {
+    let totals = zones.get(zone.node);
+    if (!totals) {
+      totals = {
+        node: zone.node,
+        domain: zone.domain,
+        parent: zone.parent,
+        energyJoules: 0,
+        wraps: 0,
+        failedReads: 0,
+      };
+      zones.set(zone.node, totals);
+    }
+
+    if (!zone.ok) {
+      totals.failedReads++;
+      return;
+    }
+    if (zone.deltaJ > 0) {
+      totals.energyJoules += zone.deltaJ;
+    }
+    totals.wraps += zone.wraps;
   }
 
   /**
-   * Finalise l’audit et retourne les totaux agrégés.
-   * Cette méthode doit être appelée UNE SEULE FOIS.
+   * Totaux intermédiaires, sans clôturer l’audit (utilisé par monitor).
    */
-  finalize(): AccumulatorTotals {
-    const endNs =
-      this.endTimeNs ?? process.hrtime.bigint();
-
+  snapshot(nowNs: bigint = process.hrtime.bigint()): AccumulatorTotals {
     const durationSeconds =
-      Number(endNs - this.startTimeNs) / 1e9;
+      Number(nowNs - this.startTimeNs) / 1e9;
 
     return {
       durationSeconds,
+      measuredSeconds: this._measuredSeconds,
       hostCpuEnergyJoules: this._hostCpuEnergyJoules,
+      hostDramEnergyJoules: this._hostDramEnergyJoules,
       totalHostCpuActiveTicks: this._totalHostCpuActiveTicks,
       totalProcessCpuActiveTicks:
         this._totalProcessCpuActiveTicks,
+      totalProcessCpuActiveUsec: this._totalProcessCpuActiveUsec,
+      packages: [...this._packages.values()].map((z) => ({ ...z })),
+      domains: [...this._domains.values()].map((z) => ({ ...z })),
+      packageCpu: [...this._packageCpu.values()].map((p) => ({ ...p })),
+      processes: [...this._processes.values()].map((p) => ({ ...p })),
+      threads: [...this._threads.values()].map((t) => ({ ...t })),
     };
   }
+
+  /**
+   * Finalise l’audit et retourne les totaux agrégés.
+   * Cette méthode doit être appelée UNE SEULE FOIS.
+   */
+  finalize(): AccumulatorTotals {
+    const endNs =
+      this.endTimeNs ?? process.hrtime.bigint();
+
+    return this.snapshot(endNs);
+  }
 }
@@ -0,0 +1,44 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { AuditTimeline } from "./AuditTimeline.js";
+
+const SECOND = 1_000_000_000n;
+
+function tick(tickId: number, hostEnergyJoules: number, { host = 100n, proc = 50n, latenessNs = 0n } = {}) {
+    return {
+        timing: { tickId, startNs: BigInt(tickId) * SECOND, dtNs: SECOND, latenessNs },
+        hostEnergyJoules,
+        hostCpuActiveTicks: host,
+        processCpuActiveTicks: proc,
+    };
+}
+
+test("AuditTimeline test suite", async (t) => {
+    await t.test("records one point per tick with watts and share", () => {
+        const timeline = new AuditTimeline(0n);
+        timeline.push(tick(1, 10));
+        timeline.push(tick(2, 20, { proc: 25n, latenessNs: 3_000_000n }));
+
+        const [first, second] = timeline.points();
+        assert.strictEqual(first.startNs, 1e9);
+        assert.strictEqual(first.hostWatts, 10);
+        assert.strictEqual(first.processWatts, 5);
+        assert.strictEqual(second.share, 0.25);
+        assert.strictEqual(second.latenessNs, 3_000_000);
+    });
+
+    await t.test("downsamples by pairs beyond maxPoints, keeping totals and peaks", () => {
+        const timeline = new AuditTimeline(0n, 4);
+        for (let i = 1; i <= 10; i++) timeline.push(tick(i, i === 7 ? 100 : 10));
+
+        const points = timeline.points();
+        assert.ok(points.length <= 4);
+        assert.strictEqual(timeline.ticksPerPoint, 4);
+        assert.strictEqual(points.reduce((sum, p) => sum + p.ticks, 0), 10);
+        assert.strictEqual(points.reduce((sum, p) => sum + p.hostEnergyJoules, 0), 190);
+
+        const spike = points.find((p) => p.tickId <= 7 && p.tickId + p.ticks > 7)!;
+        assert.strictEqual(spike.peakHostWatts, 100);
+        assert.strictEqual(spike.hostWatts, spike.hostEnergyJoules / spike.ticks);
+    });
+});
@@ -0,0 +1,126 @@
+// src/audit/AuditTimeline.ts
+import type { TickTiming } from "../timers/scheduler.js";
+
+export interface TimelineTick {
+  timing: Pick<TickTiming, "tickId" | "startNs" | "dtNs" | "latenessNs">;
+  hostEnergyJoules: number;
+  // même unité des deux côtés (jiffies, ou µs pour un cgroup)
+  hostCpuActiveTicks: bigint;
+  processCpuActiveTicks: bigint;
+}
+
+export interface TimelinePoint {
+  tickId: number;                 // premier tick du point
+  ticks: number;                  // ticks fusionnés dans ce point (1 avant downsampling)
+  startNs: number;                // depuis le début de l’audit
+  dtNs: number;                   // somme des dt fusionnés
+  latenessNs: number;             // max des retards fusionnés
+  hostEnergyJoules: number;
+  processEnergyJoules: number;    // host × share, tick par tick
+  hostCpuActiveTicks: number;
+  processCpuActiveTicks: number;
+  hostWatts: number;
+  processWatts: number;
+  share: number;
+  peakHostWatts: number;          // tick le plus élevé du point (pics conservés au downsampling)
+}
+
+const DEFAULT_MAX_POINTS = 3600;
+
+function watts(joules: number, dtNs: number): number {
+  return dtNs > 0 ? joules / (dtNs / 1e9) : 0;
+}
+
+function merge(a: TimelinePoint, b: TimelinePoint): TimelinePoint {
+  const dtNs = a.dtNs + b.dtNs;
+  const hostEnergyJoules = a.hostEnergyJoules + b.hostEnergyJoules;
+  const processEnergyJoules = a.processEnergyJoules + b.processEnergyJoules;
+  const hostCpuActiveTicks = a.hostCpuActiveTicks + b.hostCpuActiveTicks;
+  const processCpuActiveTicks = a.processCpuActiveTicks + b.processCpuActiveTicks;
+  return {
+    tickId: a.tickId,
+    ticks: a.ticks + b.ticks,
+    startNs: a.startNs,
+    dtNs,
+    latenessNs: Math.max(a.latenessNs, b.latenessNs),
+    hostEnergyJoules,
+    processEnergyJoules,
+    hostCpuActiveTicks,
+    processCpuActiveTicks,
+    hostWatts: watts(hostEnergyJoules, dtNs),
+    processWatts: watts(processEnergyJoules, dtNs),
+    share: hostEnergyJoules > 0 ? processEnergyJoules / hostEnergyJoules : 0,
+    peakHostWatts: Math.max(a.peakHostWatts, b.peakHostWatts),
+  };
+}
+
+/**
+ * Série par tick d’un audit, en mémoire bornée : au-delà de maxPoints,
+ * les points voisins sont fusionnés deux à deux et chaque nouveau point couvre deux fois plus de ticks.
+ */
+export class AuditTimeline {
+  readonly startTimeNs: bigint;
+  readonly maxPoints: number;
+
+  private _points: TimelinePoint[] = [];
+  private _pending: TimelinePoint | null = null;
+  private _ticksPerPoint = 1;
+
+  constructor(startTimeNs: bigint, maxPoints: number = DEFAULT_MAX_POINTS) {
+    this.startTimeNs = startTimeNs;
+    this.maxPoints = Math.max(2, Math.floor(maxPoints));
+  }
+
+  get ticksPerPoint(): number {
+    return this._ticksPerPoint;
+  }
+
+  push(tick: TimelineTick): void {
+    const dtNs = Number(tick.timing.dtNs);
+    const hostCpuActiveTicks = Number(tick.hostCpuActiveTicks);
+    const processCpuActiveTicks = Number(tick.processCpuActiveTicks);
+    const share = hostCpuActiveTicks > 0 ? Math.min(processCpuActiveTicks / hostCpuActiveTicks, 1) : 0;
+    const hostEnergyJoules = Math.max(tick.hostEnergyJoules, 0);
+    const hostWatts = watts(hostEnergyJoules, dtNs);
+
+    const point: TimelinePoint = {
+      tickId: tick.timing.tickId,
+      ticks: 1,
+      startNs: Number(tick.timing.startNs - this.startTimeNs),
+      dtNs,
+      latenessNs: Number(tick.timing.latenessNs),
+      hostEnergyJoules,
+      processEnergyJoules: hostEnergyJoules * share,
+      hostCpuActiveTicks,
+      processCpuActiveTicks,
+      hostWatts,
+      processWatts: hostWatts * share,
+      share,
+      peakHostWatts: hostWatts,
+    };
+
+    this._pending = this._pending ? merge(this._pending, point) : point;
+    if (this._pending.ticks < this._ticksPerPoint) return;
+
+    this._points.push(this._pending);
+    this._pending = null;
+
+    if (this._points.length >= this.maxPoints) {
+      const merged: TimelinePoint[] = [];
+      for (let i = 0; i < this._points.length; i += 2) {
+        merged.push(i + 1 < this._points.length ? merge(this._points[i], this._points[i + 1]) : this._points[i]);
+      }
+      this._points = merged;
+      this._ticksPerPoint *= 2;
+    }
+  }
+
+  /**
+   * Points enregistrés, le point en cours de remplissage compris.
+   */
+  points(): TimelinePoint[] {
+    const points = this._points.map((p) => ({ ...p }));
+    if (this._pending) points.push({ ...this._pending });
+    return points;
+  }
+}
@@ -0,0 +1,84 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { audit } from "./audit.js";
+import { summarizeBaseline } from "../analysis/baseline.js";
+import { dynamicOnlyStrategy } from "../analysis/attribution.js";
+
+// host drawing a constant power, integrated over the measured dt like the empirical reader
+function constantPowerSamplers(hostPowerWatts: number) {
+    let lastNs: bigint | null = null;
+    let cpuCalls = 0;
+    let processCalls = 0;
+    return {
+        energyReader: {
+            isReady: true,
+            status: null,
+            hint: null,
+            mode: "fallback" as const,
+            async sample(nowNs: bigint) {
+                const primed = lastNs !== null;
+                const dt = lastNs === null ? 0 : Number(nowNs - lastNs) / 1e9;
+                lastNs = nowNs;
+                return { ok: true, primed, internalClampedDt: dt, deltaUj: 0, deltaJ: hostPowerWatts * dt, packages: [], domains: [], wraps: 0 };
+            }
+        },
+        cpuReader: {
+            async sample() {
+                const primed = cpuCalls++ > 0;
+                return {
+                    ok: true,
+                    primed,
+                    internalClampedDt: 0,
+                    cpuTicks: { unit: "jiffies", deltaIdleTicks: 0n, deltaActiveTicks: primed ? 100n : 0n, deltaTotalTicks: primed ? 100n : 0n }
+                };
+            }
+        },
+        processCpuReader: {
+            async sample() {
+                const primed = processCalls++ > 0;
+                return { ok: true, primed, pid: 1234, cpuTicks: { unit: "jiffies", deltaActive: primed ? 25n : 0n } };
+            }
+        }
+    };
+}
+
+test("audit test suite", async (t) => {
+    await t.test("marginal energy of a host at its baseline power is zero", async () => {
+        const baseline = summarizeBaseline([0.1, 0.1, 0.1].map((durationSeconds) => ({ durationSeconds, hostEnergyJoules: 10 * durationSeconds, hostCpuActiveTicks: 0n })));
+
+        const result = await audit({
+            pid: 1234,
+            durationSeconds: 0.5,
+            tickMs: 100,
+            samplers: constantPowerSamplers(10),
+            emissionFactor_gCO2ePerKWh: 0,
+            baseline,
+            debugTiming: false,
+        });
+
+        // the priming and stop ticks measure no energy: the wall-clock duration is longer
+        assert.ok(result.hostCpuEnergyJoules > 0);
+        assert.ok(result.hostCpuEnergyJoules < 10 * result.durationSeconds - 0.05);
+        assert.ok(result.baseline);
+        assert.ok(Math.abs(result.baseline.hostMarginalEnergyJoules) < 1e-9);
+        assert.ok(Math.abs(result.baseline.hostMarginalPowerWatts) < 1e-9);
+    });
+
+    await t.test("dynamic-only keeps the energy above idle over the measured ticks", async () => {
+        const result = await audit({
+            pid: 1234,
+            durationSeconds: 0.5,
+            tickMs: 100,
+            samplers: constantPowerSamplers(20),
+            emissionFactor_gCO2ePerKWh: 0,
+            attribution: dynamicOnlyStrategy,
+            idlePowerWatts: 10,
+            debugTiming: false,
+        });
+
+        // 20 W host, 10 W idle: half the host energy is dynamic, the process holds 25 % of the active ticks
+        assert.strictEqual(result.attribution.applied, true);
+        assert.ok(Math.abs(result.attribution.idleEnergyJoules! - result.hostCpuEnergyJoules / 2) < 1e-9);
+        assert.ok(Math.abs(result.processCpuEnergyJoules - result.hostCpuEnergyJoules * 0.5 * 0.25) < 1e-9);
+    });
+});
@@ -1,17 +1,27 @@
 import { collectSamples } from "../sampling/sampling.js";
 import { AuditAccumulator } from "./AuditAccumulator.js";
+import { AuditTimeline, TimelinePoint } from "./AuditTimeline.js";
 import { fixedRateTicks } from "../timers/scheduler.js";
-import { NS_PER_MS, nowNs } from "../timers/timing.js";
+import { NS_PER_MS, jiffiesToUsec, nowNs } from "../timers/timing.js";
+import type { AccumulatorZoneTotals, AccumulatorTotals } from "./AuditAccumulator.js";
+import { attributePackageEnergyToPid, attributeHostEnergyByCpuTime } from "../analysis/hostToPid.js";
+import { estimateCarbonFootprint, EnergySlice } from "../analysis/estimateCarbon.js";
+import type { CarbonIntensityPoint } from "../analysis/carbonIntensity.js";
+import { applyFacilityOverhead, FacilityFactors } from "../analysis/facility.js";
+import { computeMarginalEnergy, BaselineMeasurement } from "../analysis/baseline.js";
+import { activeShareStrategy, AttributionInput, AttributionRegression, AttributionStrategy, DEFAULT_ATTRIBUTION_STRATEGY } from "../analysis/attribution.js";
+import type { EnergyReader } from "../sensors/rapl/energyReader.js";
+import type { PackageCpuReader } from "../sensors/cpus/PackageCpuReader.js";
+import os from "node:os";
 
 
 function nsToMs(ns: bigint): number {
     return Number(ns) / Number(NS_PER_MS);
 }
 
-const JOULES_PER_KWH = 3_600_000;
-
 interface AuditOptions {
-    pid: number;
+    pid: number | null;  // null when auditing a cgroup only
+    cgroup?: string;
     durationSeconds: number;
     tickMs?: number;
 
@@ -19,9 +29,28 @@ interface AuditOptions {
         energyReader?: any;
         cpuReader?: any;
         processCpuReader?: any;
+        packageCpuReader?: PackageCpuReader;
+        threadCpuReader?: any;
     };
 
     emissionFactor_gCO2ePerKWh: number;
+    // time-varying intensity (wall clock), emissionFactor_gCO2ePerKWh is used outside the series
+    carbonIntensitySeries?: CarbonIntensityPoint[];
+    // datacenter overhead (PUE) and water (WUE), reported apart from the CPU figures
+    facility?: FacilityFactors;
+
+    // idle pre-roll (measureBaseline): marginal host energy of the workload
+    baseline?: BaselineMeasurement;
+
+    // host => process split (default: active-share)
+    attribution?: AttributionStrategy;
+    idlePowerWatts?: number | null;  // default: baseline power, else idle power of the empirical model, if any
+    reservedCores?: number | null;
+    totalCores?: number;             // default: os.availableParallelism()
+
+    // per-tick series in the result, downsampled beyond timelineMaxPoints (default 3600)
+    timeline?: boolean;
+    timelineMaxPoints?: number;
 
     debugTiming: boolean;
     debugMeta?: boolean;
@@ -30,15 +59,48 @@ interface AuditOptions {
 }
 
 interface AuditResult {
-    pid: number;
+    pid: number | null;
+    cgroup?: string;
     durationSeconds: number;
+    // time covered by the host energy readings (measured ticks, without the priming and stop ticks)
+    measuredSeconds: number;
+    // reader of the host energy, null without an energy reader
+    energySource: EnergyReader["mode"] | null;
 
     hostCpuEnergyJoules: number;
     processCpuEnergyJoules: number;
     processCpuEnergyShare: number;
 
+    // RAPL dram domain (host level, not attributed), null when not exposed
+    hostDramEnergyJoules: number | null;
+
+    // per socket / per sub-domain breakdown (empty with the empirical fallback)
+    packages: AccumulatorZoneTotals[];
+    domains: AccumulatorZoneTotals[];
+
+    // per-process breakdown, present when the process sampler follows a tree
+    processes?: ProcessAttribution[];
+
+    // per thread name breakdown of the target, present when a threadCpuReader was sampled
+    threads?: ThreadAttribution[];
+
+    // socket-aware attribution, present when a packageCpuReader was sampled
+    topology?: TopologyAttribution;
+
     hostCpuCarbon_gCO2e: number;
     processCpuCarbon_gCO2e: number;
+    // factor applied to the host energy: the static one, or the energy-weighted series average
+    emissionFactor_gCO2ePerKWh: number;
+    // present when a carbon intensity series was given
+    carbonIntensity?: CarbonIntensityAttribution;
+    // facility-adjusted figures (PUE/WUE), present when facility factors were given
+    facility?: FacilityAttribution;
+    // strategy used for processCpuEnergyJoules
+    attribution: AttributionReport;
+    // host energy above the idle baseline, present when a baseline was measured
+    baseline?: BaselineAttribution;
+    // per-tick series (merged ticks once downsampled), present with the timeline option
+    timeline?: TimelinePoint[];
     isActive: boolean;
 
     meta?: {
@@ -55,6 +117,7 @@ interface AuditResult {
 
         totalHostCpuActiveTicks?:bigint | string;
         totalProcessCpuActiveTicks?:bigint | string;
+        totalProcessCpuActiveUsec?:string | null;
 
         endReason: "duration" | "aborted";
 
@@ -63,6 +126,129 @@ interface AuditResult {
     };
 }
 
+export interface ProcessAttribution {
+    pid: number;
+    ppid: number | null;
+    comm: string | null;
+    activeTicks: string; // bigint as string, includes reaped children
+    share: number;       // of the tree's ticks
+    energyJoules: number;
+}
+
+export interface ThreadAttribution {
+    comm: string;        // thread name, homonymous threads grouped
+    threadCount: number;
+    activeTicks: string; // bigint as string
+    share: number;       // of the target's thread ticks
+    energyJoules: number; // share x the target's energy (with a tree: the root process entry, not the tree)
+}
+
+export interface TopologyPackageAttribution {
+    packageId: number;
+    node: string | null; // RAPL zone, null when the package has no counter
+    hostEnergyJoules: number;
+    hostCpuActiveTicks: string; // bigint as string, JSON friendly
+    processCpuActiveTicks: string;
+    cpuShare: number;
+    processEnergyJoules: number;
+}
+
+export interface TopologyAttribution {
+    // false => per-package ticks could not be lined up with RAPL packages,
+    // process energy falls back to the host-wide share
+    applied: boolean;
+    reason?: string;
+    packages: TopologyPackageAttribution[];
+}
+
+export interface CarbonIntensityAttribution {
+    points: number;                               // series size
+    hostEffectiveFactor_gCO2ePerKWh: number;      // weighted by host energy per tick
+    processEffectiveFactor_gCO2ePerKWh: number;   // weighted by the process share of each tick
+    uncoveredTicks: number;                       // ticks outside the series (static factor)
+    staticFactor_gCO2ePerKWh: number;             // factor of the uncovered ticks
+}
+
+export interface BaselineAttribution {
+    durationSeconds: number;                // of the pre-roll
+    ticks: number;
+    hostPowerWatts: number;
+    hostPowerStdWatts: number;
+    hostTicksPerSecond: number;
+    hostMarginalEnergyJoules: number;
+    hostMarginalEnergyUncertaintyJoules: number;  // 1σ
+    hostMarginalPowerWatts: number;
+    hostMarginalActiveTicks: number;
+}
+
+export interface AttributionReport {
+    strategy: string;            // requested strategy
+    applied: boolean;            // false => active-share was used instead
+    reason?: string;             // why the strategy could not be applied
+    idlePowerWatts: number | null;
+    idleEnergyJoules: number | null;
+    reservedCores: number | null;
+    totalCores: number | null;
+    regression?: AttributionRegression;
+}
+
+export interface FacilityAttribution {
+    site: string | null;
+    pue: number;
+    wue_LPerKWh: number | null;
+    hostFacilityEnergyJoules: number;     // host CPU energy × PUE
+    processFacilityEnergyJoules: number;  // process CPU energy × PUE
+    hostFacilityCarbon_gCO2e: number;
+    processFacilityCarbon_gCO2e: number;
+    hostWater_L: number | null;           // host CPU kWh × WUE
+    processWater_L: number | null;
+}
+
+/**
+ * Lines up per-socket ticks with RAPL packages (via their "package-N" name)
+ * and splits each package's energy with its own tick ratio.
+ */
+function attributeByTopology(totals: AccumulatorTotals, packageIds: Map<string, number | null> | undefined): TopologyAttribution {
+    const nodeById = new Map<number, string>();
+    for (const [node, packageId] of packageIds ?? []) {
+        if (packageId !== null) nodeById.set(packageId, node);
+    }
+    const energyByNode = new Map(totals.packages.map((p) => [p.node, p.energyJoules]));
+
+    const inputs = totals.packageCpu.map((cpu) => {
+        const node = nodeById.get(cpu.packageId) ?? null;
+        return {
+            packageId: cpu.packageId,
+            node,
+            hostEnergyJoules: node !== null ? energyByNode.get(node) ?? 0 : 0,
+            hostCpuActiveTicks: cpu.hostCpuActiveTicks,
+            processCpuActiveTicks: cpu.processCpuActiveTicks,
+        };
+    });
+
+    const unmatched = inputs.some((input) => input.node === null);
+    const attribution = attributePackageEnergyToPid(inputs);
+
+    const packages = inputs.map((input, index) => ({
+        ...input,
+        hostCpuActiveTicks: input.hostCpuActiveTicks.toString(),
+        processCpuActiveTicks: input.processCpuActiveTicks.toString(),
+        cpuShare: attribution.packages?.[index]?.cpuShare ?? 0,
+        processEnergyJoules: attribution.packages?.[index]?.processEnergyJoules ?? 0,
+    }));
+
+    if (nodeById.size === 0) {
+        return { applied: false, reason: "no_rapl_package_counters", packages };
+    }
+    if (unmatched) {
+        return { applied: false, reason: "topology_rapl_mismatch", packages };
+    }
+    if (!attribution.ok) {
+        return { applied: false, reason: attribution.reason, packages };
+    }
+    return { applied: true, packages };
+}
+
 export async function audit(options: AuditOptions): Promise<AuditResult> {
     const {
         pid,
@@ -70,10 +256,18 @@ export async function audit(options: AuditOptions): Promise<AuditResult> {
         tickMs = 1000,
         samplers,
         emissionFactor_gCO2ePerKWh,
+        carbonIntensitySeries,
         debugTiming = false,
         debugMeta = false,
     } = options;
 
+    if (options.facility) {
+        const check = applyFacilityOverhead({ energyJoules: 0, carbon_gCO2e: 0, factors: options.facility });
+        if (!check.ok) {
+            throw new Error(`invalid facility factors: ${check.reason}`);
+        }
+    }
+
     //start audit
     const startTimeNs = process.hrtime.bigint();
     const endTimeNsTarget = startTimeNs + BigInt(Math.floor(durationSeconds * 1e9));
@@ -98,6 +292,13 @@ export async function audit(options: AuditOptions): Promise<AuditResult> {
     const notes: string[] = [];
     // end debug meta init
 
+    // per-tick host/process CPU time and energy, bounded (timeline option, regression strategy)
+    const timeline = new AuditTimeline(startTimeNs, options.timelineMaxPoints);
+
+    // energy per wall-clock tick, only kept with a carbon intensity series
+    const hostSlices: EnergySlice[] = [];
+    const processSlices: EnergySlice[] = [];
+
     for await (const tick of fixedRateTicks({
         periodMs: tickMs,
         overrunPolicy: "coalesce",
@@ -130,20 +331,34 @@ export async function audit(options: AuditOptions): Promise<AuditResult> {
 
         if (samples.processCpu?.ok) {
             processOkSamples++;
-        } else if (samples.processCpu && (samples.processCpu as any).ok === false) {
+        } else if (samples.processCpu && samples.processCpu.ok === false) {
             processErrorSamples++;
-            const error = (samples.processCpu as any).error ?? "unknown";
+            const error = samples.processCpu.error ?? "unknown";
             if (!firstProcessError) firstProcessError = error;
         }
 
 
 
+        const dramDomains = samples.energy && samples.energy.ok && samples.energy.primed
+            ? samples.energy.domains.filter((d) => d.domain === "dram" && d.ok)
+            : [];
+
         accumulator.push({
             hostCpuEnergyJoules:
                 samples.energy && samples.energy.ok && samples.energy.primed
                     ? samples.energy.deltaJ
                     : undefined,
 
+            hostCpuEnergySeconds:
+                samples.energy && samples.energy.ok && samples.energy.primed
+                    ? samples.energy.internalClampedDt
+                    : undefined,
+
+            hostDramEnergyJoules:
+                dramDomains.length > 0
+                    ? dramDomains.reduce((sum, d) => sum + d.deltaJ, 0)
+                    : undefined,
+
             hostCpuActiveTicks:
                 samples.cpu && samples.cpu.ok && samples.cpu.primed
                     ? samples.cpu.cpuTicks.deltaActiveTicks
@@ -153,8 +368,59 @@ export async function audit(options: AuditOptions): Promise<AuditResult> {
                 samples.processCpu && samples.processCpu.ok
                     ? samples.processCpu.cpuTicks.deltaActive
                     : undefined,
+
+            packages: samples.energy?.packages,
+            domains: samples.energy?.domains,
+
+            processCpuActiveUsec:
+                samples.processCpu && samples.processCpu.ok && "cpuTime" in samples.processCpu
+                    ? samples.processCpu.cpuTime.deltaUsec
+                    : undefined,
+
+            processes:
+                samples.processCpu && samples.processCpu.ok && "processes" in samples.processCpu
+                    ? samples.processCpu.processes
+                    : undefined,
+
+            threads:
+                samples.threadCpu && samples.threadCpu.ok && "threads" in samples.threadCpu
+                    ? samples.threadCpu.threads
+                    : undefined,
+
+            packageCpu:
+                samples.packageCpu && samples.packageCpu.ok && samples.packageCpu.primed
+                    ? samples.packageCpu.packages
+                    : undefined,
         });
 
+        if (samples.energy?.ok && samples.energy.primed && samples.cpu?.ok && samples.cpu.primed) {
+            const processCpu = samples.processCpu?.ok ? samples.processCpu : null;
+            const usec = processCpu !== null && "cpuTime" in processCpu;
+            timeline.push({
+                timing: tick,
+                hostEnergyJoules: samples.energy.deltaJ,
+                hostCpuActiveTicks: usec ? jiffiesToUsec(samples.cpu.cpuTicks.deltaActiveTicks) : samples.cpu.cpuTicks.deltaActiveTicks,
+                processCpuActiveTicks: processCpu === null ? 0n : "cpuTime" in processCpu ? processCpu.cpuTime.deltaUsec : processCpu.cpuTicks.deltaActive,
+            });
+        }
+
+        if (carbonIntensitySeries && samples.energy?.ok && samples.energy.primed) {
+            const timestampMs = Date.now();
+            const hostTicks = samples.cpu?.ok && samples.cpu.primed ? samples.cpu.cpuTicks.deltaActiveTicks : 0n;
+            let tickShare = 0;
+            if (samples.processCpu?.ok && "cpuTime" in samples.processCpu) {
+                tickShare = attributeHostEnergyByCpuTime({
+                    hostEnergyJoules: samples.energy.deltaJ,
+                    hostCpuActiveTicks: hostTicks,
+                    targetCpuUsec: samples.processCpu.cpuTime.deltaUsec,
+                }).cpuShare ?? 0;
+            } else if (samples.processCpu?.ok && hostTicks > 0n) {
+                tickShare = Math.min(Number(samples.processCpu.cpuTicks.deltaActive) / Number(hostTicks), 1);
+            }
+            hostSlices.push({ timestampMs, energyJoules: samples.energy.deltaJ });
+            processSlices.push({ timestampMs, energyJoules: samples.energy.deltaJ * tickShare });
+        }
+
         const workEndNs = nowNs();
         const workNs = workEndNs - workStartNs;
 
@@ -181,33 +447,174 @@ export async function audit(options: AuditOptions): Promise<AuditResult> {
 
     const {
         durationSeconds: effectiveDuration,
+        measuredSeconds,
         hostCpuEnergyJoules,
+        hostDramEnergyJoules,
         totalHostCpuActiveTicks,
         totalProcessCpuActiveTicks,
+        totalProcessCpuActiveUsec,
+        packages,
+        domains,
     } = totals;
 
-    let processCpuEnergyShare = 0;
-    if (totalHostCpuActiveTicks > 0n) {
-        processCpuEnergyShare =
-            Number(totalProcessCpuActiveTicks) /
-            Number(totalHostCpuActiveTicks);
-    }
+    // cgroup: usage_usec vs host jiffies, compared in microseconds
+    const attributionInput: AttributionInput = {
+        hostEnergyJoules: hostCpuEnergyJoules,
+        hostCpuActiveTicks: totalProcessCpuActiveUsec !== null ? jiffiesToUsec(totalHostCpuActiveTicks) : totalHostCpuActiveTicks,
+        processCpuActiveTicks: totalProcessCpuActiveUsec ?? totalProcessCpuActiveTicks,
+        // idle energy over the ticks that measured host energy, as for the baseline
+        durationSeconds: measuredSeconds,
+        ticks: timeline.points().map((point) => ({
+            durationSeconds: point.dtNs / 1e9,
+            hostEnergyJoules: point.hostEnergyJoules,
+            hostCpuActiveTicks: BigInt(point.hostCpuActiveTicks),
+            processCpuActiveTicks: BigInt(point.processCpuActiveTicks),
+        })),
+        idlePowerWatts: options.idlePowerWatts
+            ?? (options.baseline?.ok ? options.baseline.hostPowerWatts : null)
+            ?? samplers.energyReader?.idlePowerWatts
+            ?? null,
+        reservedCores: options.reservedCores ?? null,
+        totalCores: options.totalCores ?? os.availableParallelism(),
+    };
 
-    const processCpuEnergyJoules =
-        hostCpuEnergyJoules * processCpuEnergyShare;
+    const strategy = options.attribution ?? activeShareStrategy;
+    let attributed = strategy.attribute(attributionInput);
+    const attribution: AttributionReport = {
+        strategy: strategy.name,
+        applied: attributed.ok,
+        reason: attributed.ok ? undefined : attributed.reason,
+        idlePowerWatts: attributed.idlePowerWatts ?? null,
+        idleEnergyJoules: attributed.idleEnergyJoules ?? null,
+        reservedCores: attributionInput.reservedCores ?? null,
+        totalCores: attributionInput.totalCores ?? null,
+        regression: attributed.regression,
+    };
+    if (!attributed.ok && strategy.name !== activeShareStrategy.name) {
+        notes.push(`attribution ${strategy.name} not applied (${attributed.reason}), active-share used`);
+        attributed = activeShareStrategy.attribute(attributionInput);
+    }
 
-    const isActive = totalProcessCpuActiveTicks > 0n;
+    let processCpuEnergyJoules = attributed.ok ? attributed.processEnergyJoules ?? 0 : 0;
+    let processCpuEnergyShare = hostCpuEnergyJoules > 0 ? processCpuEnergyJoules / hostCpuEnergyJoules : 0;
 
-    // Calcul carbone
-    const processCpuEnergyKwh =
-        processCpuEnergyJoules / JOULES_PER_KWH;
+    const topology = samplers.packageCpuReader
+        ? attributeByTopology(totals, samplers.energyReader?.packageIds)
+        : undefined;
 
-    const hostCpuEnergyKwh = hostCpuEnergyJoules / JOULES_PER_KWH;
+    // the per-socket split refines active-share only
+    if (topology?.applied && strategy.name === DEFAULT_ATTRIBUTION_STRATEGY) {
+        processCpuEnergyJoules = topology.packages.reduce((sum, p) => sum + p.processEnergyJoules, 0);
+        processCpuEnergyShare = hostCpuEnergyJoules > 0 ? processCpuEnergyJoules / hostCpuEnergyJoules : 0;
+    }
 
-    const processCpuCarbon_gCO2e =
-        processCpuEnergyKwh * emissionFactor_gCO2ePerKWh;
+    let baseline: BaselineAttribution | undefined;
+    if (options.baseline) {
+        const marginal = computeMarginalEnergy({
+            baseline: options.baseline,
+            hostEnergyJoules: hostCpuEnergyJoules,
+            hostCpuActiveTicks: totalHostCpuActiveTicks,
+            // the priming and stop ticks carry no host energy: only the measured ticks are compared to the baseline
+            durationSeconds: measuredSeconds,
+            ticks: energyPrimedSamples,
+        });
+        if (marginal.ok) {
+            baseline = {
+                durationSeconds: options.baseline.durationSeconds,
+                ticks: options.baseline.ticks,
+                hostPowerWatts: options.baseline.hostPowerWatts,
+                hostPowerStdWatts: options.baseline.hostPowerStdWatts,
+                hostTicksPerSecond: options.baseline.hostTicksPerSecond,
+                hostMarginalEnergyJoules: marginal.hostMarginalEnergyJoules!,
+                hostMarginalEnergyUncertaintyJoules: marginal.hostMarginalEnergyUncertaintyJoules!,
+                hostMarginalPowerWatts: marginal.hostMarginalPowerWatts!,
+                hostMarginalActiveTicks: marginal.hostMarginalActiveTicks!,
+            };
+        } else {
+            notes.push(`baseline not applied (${marginal.reason})`);
+        }
+    }
 
-    const hostCpuCarbon_gCO2e = hostCpuEnergyKwh * emissionFactor_gCO2ePerKWh;
+    const isActive = totalProcessCpuActiveTicks > 0n || (totalProcessCpuActiveUsec ?? 0n) > 0n;
+
+    const processes: ProcessAttribution[] | undefined = totals.processes.length > 0
+        ? totals.processes.map((proc) => {
+            const share = totalProcessCpuActiveTicks > 0n
+                ? Number(proc.activeTicks) / Number(totalProcessCpuActiveTicks)
+                : 0;
+            return {
+                pid: proc.pid,
+                ppid: proc.ppid,
+                comm: proc.comm,
+                activeTicks: proc.activeTicks.toString(),
+                share,
+                energyJoules: processCpuEnergyJoules * share,
+            };
+        })
+        : undefined;
+
+    // threads are those of the target pid only: with --tree, split the root's energy, not the whole tree's
+    const threadBaseEnergyJoules = processes?.find((proc) => proc.pid === pid)?.energyJoules ?? processCpuEnergyJoules;
+    const totalThreadTicks = totals.threads.reduce((sum, thread) => sum + thread.activeTicks, 0n);
+    const threads: ThreadAttribution[] | undefined = samplers.threadCpuReader
+        ? totals.threads.map((thread) => {
+            const share = totalThreadTicks > 0n
+                ? Number(thread.activeTicks) / Number(totalThreadTicks)
+                : 0;
+            return {
+                comm: thread.comm,
+                threadCount: thread.threadCount,
+                activeTicks: thread.activeTicks.toString(),
+                share,
+                energyJoules: threadBaseEnergyJoules * share,
+            };
+        })
+        : undefined;
+
+    // Calcul carbone (facteur statique, ou pondéré par tick avec une série d'intensité)
+    const hostCarbon = estimateCarbonFootprint({
+        energyJoules: hostCpuEnergyJoules,
+        emissionFactor: emissionFactor_gCO2ePerKWh,
+        intensitySeries: carbonIntensitySeries,
+        energySlices: hostSlices,
+    });
+    const processCarbon = estimateCarbonFootprint({
+        energyJoules: processCpuEnergyJoules,
+        emissionFactor: emissionFactor_gCO2ePerKWh,
+        intensitySeries: carbonIntensitySeries,
+        energySlices: processSlices,
+    });
+
+    const hostCpuCarbon_gCO2e = hostCarbon.carbon_gCO2e ?? 0;
+    const processCpuCarbon_gCO2e = processCarbon.carbon_gCO2e ?? 0;
+    const effectiveEmissionFactor = hostCarbon.effectiveEmissionFactor ?? emissionFactor_gCO2ePerKWh;
+
+    const carbonIntensity: CarbonIntensityAttribution | undefined = carbonIntensitySeries
+        ? {
+            points: carbonIntensitySeries.length,
+            hostEffectiveFactor_gCO2ePerKWh: effectiveEmissionFactor,
+            processEffectiveFactor_gCO2ePerKWh: processCarbon.effectiveEmissionFactor ?? emissionFactor_gCO2ePerKWh,
+            uncoveredTicks: hostCarbon.uncoveredSlices ?? 0,
+            staticFactor_gCO2ePerKWh: emissionFactor_gCO2ePerKWh,
+        }
+        : undefined;
+
+    let facility: FacilityAttribution | undefined;
+    if (options.facility) {
+        const hostFacility = applyFacilityOverhead({ energyJoules: hostCpuEnergyJoules, carbon_gCO2e: hostCpuCarbon_gCO2e, factors: options.facility });
+        const processFacility = applyFacilityOverhead({ energyJoules: processCpuEnergyJoules, carbon_gCO2e: processCpuCarbon_gCO2e, factors: options.facility });
+        facility = {
+            site: options.facility.site ?? null,
+            pue: options.facility.pue,
+            wue_LPerKWh: options.facility.wue_LPerKWh ?? null,
+            hostFacilityEnergyJoules: hostFacility.facilityEnergyJoules!,
+            processFacilityEnergyJoules: processFacility.facilityEnergyJoules!,
+            hostFacilityCarbon_gCO2e: hostFacility.facilityCarbon_gCO2e!,
+            processFacilityCarbon_gCO2e: processFacility.facilityCarbon_gCO2e!,
+            hostWater_L: hostFacility.water_L ?? null,
+            processWater_L: processFacility.water_L ?? null,
+        };
+    }
 
     //-- in case of "0"
     if (!isActive) {
@@ -233,14 +640,32 @@ export async function audit(options: AuditOptions): Promise<AuditResult> {
 
     return {
         pid,
+        cgroup: options.cgroup,
         durationSeconds: effectiveDuration,
+        measuredSeconds,
+        energySource: samplers.energyReader?.mode ?? null,
 
         hostCpuEnergyJoules,
         processCpuEnergyJoules,
         processCpuEnergyShare,
 
+        hostDramEnergyJoules,
+
+        packages,
+        domains,
+
+        processes,
+        threads,
+        topology,
+
         hostCpuCarbon_gCO2e,
         processCpuCarbon_gCO2e,
+        emissionFactor_gCO2ePerKWh: effectiveEmissionFactor,
+        carbonIntensity,
+        facility,
+        attribution,
+        baseline,
+        timeline: options.timeline ? timeline.points() : undefined,
         isActive,
 
         meta: debugMeta ? {
@@ -256,6 +681,7 @@ export async function audit(options: AuditOptions): Promise<AuditResult> {
             firstProcessError,
             totalHostCpuActiveTicks:totalHostCpuActiveTicks.toString(),
             totalProcessCpuActiveTicks:totalProcessCpuActiveTicks.toString(),
+            totalProcessCpuActiveUsec:totalProcessCpuActiveUsec?.toString() ?? null,
 
             endReason
 
@@ -0,0 +1,37 @@
+import { collectSamples, Samplers } from "../sampling/sampling.js";
+import { fixedRateTicks } from "../timers/scheduler.js";
+import { nowNs } from "../timers/timing.js";
+import { summarizeBaseline, BaselineMeasurement, BaselineTick } from "../analysis/baseline.js";
+
+export interface BaselineOptions {
+    samplers: Pick<Samplers, "energyReader" | "cpuReader">; // host only: the workload is not started yet
+    durationSeconds: number;
+    tickMs?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Idle pre-roll: samples host energy and CPU ticks before the workload starts,
+ * to subtract the background power from the audit (see computeMarginalEnergy).
+ */
+export async function measureBaseline(options: BaselineOptions): Promise<BaselineMeasurement> {
+    const { samplers, durationSeconds, tickMs = 1000 } = options;
+    const startTimeNs = nowNs();
+    const endTimeNsTarget = startTimeNs + BigInt(Math.floor(durationSeconds * 1e9));
+    const ticks: BaselineTick[] = [];
+
+    for await (const tick of fixedRateTicks({ periodMs: tickMs, overrunPolicy: "coalesce", t0Ns: startTimeNs, signal: options.signal })) {
+        // le tick de fin est échantillonné pour couvrir toute la fenêtre
+        const samples = await collectSamples(samplers, tick.startNs);
+        if (samples.energy?.ok && samples.energy.primed && samples.cpu?.ok && samples.cpu.primed) {
+            ticks.push({
+                durationSeconds: samples.energy.internalClampedDt > 0 ? samples.energy.internalClampedDt : Number(tick.dtNs) / 1e9,
+                hostEnergyJoules: samples.energy.deltaJ,
+                hostCpuActiveTicks: samples.cpu.cpuTicks.deltaActiveTicks,
+            });
+        }
+        if (tick.startNs >= endTimeNsTarget) break;
+    }
+
+    return summarizeBaseline(ticks);
+}
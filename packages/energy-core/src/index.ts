@@ -1,21 +1,81 @@
 // Re-export depuis RaplReader
 export { RaplReader } from "./sensors/rapl/RaplReader";
-export type { RaplReaderOptions, RaplPackageSample } from "./sensors/rapl/RaplReader";
+export type { RaplReaderOptions, RaplPackageSample, RaplDomainSample, RaplSample } from "./sensors/rapl/RaplReader";
 
 // Re-export depuis rapl-probe
 export { raplProbe } from "./sensors/rapl/rapl-probe";
-export type { RaplPackageInfo, RaplProbeResult } from "./sensors/rapl/rapl-probe";
+export type { RaplPackageInfo, RaplZoneInfo, RaplDomain, RaplProbeResult } from "./sensors/rapl/rapl-probe";
 
 // Re-export depuis energyReader et EmpiricalEnergyReader
 export { createEnergyReader } from "./sensors/rapl/energyReader";
-export type { EnergyReaderFactoryOptions, EnergyReader } from "./sensors/rapl/energyReader";
+export type { EnergyReaderFactoryOptions, EnergyReader, EnergySource } from "./sensors/rapl/energyReader";
 export { EmpiricalEnergyReader } from "./sensors/rapl/EmpiricalEnergyReader";
 export type { EmpiricalEnergyReaderOptions } from "./sensors/rapl/EmpiricalEnergyReader";
 
+export { hwmonProbe } from "./sensors/hwmon/hwmon-probe";
+export type { HwmonProbeResult, HwmonSensorInfo, HwmonSensorKind } from "./sensors/hwmon/hwmon-probe";
+export { HwmonEnergyReader } from "./sensors/hwmon/HwmonEnergyReader";
+export type { HwmonEnergyReaderOptions } from "./sensors/hwmon/HwmonEnergyReader";
+
+export { batteryProbe } from "./sensors/power-supply/battery-probe";
+export type { BatteryProbeResult, BatteryInfo, BatteryPowerSource } from "./sensors/power-supply/battery-probe";
+export { BatteryEnergyReader } from "./sensors/power-supply/BatteryEnergyReader";
+export type { BatteryEnergyReaderOptions } from "./sensors/power-supply/BatteryEnergyReader";
+
 export { CpuReader } from "./sensors/cpus/CpuReader";
 export { ProcessCpuReader } from "./sensors/cpus/ProcessCpuReader";
+export { ProcessTreeCpuReader } from "./sensors/cpus/ProcessTreeCpuReader";
+export type { ProcessTreeEntry, ProcessTreeCpuSample } from "./sensors/cpus/ProcessTreeCpuReader";
+export { ThreadCpuReader } from "./sensors/cpus/ThreadCpuReader";
+export type { ThreadCpuEntry, ThreadCpuSample } from "./sensors/cpus/ThreadCpuReader";
+export { PackageCpuReader } from "./sensors/cpus/PackageCpuReader";
+export type { PackageCpuTicks, PackageCpuSample } from "./sensors/cpus/PackageCpuReader";
+export { readCpuTopology, parseCpuList, readAllowedCpuCount } from "./sensors/cpus/cpu-topology";
+export type { CpuTopology } from "./sensors/cpus/cpu-topology";
+export { lookupCpuPowerProfile, matchCpuModel, readCpuModel, loadCpuPowerDataset, parseCpuPowerCsv, normalizeCpuModel } from "./sensors/cpus/cpu-power-profile";
+export type { CpuPowerEntry, CpuModelMatch, CpuPowerLookupResult } from "./sensors/cpus/cpu-power-profile";
+export { readTaskStats } from "./sensors/cpus/tasks";
+export type { TaskStat, TaskStatsResult } from "./sensors/cpus/tasks";
+
+export { CgroupCpuReader, resolvePidCgroup, parseCgroupCpuStat, normalizeCgroupPath } from "./sensors/cgroups/CgroupCpuReader";
+export type { CgroupCpuSample, CgroupResolution } from "./sensors/cgroups/CgroupCpuReader";
 
 export * from "./timers/scheduler";
 export * from "./timers/timing";
 export * from "./sampling/sampling";
 export * from "./audit/audit";
+export { AuditTimeline } from "./audit/AuditTimeline";
+export { measureBaseline } from "./audit/baseline";
+export type { BaselineOptions } from "./audit/baseline";
+export type { TimelinePoint, TimelineTick } from "./audit/AuditTimeline";
+
+export { HostToPidSlidingWindow } from "./analysis/HostToPidSlidingWindows";
+export type { SlidingWindowOptions, SlidingWindowInput, SlidingWindowResult } from "./analysis/HostToPidSlidingWindows";
+export { estimateCarbonFootprint } from "./analysis/estimateCarbon";
+export type { CarbonEstimationInput, CarbonEstimationResult, EnergySlice } from "./analysis/estimateCarbon";
+export { loadCarbonIntensitySeries, parseCarbonIntensityCsv, parseCarbonIntensityJson, intensityAt } from "./analysis/carbonIntensity";
+export type { CarbonIntensityPoint } from "./analysis/carbonIntensity";
+export { findLowestCarbonStart } from "./analysis/carbonAware";
+export type { CarbonAwareInput, CarbonAwareSlot, CarbonAwareResult } from "./analysis/carbonAware";
+export { computeSci } from "./analysis/sci";
+export type { SciInput, SciResult, EmbodiedProfile } from "./analysis/sci";
+export { describeSample, studentTCdf, studentTQuantile, welchTTest } from "./analysis/statistics";
+export type { SampleStatistics, WelchTestResult } from "./analysis/statistics";
+export { compareSamples } from "./analysis/comparison";
+export type { ComparisonMethod, ComparisonOptions, ComparisonResult } from "./analysis/comparison";
+export { summarizeBaseline, computeMarginalEnergy } from "./analysis/baseline";
+export type { BaselineTick, BaselineMeasurement, MarginalEnergyInput, MarginalEnergyResult } from "./analysis/baseline";
+export { detectRegressions } from "./analysis/history";
+export type { RollingBaselineOptions, RegressionCheck } from "./analysis/history";
+export { checkEnergyBudget } from "./analysis/budget";
+export type { EnergyBudget, BudgetMetric, BudgetMeasurement, BudgetCheck, BudgetResult } from "./analysis/budget";
+export { applyFacilityOverhead } from "./analysis/facility";
+export type { FacilityFactors, FacilityInput, FacilityResult } from "./analysis/facility";
+export { lookupCountryEmissionFactor, loadCountryEmissionFactors, searchCountries, normalizeCountryCode } from "./analysis/emissionFactors";
+export type { CountryEmissionFactor, CountryEmissionFactorResult } from "./analysis/emissionFactors";
+export { ATTRIBUTION_STRATEGIES, DEFAULT_ATTRIBUTION_STRATEGY, getAttributionStrategy, activeShareStrategy, dynamicOnlyStrategy, idleSharedByReservationStrategy, regressionStrategy } from "./analysis/attribution";
+export type { AttributionStrategy, AttributionInput, AttributionTick, AttributionResult, AttributionRegression } from "./analysis/attribution";
+export { attributeHostEnergyToPid, attributePackageEnergyToPid, attributeHostEnergyByCpuTime } from "./analysis/hostToPid";
+export type { HostToPidAttributionInput, HostToPidAttributionResult, PackageAttributionInput, PackageAttributionResult, CpuTimeAttributionInput } from "./analysis/hostToPid";
+
+export * from "./monitor/monitor";
@@ -0,0 +1,148 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { getEventListeners } from "node:events";
+import { monitor, MonitorSnapshot } from "./monitor.js";
+import type { Samplers } from "../sampling/sampling.js";
+import type { EnergyReader } from "../sensors/rapl/energyReader.js";
+import { CpuReader } from "../sensors/cpus/CpuReader.js";
+import { ProcessCpuReader } from "../sensors/cpus/ProcessCpuReader.js";
+
+type CpuResult = Awaited<ReturnType<CpuReader["sample"]>>;
+type ProcessCpuResult = Awaited<ReturnType<ProcessCpuReader["sample"]>>;
+
+function fakeSamplers({ exitAfter = Infinity } = {}): Samplers {
+    let energyCalls = 0;
+    let cpuCalls = 0;
+    let processCalls = 0;
+
+    class FakeCpuReader extends CpuReader {
+        async sample(): Promise<CpuResult> {
+            const primed = cpuCalls++ > 0;
+            return {
+                ok: true,
+                primed,
+                internalClampedDt: 1,
+                cpuTicks: { unit: "jiffies", deltaIdleTicks: 0n, deltaActiveTicks: primed ? 100n : 0n, deltaTotalTicks: primed ? 100n : 0n }
+            };
+        }
+    }
+
+    class FakeProcessCpuReader extends ProcessCpuReader {
+        async sample(): Promise<ProcessCpuResult> {
+            if (processCalls >= exitAfter) {
+                return { ok: false, error: "file_not_found" };
+            }
+            const primed = processCalls++ > 0;
+            return { ok: true, primed, pid: 1234, cpuTicks: { unit: "jiffies", deltaActive: primed ? 25n : 0n } };
+        }
+    }
+
+    const energyReader: EnergyReader = {
+        isReady: true,
+        status: null,
+        hint: null,
+        mode: "rapl",
+        async sample() {
+            const primed = energyCalls++ > 0;
+            return { ok: true, primed, internalClampedDt: primed ? 1 : 0, deltaJ: primed ? 10 : 0, deltaUj: 0, packages: [], domains: [], wraps: 0 };
+        }
+    };
+
+    return {
+        energyReader,
+        cpuReader: new FakeCpuReader({}),
+        processCpuReader: new FakeProcessCpuReader({ pid: 1234 }),
+    };
+}
+
+test("monitor test suite", async (t) => {
+    await t.test("yields one snapshot per tick with running totals and rolling share", async () => {
+        const controller = new AbortController();
+        const snapshots: MonitorSnapshot[] = [];
+
+        for await (const snapshot of monitor({
+            pid: 1234,
+            tickMs: 10,
+            windowSize: 2,
+            samplers: fakeSamplers(),
+            emissionFactor_gCO2ePerKWh: 360,
+            signal: controller.signal
+        })) {
+            snapshots.push(snapshot);
+            if (snapshots.length === 3) controller.abort();
+        }
+
+        assert.strictEqual(snapshots.length, 3);
+
+        //priming tick
+        assert.strictEqual(snapshots[0].primed, false);
+        assert.strictEqual(snapshots[0].rollingShare, null);
+        assert.strictEqual(snapshots[0].hostCpuPowerWatts, 0);
+
+        const last = snapshots[2];
+        assert.strictEqual(last.primed, true);
+        assert.strictEqual(last.hostCpuPowerWatts, 10);
+        assert.strictEqual(last.rollingShare, 0.25);
+        assert.strictEqual(last.processCpuPowerWatts, 2.5);
+        assert.strictEqual(last.windowSamples, 2);
+        assert.strictEqual(last.hostCpuEnergyJoules, 20);
+        assert.strictEqual(last.processCpuEnergyJoules, 5);
+        assert.strictEqual(last.tickHostCpuEnergyJoules, 10);
+        assert.strictEqual(last.tickProcessCpuEnergyJoules, 2.5);
+        assert.strictEqual(last.raplWraps, 0);
+        // 20 J = 1/180000 kWh => 360 g/kWh => 0.002 g
+        assert.ok(Math.abs(last.hostCpuCarbon_gCO2e - 0.002) < 1e-12);
+    });
+
+    await t.test("stops immediately when the signal is already aborted", async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const snapshots: MonitorSnapshot[] = [];
+        for await (const snapshot of monitor({
+            pid: 1234,
+            tickMs: 10,
+            samplers: fakeSamplers(),
+            emissionFactor_gCO2ePerKWh: 475,
+            signal: controller.signal
+        })) {
+            snapshots.push(snapshot);
+        }
+        assert.strictEqual(snapshots.length, 0);
+    });
+
+    await t.test("ends by itself once the target process is gone", async () => {
+        const controller = new AbortController();
+        const snapshots: MonitorSnapshot[] = [];
+        for await (const snapshot of monitor({
+            pid: 1234,
+            tickMs: 10,
+            samplers: fakeSamplers({ exitAfter: 2 }),
+            emissionFactor_gCO2ePerKWh: 475,
+            signal: controller.signal
+        })) {
+            snapshots.push(snapshot);
+            if (snapshots.length === 10) controller.abort();
+        }
+        assert.strictEqual(snapshots.length, 3);
+        assert.deepStrictEqual(snapshots.map((s) => s.processGone), [false, false, true]);
+        assert.strictEqual(snapshots[2].processError, "file_not_found");
+    });
+
+    await t.test("keeps no abort listener per tick (long-running exporter)", async () => {
+        const controller = new AbortController();
+        let ticks = 0;
+        for await (const snapshot of monitor({
+            pid: 1234,
+            tickMs: 2,
+            samplers: fakeSamplers(),
+            emissionFactor_gCO2ePerKWh: 475,
+            signal: controller.signal
+        })) {
+            if (++ticks === 20) {
+                assert.ok(getEventListeners(controller.signal, "abort").length <= 1);
+                controller.abort();
+            }
+        }
+        assert.strictEqual(ticks, 20);
+    });
+});
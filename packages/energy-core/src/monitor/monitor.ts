@@ -0,0 +1,167 @@
+import { collectSamples, Samplers } from "../sampling/sampling.js";
+import { AuditAccumulator } from "../audit/AuditAccumulator.js";
+import { HostToPidSlidingWindow } from "../analysis/HostToPidSlidingWindows.js";
+import { estimateCarbonFootprint } from "../analysis/estimateCarbon.js";
+import { fixedRateTicks, TickTiming } from "../timers/scheduler.js";
+
+export interface MonitorOptions {
+    pid: number;
+    tickMs?: number;
+    windowSize?: number; // number of ticks used for the rolling share
+
+    samplers: Samplers;
+
+    emissionFactor_gCO2ePerKWh: number;
+
+    signal?: AbortSignal;
+}
+
+export interface MonitorSnapshot {
+    pid: number;
+    tick: TickTiming;
+    elapsedSeconds: number;
+    primed: boolean;
+
+    // instantaneous (last tick)
+    hostCpuPowerWatts: number;
+    processCpuPowerWatts: number;
+    tickHostCpuEnergyJoules: number;
+    tickProcessCpuEnergyJoules: number; // tick host energy x tick CPU share: its running sum never decreases
+    raplWraps: number;                  // energy counter wraps handled during the tick
+
+    // rolling window
+    rollingShare: number | null;
+    windowSamples: number;
+
+    // cumulative since start
+    hostCpuEnergyJoules: number;
+    processCpuEnergyJoules: number;
+    processCpuEnergyShare: number;
+    hostCpuCarbon_gCO2e: number;
+    processCpuCarbon_gCO2e: number;
+
+    processOk: boolean;
+    processError: string | null;
+    processGone: boolean; // the target no longer exists: last snapshot of the loop
+}
+
+/**
+ * Continuous version of audit(): samples on a fixed-rate grid until the signal aborts
+ * and yields one snapshot per tick (instant power, rolling share, running totals).
+ * The first tick only primes the readers and is yielded with primed=false.
+ * Ends on its own once the target is gone (/proc/<pid> or the cgroup removed),
+ * after yielding that tick with processGone=true.
+ */
+export async function* monitor(options: MonitorOptions): AsyncGenerator<MonitorSnapshot> {
+    const {
+        pid,
+        tickMs = 1000,
+        windowSize = 10,
+        samplers,
+        emissionFactor_gCO2ePerKWh,
+        signal
+    } = options;
+
+    const startTimeNs = process.hrtime.bigint();
+    const accumulator = new AuditAccumulator(startTimeNs);
+    const window = new HostToPidSlidingWindow({ windowSize });
+
+    let rollingShare: number | null = null;
+    let windowSamples = 0;
+
+    for await (const tick of fixedRateTicks({
+        periodMs: tickMs,
+        overrunPolicy: "coalesce",
+        signal,
+        t0Ns: startTimeNs
+    })) {
+        const samples = await collectSamples(samplers, tick.startNs);
+
+        const hostJoules = samples.energy && samples.energy.ok && samples.energy.primed
+            ? samples.energy.deltaJ
+            : undefined;
+
+        const hostTicks = samples.cpu && samples.cpu.ok && samples.cpu.primed
+            ? samples.cpu.cpuTicks.deltaActiveTicks
+            : undefined;
+
+        const processTicks = samples.processCpu && samples.processCpu.ok
+            ? samples.processCpu.cpuTicks.deltaActive
+            : undefined;
+
+        accumulator.push({
+            hostCpuEnergyJoules: hostJoules,
+            hostCpuActiveTicks: hostTicks,
+            processCpuActiveTicks: processTicks,
+        });
+
+        const primed = hostJoules !== undefined && hostTicks !== undefined;
+
+        if (primed) {
+            const windowResult = window.push({
+                hostEnergyJoules: hostJoules,
+                hostCpuActiveTicks: hostTicks,
+                processCpuActiveTicks: processTicks ?? 0n,
+            });
+            windowSamples = windowResult.samples ?? windowSamples;
+            rollingShare = windowResult.ok ? windowResult.cpuShare ?? 0 : rollingShare;
+        }
+
+        const dt = samples.energy?.internalClampedDt ?? 0;
+        const hostCpuPowerWatts = hostJoules !== undefined && dt > 0 ? hostJoules / dt : 0;
+        const processCpuPowerWatts = hostCpuPowerWatts * (rollingShare ?? 0);
+        const tickShare = primed && hostTicks > 0n
+            ? Math.min(Number(processTicks ?? 0n) / Number(hostTicks), 1)
+            : 0;
+
+        const totals = accumulator.snapshot();
+        const processCpuEnergyShare = totals.totalHostCpuActiveTicks > 0n
+            ? Math.min(Number(totals.totalProcessCpuActiveTicks) / Number(totals.totalHostCpuActiveTicks), 1)
+            : 0;
+        const processCpuEnergyJoules = totals.hostCpuEnergyJoules * processCpuEnergyShare;
+
+        const hostCarbon = estimateCarbonFootprint({
+            energyJoules: totals.hostCpuEnergyJoules,
+            emissionFactor: emissionFactor_gCO2ePerKWh
+        });
+        const processCarbon = estimateCarbonFootprint({
+            energyJoules: processCpuEnergyJoules,
+            emissionFactor: emissionFactor_gCO2ePerKWh
+        });
+
+        const processError = samples.processCpu && samples.processCpu.ok === false
+            ? samples.processCpu.error ?? "unknown"
+            : null;
+        const processGone = processError === "file_not_found";
+
+        yield {
+            pid,
+            tick,
+            elapsedSeconds: totals.durationSeconds,
+            primed,
+
+            hostCpuPowerWatts,
+            processCpuPowerWatts,
+            tickHostCpuEnergyJoules: hostJoules ?? 0,
+            tickProcessCpuEnergyJoules: (hostJoules ?? 0) * tickShare,
+            raplWraps: samples.energy?.wraps ?? 0,
+
+            rollingShare,
+            windowSamples,
+
+            hostCpuEnergyJoules: totals.hostCpuEnergyJoules,
+            processCpuEnergyJoules,
+            processCpuEnergyShare,
+            hostCpuCarbon_gCO2e: hostCarbon.carbon_gCO2e ?? 0,
+            processCpuCarbon_gCO2e: processCarbon.carbon_gCO2e ?? 0,
+
+            processOk: processTicks !== undefined,
+            processError,
+            processGone,
+        };
+
+        if (processGone) {
+            return;
+        }
+    }
+}
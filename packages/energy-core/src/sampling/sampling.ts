@@ -2,28 +2,68 @@ import { CpuReader } from "../index";
 import { ProcessCpuReader } from "../index";
 import { EnergyReader, EnergyReaderFactoryOptions, createEnergyReader } from "../index";
 import { raplProbe } from "../index";
+import { PackageCpuReader } from "../sensors/cpus/PackageCpuReader.js";
+import { ProcessTreeCpuReader } from "../sensors/cpus/ProcessTreeCpuReader.js";
+import { ThreadCpuReader } from "../sensors/cpus/ThreadCpuReader.js";
+import { CgroupCpuReader } from "../sensors/cgroups/CgroupCpuReader.js";
+import { hwmonProbe } from "../sensors/hwmon/hwmon-probe.js";
+import { batteryProbe } from "../sensors/power-supply/battery-probe.js";
+import type { EnergySource } from "../sensors/rapl/energyReader.js";
 
 
 export interface Samplers {
     energyReader?: EnergyReader;
     cpuReader?: CpuReader;
-    processCpuReader?: ProcessCpuReader;
+    processCpuReader?: ProcessCpuReader | ProcessTreeCpuReader | CgroupCpuReader;
+    packageCpuReader?: PackageCpuReader; // only in topology mode
+    threadCpuReader?: ThreadCpuReader;   // only with the per-thread breakdown
 };
 
 export interface Samples {
     energy: Awaited<ReturnType<EnergyReader["sample"]>> | null;
     cpu: Awaited<ReturnType<CpuReader["sample"]>> | null;
-    processCpu: Awaited<ReturnType<ProcessCpuReader["sample"]>> | null;
+    processCpu: Awaited<ReturnType<ProcessCpuReader["sample"] | ProcessTreeCpuReader["sample"] | CgroupCpuReader["sample"]>> | null;
+    packageCpu: Awaited<ReturnType<PackageCpuReader["sample"]>> | null;
+    threadCpu: Awaited<ReturnType<ThreadCpuReader["sample"]>> | null;
+}
+
+export interface SamplersOptions {
+    topology?: boolean; // also split CPU ticks per physical package
+    tree?: boolean;     // follow the target and all its descendants
+    threads?: boolean;  // per-thread breakdown of the target
+    cgroup?: string;    // target a cgroup v2 path instead of a pid
+    source?: EnergySource; // energy source selection (default: auto)
+    hostOnly?: boolean;    // energy and host CPU only, no target (idle baseline)
 }
 
 type FallBackOptions = EnergyReaderFactoryOptions["fallback"];
 
-export async function createSamplers(pid: number, fallbackOptions: FallBackOptions) {
+function createProcessCpuReader(pid: number | null, options: SamplersOptions) {
+    if (options.cgroup) {
+        return new CgroupCpuReader({ path: options.cgroup });
+    }
+    if (pid === null) {
+        throw new Error("createSamplers: a pid or a cgroup path is required");
+    }
+    return options.tree ? new ProcessTreeCpuReader({ pid }) : new ProcessCpuReader({ pid });
+}
+
+export async function createSamplers(pid: number | null, fallbackOptions: FallBackOptions, options: SamplersOptions = {}) {
+    // the per-package ticks are those of the pid's threads: they would replace the cgroup share
+    if (options.topology && options.cgroup) {
+        throw new Error("createSamplers: topology cannot be combined with a cgroup");
+    }
     const probe = await raplProbe();
+    // hwmon is only scanned when RAPL cannot be used
+    const hwmon = probe.status === 'OK' ? undefined : await hwmonProbe();
+    const battery = options.source === 'battery' ? await batteryProbe() : undefined;
     const fb = fallbackOptions;
     return {
         energyReader: createEnergyReader({
             probe,
+            source: options.source,
+            hwmonProbe: hwmon,
+            batteryProbe: battery,
             fallback: {
                 tdpWatts: Number.isFinite(fb?.tdpWatts as any) ? fb?.tdpWatts : undefined,
                 pidleWatts: Number.isFinite(fb?.pidleWatts as any) ? fb?.pidleWatts : undefined,
@@ -31,20 +71,24 @@ export async function createSamplers(pid: number, fallbackOptions: FallBackOptio
             }
         }),
         cpuReader: new CpuReader({}),
-        processCpuReader: new ProcessCpuReader({ pid }),
+        processCpuReader: options.hostOnly ? undefined : createProcessCpuReader(pid, options),
+        packageCpuReader: options.topology && pid !== null ? new PackageCpuReader({ pid }) : undefined,
+        threadCpuReader: options.threads && pid !== null ? new ThreadCpuReader({ pid }) : undefined,
     };
 }
 
 export async function collectSamples(samplers: Samplers, nowNs: bigint): Promise<Samples> {
-    const { energyReader, cpuReader, processCpuReader } = samplers;
-    const [energy, cpu, processCpu] = await Promise.all(
+    const { energyReader, cpuReader, processCpuReader, packageCpuReader, threadCpuReader } = samplers;
+    const [energy, cpu, processCpu, packageCpu, threadCpu] = await Promise.all(
         [
             energyReader ? energyReader.sample(nowNs) : Promise.resolve(null),
             cpuReader ? cpuReader.sample(nowNs) : Promise.resolve(null),
-            processCpuReader ? processCpuReader.sample() : Promise.resolve(null)
+            processCpuReader ? processCpuReader.sample() : Promise.resolve(null),
+            packageCpuReader ? packageCpuReader.sample() : Promise.resolve(null),
+            threadCpuReader ? threadCpuReader.sample() : Promise.resolve(null)
 
         ]
     );
 
-    return { energy, cpu, processCpu };
+    return { energy, cpu, processCpu, packageCpu, threadCpu };
 }
\ No newline at end of file
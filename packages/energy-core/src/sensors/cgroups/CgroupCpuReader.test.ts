@@ -0,0 +1,77 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import { join } from "node:path";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { CgroupCpuReader, normalizeCgroupPath, resolvePidCgroup } from "./CgroupCpuReader.js";
+import { createCgroup } from "../../utils/test-utils.js";
+
+const SERVICE = '/system.slice/nginx.service';
+
+test('CgroupCpuReader test suite', async (t) => {
+    const tmp = await mkdtemp(join(os.tmpdir(), 'cgroup-'));
+    const cgroupRoot = join(tmp, 'cgroup');
+
+    t.after(async () => {
+        await rm(tmp, { recursive: true, force: true });
+    });
+
+    await t.test('normalizeCgroupPath', () => {
+        assert.strictEqual(normalizeCgroupPath('system.slice/nginx.service/'), SERVICE);
+        assert.strictEqual(normalizeCgroupPath('/'), '/');
+        assert.strictEqual(normalizeCgroupPath('../../etc'), '/etc');
+        assert.throws(() => new CgroupCpuReader({ path: '' }), /Invalid cgroup path/);
+    });
+
+    await t.test('sample - usage_usec deltas, jiffies with carried remainder', async () => {
+        await createCgroup(cgroupRoot, SERVICE, 1_000_000);
+        const reader = new CgroupCpuReader({ path: SERVICE, cgroupRoot });
+
+        const first = await reader.sample();
+        assert.strictEqual(first.ok, true);
+        assert.strictEqual(first.primed, false);
+
+        await createCgroup(cgroupRoot, SERVICE, 1_015_000);
+        const second = await reader.sample();
+        assert.ok(second.ok);
+        assert.strictEqual(second.primed, true);
+        assert.strictEqual(second.cpuTime.deltaUsec, 15_000n);
+        assert.strictEqual(second.cpuTicks.deltaActive, 1n); // 10 ms per jiffy, 5 ms carried
+
+        await createCgroup(cgroupRoot, SERVICE, 1_020_000);
+        const third = await reader.sample();
+        assert.ok(third.ok);
+        assert.strictEqual(third.cpuTime.deltaUsec, 5_000n);
+        assert.strictEqual(third.cpuTicks.deltaActive, 1n);
+    });
+
+    await t.test('sample - counter reset re-primes', async () => {
+        await createCgroup(cgroupRoot, '/reset.scope', 500_000);
+        const reader = new CgroupCpuReader({ path: '/reset.scope', cgroupRoot });
+        await reader.sample();
+        await createCgroup(cgroupRoot, '/reset.scope', 10);
+        const result = await reader.sample();
+        assert.strictEqual(result.ok, true);
+        assert.strictEqual(result.primed, false);
+        assert.strictEqual(result.cpuTime.deltaUsec, 0n);
+    });
+
+    await t.test('sample - missing cgroup', async () => {
+        const reader = new CgroupCpuReader({ path: '/missing.service', cgroupRoot });
+        const result = await reader.sample();
+        assert.strictEqual(result.ok, false);
+        assert.strictEqual(result.error, 'file_not_found');
+    });
+
+    await t.test('resolvePidCgroup - reads the unified hierarchy entry', async () => {
+        const procRoot = join(tmp, 'proc');
+        await mkdir(join(procRoot, '1234'), { recursive: true });
+        await writeFile(join(procRoot, '1234', 'cgroup'), `0::${SERVICE}\n`, 'utf8');
+        await mkdir(join(procRoot, '1235'), { recursive: true });
+        await writeFile(join(procRoot, '1235', 'cgroup'), '12:cpu,cpuacct:/docker/abc\n', 'utf8');
+
+        assert.deepStrictEqual(await resolvePidCgroup(1234, procRoot), { ok: true, error: null, path: SERVICE });
+        assert.deepStrictEqual(await resolvePidCgroup(1235, procRoot), { ok: false, error: 'no_cgroup_v2_entry', path: null });
+        assert.strictEqual((await resolvePidCgroup(4321, procRoot)).error, 'file_not_found');
+    });
+});
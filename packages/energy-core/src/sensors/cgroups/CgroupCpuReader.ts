@@ -0,0 +1,153 @@
+import process from "node:process";
+import { readFile } from "node:fs/promises";
+import { join, posix } from "node:path";
+import { extractErrorCode, reasonFromCode } from "@nodefootprint/shared";
+import { USER_HZ, USEC_PER_S } from "../../timers/timing.js";
+
+const DEFAULT_CGROUP_ROOT = '/sys/fs/cgroup';
+
+interface CgroupCpuReaderOptions {
+    log?: 'silent' | 'debug';
+    path?: string;       // cgroup path relative to the root, e.g. "/system.slice/nginx.service"
+    cgroupRoot?: string; // cgroup v2 mount point (default: '/sys/fs/cgroup')
+}
+
+export interface CgroupCpuSample {
+    ok: true;
+    primed: boolean;
+    path: string;
+    cpuTime: {
+        unit: "usec";
+        deltaUsec: bigint;
+    };
+    // same delta in jiffies, for consumers that only know ticks (sub-tick remainder carried over)
+    cpuTicks: {
+        unit: "jiffies";
+        deltaActive: bigint;
+    };
+}
+
+interface CgroupCpuReaderState {
+    lastUsageUsec: bigint | null;
+    remainderUsec: bigint; // not yet converted to jiffies
+}
+
+export interface CgroupResolution {
+    ok: boolean;
+    error?: string | null;
+    path: string | null;
+}
+
+/**
+ * Normalizes a cgroup path ("system.slice/foo" => "/system.slice/foo"), null if it escapes the root.
+ */
+export function normalizeCgroupPath(path: string): string | null {
+    const normalized = posix.normalize(`/${path.trim()}`);
+    if (normalized.split('/').includes('..')) return null;
+    return normalized.length > 1 ? normalized.replace(/\/$/, '') : normalized;
+}
+
+/**
+ * Reads usage_usec from a cgroup v2 cpu.stat file.
+ */
+export async function parseCgroupCpuStat(file: string): Promise<{ ok: boolean; error?: string | null; usageUsec: bigint | null }> {
+    try {
+        const content = await readFile(file, 'utf-8');
+        for (const line of content.split('\n')) {
+            const [key, value] = line.trim().split(/\s+/);
+            if (key === 'usage_usec' && value !== undefined) {
+                return { ok: true, error: null, usageUsec: BigInt(value) };
+            }
+        }
+        return { ok: false, error: 'invalid_file_content', usageUsec: null };
+    } catch (error) {
+        const code = extractErrorCode(error);
+        return { ok: false, error: reasonFromCode(code) ?? 'error_accessing_file', usageUsec: null };
+    }
+}
+
+/**
+ * Resolves the cgroup v2 path of a process from /proc/<pid>/cgroup (unified "0::<path>" line).
+ */
+export async function resolvePidCgroup(pid: number, procRoot: string = '/proc'): Promise<CgroupResolution> {
+    try {
+        const content = await readFile(join(procRoot, String(pid), 'cgroup'), 'utf-8');
+        for (const line of content.split('\n')) {
+            if (!line.startsWith('0::')) continue;
+            const path = normalizeCgroupPath(line.slice(3));
+            return path ? { ok: true, error: null, path } : { ok: false, error: 'invalid_cgroup_path', path: null };
+        }
+        return { ok: false, error: 'no_cgroup_v2_entry', path: null };
+    } catch (error) {
+        const code = extractErrorCode(error);
+        return { ok: false, error: reasonFromCode(code) ?? 'error_accessing_file', path: null };
+    }
+}
+
+/**
+ * CgroupCpuReader reads the CPU time of a whole cgroup v2 (container, systemd service...)
+ * from <cgroupRoot>/<path>/cpu.stat (usage_usec, microseconds, all processes of the group).
+ * The first sample primes the baseline; a counter going backwards (cgroup recreated) re-primes.
+ */
+export class CgroupCpuReader {
+    log: 'silent' | 'debug';
+    path: string;
+    statFilePath: string;
+    readonly mode = 'cgroup';
+    private state: CgroupCpuReaderState;
+
+    constructor(options: CgroupCpuReaderOptions = {}) {
+        this.log = options.log ?? 'silent';
+        const path = normalizeCgroupPath(options.path ?? '');
+        if (!options.path || path === null) {
+            throw new Error(`Invalid cgroup path: ${options.path}`);
+        }
+        this.path = path;
+        this.statFilePath = join(options.cgroupRoot ?? DEFAULT_CGROUP_ROOT, path, 'cpu.stat');
+        this.state = {
+            lastUsageUsec: null,
+            remainderUsec: 0n,
+        };
+    }
+
+    async sample(): Promise<CgroupCpuSample | { ok: false; error: string; }> {
+        const stat = await parseCgroupCpuStat(this.statFilePath);
+        if (!stat.ok || stat.usageUsec === null) {
+            return {
+                ok: false,
+                error: stat.error ?? "cgroup_stat_read_failure",
+            };
+        }
+
+        const usageUsec = stat.usageUsec;
+        const last = this.state.lastUsageUsec;
+        this.state.lastUsageUsec = usageUsec;
+
+        if (last === null || usageUsec < last) {
+            this.state.remainderUsec = 0n;
+            if (last !== null && this.log === 'debug') {
+                process.stdout.write(`CgroupCpuReader: counter reset detected for ${this.path}\n`);
+            }
+            return {
+                ok: true,
+                primed: false,
+                path: this.path,
+                cpuTime: { unit: "usec", deltaUsec: 0n },
+                cpuTicks: { unit: "jiffies", deltaActive: 0n },
+            };
+        }
+
+        const deltaUsec = usageUsec - last;
+        const usecPerTick = USEC_PER_S / USER_HZ;
+        const pending = this.state.remainderUsec + deltaUsec;
+        this.state.remainderUsec = pending % usecPerTick;
+
+        return {
+            ok: true,
+            primed: true,
+            path: this.path,
+            cpuTime: { unit: "usec", deltaUsec },
+            cpuTicks: { unit: "jiffies", deltaActive: pending / usecPerTick },
+        };
+    }
+}
@@ -31,7 +31,7 @@ interface CpuReaderState {
     lastIdle: bigint | null;
 }
 
-interface ProcStatSnapshot {
+export interface ProcStatSnapshot {
     ok: boolean,
     error?: string | null,
     timeStamp: string | null;
@@ -55,6 +55,7 @@ interface ProcStatSnapshot {
         softirq: bigint;
         steal: bigint;
     }>;
+    perCpuIds?: number[]; // N of each "cpuN" line, same order as perCpu
 }
 
 interface CpuTotal {
@@ -75,7 +76,7 @@ export async function parseProcStat(file: string = '/proc/stat') {
         const statFile = await readFile(_file, 'utf-8');
         const lines = statFile.split('\n');
 
-        const statSnapshot: ProcStatSnapshot = { ok: false, timeStamp: null, aggregate: null, perCpu: [] };
+        const statSnapshot: ProcStatSnapshot = { ok: false, timeStamp: null, aggregate: null, perCpu: [], perCpuIds: [] };
 
         for (const line of lines) {
             if (!line.startsWith('cpu')) continue;
@@ -95,6 +96,7 @@ export async function parseProcStat(file: string = '/proc/stat') {
                 statSnapshot.aggregate = { user, nice, system, idle, iowait, irq, softirq, steal };
             } else {
                 statSnapshot.perCpu.push({ user, nice, system, idle, iowait, irq, softirq, steal });
+                statSnapshot.perCpuIds!.push(Number(parts[0].slice(3)));
             }
         }
         // if file is empty or invalid
@@ -0,0 +1,104 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import { join } from "node:path";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { PackageCpuReader } from "./PackageCpuReader.js";
+import { parseCpuList, readAllowedCpuCount, readCpuTopology } from "./cpu-topology.js";
+import { readTaskStats } from "./tasks.js";
+import { createCpuTopology, createProcTasks } from "../../utils/test-utils.js";
+
+const PID = 4242;
+
+async function writePerCpuStat(procRoot: string, activeByCpu: number[]) {
+    const total = activeByCpu.reduce((sum, active) => sum + active, 0);
+    const lines = [
+        `cpu  ${total} 0 0 10000 0 0 0 0 0 0`,
+        ...activeByCpu.map((active, cpu) => `cpu${cpu} ${active} 0 0 1000 0 0 0 0 0 0`),
+        'intr 0',
+    ];
+    await writeFile(join(procRoot, 'stat'), lines.join('\n') + '\n', 'utf8');
+}
+
+test('PackageCpuReader test suite', async (t) => {
+    const tmp = await mkdtemp(join(os.tmpdir(), 'package-cpu-'));
+    const cpuBasePath = join(tmp, 'cpu');
+    const procRoot = join(tmp, 'proc');
+
+    t.after(async () => {
+        await rm(tmp, { recursive: true, force: true });
+    });
+
+    await createCpuTopology(cpuBasePath, [0, 0, 1, 1]);
+
+    await t.test('readCpuTopology - maps logical cpus to physical packages', async () => {
+        const topology = await readCpuTopology(cpuBasePath);
+        assert.strictEqual(topology.ok, true);
+        assert.deepStrictEqual(topology.packageIds, [0, 1]);
+        assert.strictEqual(topology.packageByCpu.get(1), 0);
+        assert.strictEqual(topology.packageByCpu.get(3), 1);
+    });
+
+    await t.test('readCpuTopology - missing sysfs tree', async () => {
+        const topology = await readCpuTopology(join(tmp, 'missing'));
+        assert.strictEqual(topology.ok, false);
+        assert.strictEqual(topology.error, 'file_not_found');
+    });
+
+    await t.test('readAllowedCpuCount - counts Cpus_allowed_list', async () => {
+        assert.deepStrictEqual(parseCpuList('0-2,5,7-8\n'), [0, 1, 2, 5, 7, 8]);
+        assert.deepStrictEqual(parseCpuList(''), []);
+
+        await mkdir(join(procRoot, '77'), { recursive: true });
+        await writeFile(join(procRoot, '77', 'status'), 'Name:\tnode\nCpus_allowed:\tff\nCpus_allowed_list:\t0-3,6\n');
+        assert.strictEqual(await readAllowedCpuCount(77, procRoot), 5);
+        assert.strictEqual(await readAllowedCpuCount(78, procRoot), null);
+    });
+
+    await t.test('readTaskStats - reads every thread with its processor', async () => {
+        await createProcTasks(procRoot, PID, [
+            { tid: PID, utime: 10, stime: 5, processor: 3 },
+            { tid: PID + 1, utime: 1, stime: 1, processor: 0 },
+        ]);
+        const { ok, tasks } = await readTaskStats(PID, procRoot);
+        assert.strictEqual(ok, true);
+        const main = tasks.find((task) => task.tid === PID);
+        assert.strictEqual(main?.processor, 3);
+        assert.strictEqual(main?.utime, 10n);
+    });
+
+    await t.test('sample - splits host and process ticks per package', async () => {
+        await writePerCpuStat(procRoot, [100, 100, 100, 100]);
+        await createProcTasks(procRoot, PID, [
+            { tid: PID, utime: 10, stime: 5, processor: 3 },
+            { tid: PID + 1, utime: 1, stime: 1, processor: 0 },
+        ]);
+
+        const reader = new PackageCpuReader({ pid: PID, procRoot, cpuBasePath });
+        const first = await reader.sample();
+        assert.strictEqual(first.ok, true);
+        assert.strictEqual(first.primed, false);
+
+        // socket 0: +100 host ticks, +4 from the second thread
+        // socket 1: +50 host ticks, +30 from the main thread
+        await writePerCpuStat(procRoot, [150, 150, 150, 100]);
+        await createProcTasks(procRoot, PID, [
+            { tid: PID, utime: 30, stime: 15, processor: 3 },
+            { tid: PID + 1, utime: 3, stime: 3, processor: 1 },
+        ]);
+
+        const second = await reader.sample();
+        assert.strictEqual(second.ok, true);
+        assert.deepStrictEqual(second.packages, [
+            { packageId: 0, deltaHostActiveTicks: 100n, deltaProcessActiveTicks: 4n },
+            { packageId: 1, deltaHostActiveTicks: 50n, deltaProcessActiveTicks: 30n },
+        ]);
+    });
+
+    await t.test('sample - unknown pid', async () => {
+        const reader = new PackageCpuReader({ pid: 99999, procRoot, cpuBasePath });
+        const result = await reader.sample();
+        assert.strictEqual(result.ok, false);
+        assert.strictEqual(result.error, 'file_not_found');
+    });
+});
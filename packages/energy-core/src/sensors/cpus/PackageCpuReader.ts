@@ -0,0 +1,136 @@
+import { computeCpuUtilization, parseProcStat } from "./CpuReader.js";
+import { pidIsValid } from "./ProcessCpuReader.js";
+import { readCpuTopology, CpuTopology } from "./cpu-topology.js";
+import { readTaskStats } from "./tasks.js";
+
+interface PackageCpuReaderOptions {
+    pid?: number;
+    procRoot?: string;     // default '/proc'
+    statFilePath?: string; // default '<procRoot>/stat'
+    cpuBasePath?: string;  // default '/sys/devices/system/cpu'
+    topology?: CpuTopology;
+}
+
+export interface PackageCpuTicks {
+    packageId: number;
+    deltaHostActiveTicks: bigint;
+    deltaProcessActiveTicks: bigint;
+}
+
+export interface PackageCpuSample {
+    ok: true;
+    primed: boolean;
+    pid: number;
+    unit: "jiffies";
+    packages: PackageCpuTicks[];
+}
+
+interface PackageCpuReaderState {
+    lastCpuActive: Map<number, bigint> | null; // cpu id => active ticks
+    lastThreadTicks: Map<string, bigint>;      // `${tid}:${starttime}` => utime + stime
+}
+
+/**
+ * PackageCpuReader splits host and process CPU activity per physical package (socket).
+ * Host ticks come from the per-CPU lines of /proc/stat, grouped with the sysfs topology.
+ * Process ticks come from /proc/<pid>/task/<tid>/stat: each thread's delta is charged
+ * to the package of the CPU it last ran on ("processor" field), which is exact for
+ * pinned workloads and an approximation for threads migrating between sockets.
+ * Like the other readers, the first sample only primes the baselines.
+ */
+export class PackageCpuReader {
+    readonly pid: number;
+    private procRoot: string;
+    private statFilePath: string;
+    private cpuBasePath?: string;
+    private topology: CpuTopology | null;
+    private state: PackageCpuReaderState;
+
+    constructor(options: PackageCpuReaderOptions = {}) {
+        this.pid = options.pid ?? -1;
+        if (!pidIsValid(this.pid)) {
+            throw new Error(`Invalid PID: ${this.pid}`);
+        }
+        this.procRoot = options.procRoot ?? '/proc';
+        this.statFilePath = options.statFilePath ?? `${this.procRoot}/stat`;
+        this.cpuBasePath = options.cpuBasePath;
+        this.topology = options.topology ?? null;
+        this.state = {
+            lastCpuActive: null,
+            lastThreadTicks: new Map(),
+        };
+    }
+
+    async sample(): Promise<PackageCpuSample | { ok: false; error: string }> {
+        if (!this.topology) {
+            this.topology = await readCpuTopology(this.cpuBasePath);
+        }
+        const topology = this.topology;
+        if (!topology.ok) {
+            return { ok: false, error: topology.error ?? 'topology_unavailable' };
+        }
+
+        const [procStat, taskStats] = await Promise.all([
+            parseProcStat(this.statFilePath),
+            readTaskStats(this.pid, this.procRoot),
+        ]);
+
+        if (!procStat.ok || !('perCpu' in procStat)) {
+            return { ok: false, error: String(procStat.error ?? 'proc_stat_read_failure') };
+        }
+        if (!taskStats.ok) {
+            return { ok: false, error: taskStats.error ?? 'task_stat_read_failure' };
+        }
+
+        const cpuActive = new Map<number, bigint>();
+        procStat.perCpu.forEach((cpu, index) => {
+            const cpuId = procStat.perCpuIds?.[index] ?? index;
+            cpuActive.set(cpuId, computeCpuUtilization(cpu).active);
+        });
+
+        const threadTicks = new Map<string, { ticks: bigint; processor: number | null }>();
+        for (const task of taskStats.tasks) {
+            threadTicks.set(`${task.tid}:${task.starttime ?? 0n}`, {
+                ticks: (task.utime ?? 0n) + (task.stime ?? 0n),
+                processor: task.processor,
+            });
+        }
+
+        const byPackage = new Map<number, PackageCpuTicks>(topology.packageIds.map((packageId) => [
+            packageId,
+            { packageId, deltaHostActiveTicks: 0n, deltaProcessActiveTicks: 0n },
+        ]));
+
+        const primed = this.state.lastCpuActive !== null;
+
+        if (primed) {
+            for (const [cpuId, active] of cpuActive) {
+                const packageId = topology.packageByCpu.get(cpuId);
+                const last = this.state.lastCpuActive!.get(cpuId);
+                if (packageId === undefined || last === undefined) continue;
+                const delta = active - last;
+                if (delta > 0n) byPackage.get(packageId)!.deltaHostActiveTicks += delta;
+            }
+
+            for (const [key, thread] of threadTicks) {
+                // new thread: it started during the tick, all its ticks belong to it
+                const last = this.state.lastThreadTicks.get(key) ?? 0n;
+                const delta = thread.ticks - last;
+                const packageId = thread.processor === null ? undefined : topology.packageByCpu.get(thread.processor);
+                if (packageId === undefined || delta <= 0n) continue;
+                byPackage.get(packageId)!.deltaProcessActiveTicks += delta;
+            }
+        }
+
+        this.state.lastCpuActive = cpuActive;
+        this.state.lastThreadTicks = new Map([...threadTicks].map(([key, thread]) => [key, thread.ticks]));
+
+        return {
+            ok: true,
+            primed,
+            pid: this.pid,
+            unit: "jiffies",
+            packages: [...byPackage.values()],
+        };
+    }
+}
@@ -10,7 +10,7 @@ interface ProcessCpuReaderOptions {
 }
 
 interface ProcessCpuSample {
-  ok: boolean;
+  ok: true;
   primed: boolean;
   pid: number;
   cpuTicks: {
@@ -20,7 +20,7 @@ interface ProcessCpuSample {
 }
 
 
-interface ProcessStatSnapshot {
+export interface ProcessStatSnapshot {
     ok: boolean,
     error?: string | null,
     timeStamp: string | null;
@@ -33,6 +33,7 @@ interface ProcessStatSnapshot {
     cutime: bigint | null;
     cstime: bigint | null;
     starttime: bigint | null;
+    processor: number | null; // CPU the task last ran on
 }
 
 interface ProcessCpuReaderState {
@@ -113,6 +114,7 @@ export async function parsePidStatFile(statFilePath: string): Promise<ProcessSta
             cutime: pidStat.cutime == null ? null : (typeof pidStat.cutime === 'bigint' ? pidStat.cutime as bigint : BigInt(Number(pidStat.cutime))),
             cstime: pidStat.cstime == null ? null : (typeof pidStat.cstime === 'bigint' ? pidStat.cstime as bigint : BigInt(Number(pidStat.cstime))),
             starttime: pidStat.starttime == null ? null : (typeof pidStat.starttime === 'bigint' ? pidStat.starttime as bigint : BigInt(Number(pidStat.starttime))),
+            processor: typeof pidStat.processor === 'number' && Number.isFinite(pidStat.processor) ? pidStat.processor : null,
         };
 
         return snapshot;
@@ -130,7 +132,8 @@ export async function parsePidStatFile(statFilePath: string): Promise<ProcessSta
             stime: null,
             cutime: null,
             cstime: null,
-            starttime: null
+            starttime: null,
+            processor: null
         } as ProcessStatSnapshot;
     }
 }
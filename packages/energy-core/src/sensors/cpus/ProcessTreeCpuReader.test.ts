@@ -0,0 +1,92 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import { join } from "node:path";
+import { mkdtemp, rm } from "node:fs/promises";
+import { ProcessTreeCpuReader } from "./ProcessTreeCpuReader.js";
+import { createProcProcess } from "../../utils/test-utils.js";
+
+test('ProcessTreeCpuReader test suite', async (t) => {
+    const tmp = await mkdtemp(join(os.tmpdir(), 'process-tree-'));
+
+    t.after(async () => {
+        await rm(tmp, { recursive: true, force: true });
+    });
+
+    for (const discovery of ['children', 'ppid scan'] as const) {
+        await t.test(`${discovery} - follows descendants and credits reaped children`, async () => {
+            const procRoot = join(tmp, discovery.replace(' ', '-'));
+            const children = (pids: number[]) => discovery === 'children' ? pids : null;
+
+            // npm (500) -> sh (501) -> node (502)
+            await createProcProcess(procRoot, { pid: 500, ppid: 1, comm: 'npm', utime: 10, stime: 0, children: children([501]) });
+            await createProcProcess(procRoot, { pid: 501, ppid: 500, comm: 'sh', utime: 20, stime: 0, children: children([502]) });
+            await createProcProcess(procRoot, { pid: 502, ppid: 501, comm: 'node', utime: 30, stime: 0, children: children([]) });
+            // unrelated process, must be ignored
+            await createProcProcess(procRoot, { pid: 900, ppid: 1, comm: 'other', utime: 999, stime: 0, children: children([]) });
+
+            const reader = new ProcessTreeCpuReader({ pid: 500, procRoot });
+            const first = await reader.sample();
+            assert.strictEqual(first.ok, true);
+            assert.strictEqual(first.primed, false);
+            assert.deepStrictEqual(first.processes.map((p) => p.pid), [500, 501, 502]);
+
+            // node exits after 10 more ticks and is reaped by sh (cutime=40): its 30 ticks
+            // from before the first sample are not new, only its last 10 are credited to sh
+            await rm(join(procRoot, '502'), { recursive: true });
+            await createProcProcess(procRoot, { pid: 500, ppid: 1, comm: 'npm', utime: 12, stime: 0, children: children([501]) });
+            await createProcProcess(procRoot, { pid: 501, ppid: 500, comm: 'sh', utime: 25, stime: 0, cutime: 40, children: children([]) });
+
+            const second = await reader.sample();
+            assert.strictEqual(second.ok, true);
+            assert.strictEqual(second.primed, true);
+            assert.strictEqual(second.cpuTicks.deltaActive, 17n);
+            assert.deepStrictEqual(second.processes.map((p) => [p.pid, p.comm, p.deltaActive]), [
+                [500, 'npm', 2n],
+                [501, 'sh', 15n],
+            ]);
+        });
+    }
+
+    await t.test('child counted over several ticks is not counted again when reaped', async () => {
+        const procRoot = join(tmp, 'reaped');
+        await createProcProcess(procRoot, { pid: 700, ppid: 1, utime: 0, stime: 0, children: [701] });
+        await createProcProcess(procRoot, { pid: 701, ppid: 700, utime: 5, stime: 0, children: [] });
+
+        const reader = new ProcessTreeCpuReader({ pid: 700, procRoot });
+        await reader.sample();
+
+        await createProcProcess(procRoot, { pid: 701, ppid: 700, utime: 15, stime: 5, children: [] });
+        const second = await reader.sample();
+        assert.ok(second.ok);
+        assert.strictEqual(second.cpuTicks.deltaActive, 15n);
+
+        // 701 reaped after 2 more ticks; a short-lived child born and reaped within the tick adds 4
+        await rm(join(procRoot, '701'), { recursive: true });
+        await createProcProcess(procRoot, { pid: 700, ppid: 1, utime: 1, stime: 0, cutime: 26, children: [] });
+        const third = await reader.sample();
+        assert.ok(third.ok);
+        assert.strictEqual(third.cpuTicks.deltaActive, 7n);
+    });
+
+    await t.test('new process with a recycled pid starts from zero', async () => {
+        const procRoot = join(tmp, 'recycled');
+        await createProcProcess(procRoot, { pid: 600, ppid: 1, utime: 0, stime: 0, children: [601] });
+        await createProcProcess(procRoot, { pid: 601, ppid: 600, utime: 50, stime: 0, starttime: 100, children: [] });
+
+        const reader = new ProcessTreeCpuReader({ pid: 600, procRoot });
+        await reader.sample();
+
+        await createProcProcess(procRoot, { pid: 601, ppid: 600, utime: 3, stime: 0, starttime: 200, children: [] });
+        const second = await reader.sample();
+        assert.ok(second.ok);
+        assert.strictEqual(second.cpuTicks.deltaActive, 3n);
+    });
+
+    await t.test('root process gone', async () => {
+        const reader = new ProcessTreeCpuReader({ pid: 99999, procRoot: tmp });
+        const result = await reader.sample();
+        assert.strictEqual(result.ok, false);
+        assert.strictEqual(result.error, 'file_not_found');
+    });
+});
@@ -0,0 +1,241 @@
+import process from "node:process";
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parsePidStatFile, pidIsValid, ProcessStatSnapshot } from "./ProcessCpuReader.js";
+
+interface ProcessTreeCpuReaderOptions {
+    log?: 'silent' | 'debug';
+    pid?: number;
+    procRoot?: string; // default '/proc'
+}
+
+export interface ProcessTreeEntry {
+    pid: number;
+    ppid: number | null;
+    comm: string | null;
+    starttime: bigint;
+    deltaActive: bigint; // jiffies since last sample, reaped children included
+}
+
+export interface ProcessTreeCpuSample {
+    ok: true;
+    primed: boolean;
+    pid: number;
+    cpuTicks: {
+        unit: "jiffies";
+        deltaActive: bigint; // whole tree
+    };
+    processes: ProcessTreeEntry[];
+}
+
+interface TreeBaseline {
+    pid: number;
+    ppid: number | null;
+    starttime: bigint;
+    ownTicks: bigint;      // utime + stime
+    childrenTicks: bigint; // cutime + cstime: children already waited for
+}
+
+function ownTicks(stat: ProcessStatSnapshot): bigint {
+    return (stat.utime ?? 0n) + (stat.stime ?? 0n);
+}
+
+function childrenTicks(stat: ProcessStatSnapshot): bigint {
+    return (stat.cutime ?? 0n) + (stat.cstime ?? 0n);
+}
+
+/**
+ * Children of a process from /proc/<pid>/task/<tid>/children (one file per thread).
+ * Returns null when the kernel does not expose these files (CONFIG_PROC_CHILDREN).
+ */
+async function readChildren(pid: number, procRoot: string): Promise<number[] | null> {
+    const taskRoot = join(procRoot, String(pid), 'task');
+    let tids: string[];
+    try {
+        tids = await readdir(taskRoot);
+    } catch {
+        return []; // process gone between two reads
+    }
+    const children: number[] = [];
+    for (const tid of tids) {
+        try {
+            const raw = await readFile(join(taskRoot, tid, 'children'), 'utf8');
+            for (const child of raw.trim().split(/\s+/)) {
+                if (child) children.push(Number(child));
+            }
+        } catch (error) {
+            // also hit when a thread exits mid-read: the ppid scan is then just a slower path
+            if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+                return null;
+            }
+        }
+    }
+    return children;
+}
+
+/**
+ * Fallback discovery: scans every /proc/<pid>/stat and groups pids by ppid.
+ */
+async function scanByParent(procRoot: string): Promise<Map<number, number[]>> {
+    const byParent = new Map<number, number[]>();
+    let entries: string[] = [];
+    try {
+        entries = await readdir(procRoot);
+    } catch {
+        return byParent;
+    }
+    const stats = await Promise.all(entries
+        .filter((entry) => /^\d+$/.test(entry))
+        .map((entry) => parsePidStatFile(join(procRoot, entry, 'stat'))));
+    for (const stat of stats) {
+        if (!stat.ok || stat.pid === null || stat.ppid === null) continue;
+        const siblings = byParent.get(stat.ppid) ?? [];
+        siblings.push(stat.pid);
+        byParent.set(stat.ppid, siblings);
+    }
+    return byParent;
+}
+
+/**
+ * ProcessTreeCpuReader follows a process and all its descendants.
+ * Each tick it discovers the tree (children files, or a ppid scan when they are not exposed),
+ * and sums per-process deltas of utime+stime. Baselines are keyed by pid+starttime so that a
+ * recycled pid is never mistaken for an old one. A reaped child's whole lifetime lands in its
+ * parent's cutime/cstime: the ticks already counted for a tracked child are subtracted from that
+ * growth, so only its final (unseen) ticks and those of children born and reaped within a tick are credited.
+ * Same contract as ProcessCpuReader (first sample primes, cpuTicks.deltaActive), plus a per-process breakdown.
+ */
+export class ProcessTreeCpuReader {
+    log: 'silent' | 'debug';
+    pid: number;
+    procRoot: string;
+    readonly mode = 'tree';
+    private baselines = new Map<string, TreeBaseline>(); // `${pid}:${starttime}`
+    // pid => ticks of reaped tracked children, counted already, still to remove from its cutime/cstime growth
+    private reaped = new Map<number, bigint>();
+    private primed = false;
+
+    constructor(options: ProcessTreeCpuReaderOptions = {}) {
+        this.log = options.log ?? 'silent';
+        this.pid = options.pid ?? -1;
+        if (!pidIsValid(this.pid)) {
+            throw new Error(`Invalid PID: ${this.pid}`);
+        }
+        this.procRoot = options.procRoot ?? '/proc';
+    }
+
+    /**
+     * Pids of the root and all its live descendants (breadth first).
+     */
+    async discover(): Promise<number[]> {
+        const pids = [this.pid];
+        const seen = new Set(pids);
+        let byParent: Map<number, number[]> | null = null;
+
+        for (let i = 0; i < pids.length; i++) {
+            let children = byParent ? (byParent.get(pids[i]) ?? []) : await readChildren(pids[i], this.procRoot);
+            if (children === null) {
+                byParent = await scanByParent(this.procRoot);
+                children = byParent.get(pids[i]) ?? [];
+            }
+            for (const child of children) {
+                if (!seen.has(child)) {
+                    seen.add(child);
+                    pids.push(child);
+                }
+            }
+        }
+        return pids;
+    }
+
+    /**
+     * Tracked processes missing from this tick: their counted ticks are charged to the nearest
+     * live tracked ancestor, whose cutime/cstime now contains them. Processes still in /proc
+     * (orphans re-parented out of the tree) have not been reaped by the tree and are skipped.
+     */
+    private async chargeReaped(liveKeys: Set<string>, livePids: Set<number>) {
+        const byPid = new Map([...this.baselines.values()].map((b) => [b.pid, b]));
+        for (const [key, gone] of this.baselines) {
+            if (liveKeys.has(key)) continue;
+            const stat = await parsePidStatFile(join(this.procRoot, String(gone.pid), 'stat'));
+            if (stat.ok && (stat.starttime ?? 0n) === gone.starttime) continue;
+
+            // parent gone too: it was reaped with this child's ticks in its own cutime
+            let ppid = gone.ppid;
+            for (let hops = 0; ppid !== null && !livePids.has(ppid) && hops < byPid.size; hops++) {
+                ppid = byPid.get(ppid)?.ppid ?? null;
+            }
+            if (ppid === null || !livePids.has(ppid)) continue;
+            this.reaped.set(ppid, (this.reaped.get(ppid) ?? 0n) + gone.ownTicks + gone.childrenTicks);
+        }
+    }
+
+    async sample(): Promise<ProcessTreeCpuSample | { ok: false; error: string; }> {
+        const rootStat = await parsePidStatFile(join(this.procRoot, String(this.pid), 'stat'));
+        if (!rootStat.ok || rootStat.pid === null) {
+            return {
+                ok: false,
+                error: rootStat.error ?? "pid_stat_read_failure",
+            };
+        }
+
+        const pids = await this.discover();
+        const stats = [rootStat, ...await Promise.all(pids.slice(1).map((pid) => parsePidStatFile(join(this.procRoot, String(pid), 'stat'))))];
+
+        // exited between discovery and read: its ticks go to its parent's cutime
+        const live = stats.filter((stat) => stat.ok && stat.pid !== null);
+        const liveKeys = new Set(live.map((stat) => `${stat.pid}:${stat.starttime ?? 0n}`));
+        const livePids = new Set(live.map((stat) => stat.pid!));
+        await this.chargeReaped(liveKeys, livePids);
+
+        const baselines = new Map<string, TreeBaseline>();
+        const processes: ProcessTreeEntry[] = [];
+        let deltaActive = 0n;
+
+        for (const stat of live) {
+            const pid = stat.pid!;
+            const starttime = stat.starttime ?? 0n;
+            const key = `${pid}:${starttime}`;
+            const current = { pid, ppid: stat.ppid, starttime, ownTicks: ownTicks(stat), childrenTicks: childrenTicks(stat) };
+            // unknown process: born during the tick, all its ticks are new
+            const last = this.baselines.get(key) ?? { ownTicks: 0n, childrenTicks: 0n };
+
+            let delta = 0n;
+            if (this.primed) {
+                const own = current.ownTicks - last.ownTicks;
+                let waited = current.childrenTicks - last.childrenTicks;
+                const reaped = this.reaped.get(pid) ?? 0n;
+                const removed = waited < reaped ? (waited > 0n ? waited : 0n) : reaped;
+                waited -= removed;
+                // not visible in cutime yet (stat read before the reap): removed on a later tick
+                if (reaped > removed) this.reaped.set(pid, reaped - removed);
+                else this.reaped.delete(pid);
+                delta = (own > 0n ? own : 0n) + (waited > 0n ? waited : 0n);
+            }
+
+            baselines.set(key, current);
+            deltaActive += delta;
+            processes.push({ pid, ppid: stat.ppid, comm: stat.comm, starttime, deltaActive: delta });
+        }
+
+        for (const pid of this.reaped.keys()) {
+            if (!livePids.has(pid)) this.reaped.delete(pid);
+        }
+
+        const primed = this.primed;
+        this.baselines = baselines;
+        this.primed = true;
+
+        if (this.log === 'debug') {
+            process.stdout.write(`ProcessTreeCpuReader: ${processes.length} processes, delta=${deltaActive}\n`);
+        }
+
+        return {
+            ok: true,
+            primed,
+            pid: this.pid,
+            cpuTicks: { unit: "jiffies", deltaActive },
+            processes,
+        };
+    }
+}
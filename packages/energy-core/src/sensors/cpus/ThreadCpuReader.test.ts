@@ -0,0 +1,56 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import { join } from "node:path";
+import { mkdtemp, rm } from "node:fs/promises";
+import { ThreadCpuReader } from "./ThreadCpuReader.js";
+import { createProcTasks } from "../../utils/test-utils.js";
+
+const PID = 3000;
+
+test('ThreadCpuReader test suite', async (t) => {
+    const procRoot = await mkdtemp(join(os.tmpdir(), 'thread-cpu-'));
+
+    t.after(async () => {
+        await rm(procRoot, { recursive: true, force: true });
+    });
+
+    await t.test('sample - per thread deltas with appearing and disappearing threads', async () => {
+        await createProcTasks(procRoot, PID, [
+            { tid: PID, comm: 'node', utime: 100, stime: 10 },
+            { tid: PID + 1, comm: 'libuv-worker', utime: 5, stime: 0 },
+            { tid: PID + 2, comm: 'V8 DefaultWorke', utime: 1, stime: 1 },
+        ]);
+
+        const reader = new ThreadCpuReader({ pid: PID, procRoot });
+        const first = await reader.sample();
+        assert.strictEqual(first.ok, true);
+        assert.strictEqual(first.primed, false);
+        assert.strictEqual(first.cpuTicks.deltaActive, 0n);
+
+        // the GC helper exits, a new worker thread appears
+        await rm(join(procRoot, String(PID), 'task', String(PID + 2)), { recursive: true });
+        await createProcTasks(procRoot, PID, [
+            { tid: PID, comm: 'node', utime: 120, stime: 15 },
+            { tid: PID + 1, comm: 'libuv-worker', utime: 9, stime: 0 },
+            { tid: PID + 3, comm: 'libuv-worker', utime: 2, stime: 0 },
+        ]);
+
+        const second = await reader.sample();
+        assert.strictEqual(second.ok, true);
+        assert.strictEqual(second.primed, true);
+        assert.strictEqual(second.cpuTicks.deltaActive, 31n);
+        const byTid = new Map(second.threads.map((thread) => [thread.tid, [thread.comm, thread.deltaActive]]));
+        assert.deepStrictEqual(byTid.get(PID), ['node', 25n]);
+        assert.deepStrictEqual(byTid.get(PID + 1), ['libuv-worker', 4n]);
+        assert.deepStrictEqual(byTid.get(PID + 3), ['libuv-worker', 2n]);
+        assert.strictEqual(byTid.has(PID + 2), false);
+    });
+
+    await t.test('sample - unknown pid', async () => {
+        const reader = new ThreadCpuReader({ pid: 99999, procRoot });
+        const result = await reader.sample();
+        assert.strictEqual(result.ok, false);
+        assert.strictEqual(result.error, 'file_not_found');
+    });
+});
@@ -0,0 +1,92 @@
+import process from "node:process";
+import { pidIsValid } from "./ProcessCpuReader.js";
+import { readTaskStats } from "./tasks.js";
+
+interface ThreadCpuReaderOptions {
+    log?: 'silent' | 'debug';
+    pid?: number;
+    procRoot?: string; // default '/proc'
+}
+
+export interface ThreadCpuEntry {
+    tid: number;
+    comm: string | null; // thread name, e.g. "node", "libuv-worker", "V8 DefaultWorke"
+    starttime: bigint;
+    deltaActive: bigint;
+}
+
+export interface ThreadCpuSample {
+    ok: true;
+    primed: boolean;
+    pid: number;
+    cpuTicks: {
+        unit: "jiffies";
+        deltaActive: bigint; // sum over threads
+    };
+    threads: ThreadCpuEntry[];
+}
+
+/**
+ * ThreadCpuReader reads utime+stime of every thread of a process (/proc/<pid>/task/<tid>/stat).
+ * Baselines are keyed by tid+starttime: a thread born during the tick counts all its ticks,
+ * a thread that exited keeps what was already counted (its last partial tick is lost).
+ * The first sample only primes the baselines.
+ */
+export class ThreadCpuReader {
+    log: 'silent' | 'debug';
+    pid: number;
+    procRoot: string;
+    private baselines = new Map<string, bigint>(); // `${tid}:${starttime}` => utime + stime
+    private primed = false;
+
+    constructor(options: ThreadCpuReaderOptions = {}) {
+        this.log = options.log ?? 'silent';
+        this.pid = options.pid ?? -1;
+        if (!pidIsValid(this.pid)) {
+            throw new Error(`Invalid PID: ${this.pid}`);
+        }
+        this.procRoot = options.procRoot ?? '/proc';
+    }
+
+    async sample(): Promise<ThreadCpuSample | { ok: false; error: string; }> {
+        const taskStats = await readTaskStats(this.pid, this.procRoot);
+        if (!taskStats.ok) {
+            return {
+                ok: false,
+                error: taskStats.error ?? "task_stat_read_failure",
+            };
+        }
+
+        const baselines = new Map<string, bigint>();
+        const threads: ThreadCpuEntry[] = [];
+        let deltaActive = 0n;
+
+        for (const task of taskStats.tasks) {
+            const starttime = task.starttime ?? 0n;
+            const key = `${task.tid}:${starttime}`;
+            const current = (task.utime ?? 0n) + (task.stime ?? 0n);
+            let delta = this.primed ? current - (this.baselines.get(key) ?? 0n) : 0n;
+            if (delta < 0n) delta = 0n;
+
+            baselines.set(key, current);
+            deltaActive += delta;
+            threads.push({ tid: task.tid, comm: task.comm, starttime, deltaActive: delta });
+        }
+
+        const primed = this.primed;
+        this.baselines = baselines;
+        this.primed = true;
+
+        if (this.log === 'debug') {
+            process.stdout.write(`ThreadCpuReader: ${threads.length} threads, delta=${deltaActive}\n`);
+        }
+
+        return {
+            ok: true,
+            primed,
+            pid: this.pid,
+            cpuTicks: { unit: "jiffies", deltaActive },
+            threads,
+        };
+    }
+}
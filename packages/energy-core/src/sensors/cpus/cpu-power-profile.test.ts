@@ -0,0 +1,93 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import { join } from "node:path";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { loadCpuPowerDataset, lookupCpuPowerProfile, matchCpuModel, normalizeCpuModel, parseCpuPowerCsv, readCpuModel } from "./cpu-power-profile.js";
+
+const DATASET = parseCpuPowerCsv([
+    '# vendor TDP, 2024',
+    'Name,TDP',
+    'Intel Core i7-8550U,15',
+    'Intel Core i7-8650U,15',
+    'Intel Xeon E5-2680 v3,120',
+    'Intel Xeon E5-2680 v4,120',
+    'AMD Ryzen 7 5800X,105',
+    'AMD Ryzen 9 5950X,105',
+    '',
+    'Broken,abc',
+].join('\n'));
+
+test('cpu power profile test suite', async (t) => {
+    const tmp = await mkdtemp(join(os.tmpdir(), 'cpu-power-'));
+
+    t.after(async () => {
+        await rm(tmp, { recursive: true, force: true });
+    });
+
+    await t.test('parseCpuPowerCsv - skips comments, header and invalid rows', () => {
+        assert.strictEqual(DATASET.length, 6);
+        assert.deepStrictEqual(DATASET[0], { name: 'Intel Core i7-8550U', tdpWatts: 15 });
+    });
+
+    await t.test('normalizeCpuModel - strips vendor marks, frequency and core count', () => {
+        assert.strictEqual(normalizeCpuModel('Intel(R) Core(TM) i7-8650U CPU @ 1.90GHz'), 'intel core i7-8650u');
+        assert.strictEqual(normalizeCpuModel('AMD Ryzen 9 5950X 16-Core Processor'), 'amd ryzen 9 5950x');
+        assert.strictEqual(normalizeCpuModel('Intel(R) Xeon(R) CPU E5-2680 v4 @ 2.40GHz'), 'intel xeon e5-2680 v4');
+    });
+
+    await t.test('matchCpuModel - exact and fuzzy matches', () => {
+        const exact = matchCpuModel('Intel(R) Core(TM) i7-8650U CPU @ 1.90GHz', DATASET);
+        assert.strictEqual(exact?.name, 'Intel Core i7-8650U');
+        assert.strictEqual(exact?.confidence, 1);
+
+        // v2 not in the dataset: closest generation, lower confidence
+        const generation = matchCpuModel('Intel(R) Xeon(R) CPU E5-2680 v2 @ 2.80GHz', DATASET);
+        assert.strictEqual(generation?.tdpWatts, 120);
+        assert.ok(generation!.confidence < 1 && generation!.confidence >= 0.5);
+
+        // same model number, other suffix
+        const suffix = matchCpuModel('AMD Ryzen 7 5800X3D 8-Core Processor', DATASET);
+        assert.strictEqual(suffix?.name, 'AMD Ryzen 7 5800X');
+        assert.ok(suffix!.confidence < generation!.confidence);
+
+        // another model number is never matched
+        assert.strictEqual(matchCpuModel('Intel(R) Core(TM) i7-8700 CPU @ 3.20GHz', DATASET), null);
+        assert.strictEqual(matchCpuModel('Neoverse-N1', DATASET), null);
+    });
+
+    await t.test('readCpuModel - first model name, null on ARM', async () => {
+        const x86 = join(tmp, 'cpuinfo-x86');
+        await writeFile(x86, 'processor\t: 0\nvendor_id\t: AuthenticAMD\nmodel name\t: AMD Ryzen 9 5950X 16-Core Processor\n\nprocessor\t: 1\nmodel name\t: AMD Ryzen 9 5950X 16-Core Processor\n');
+        assert.strictEqual(await readCpuModel(x86), 'AMD Ryzen 9 5950X 16-Core Processor');
+
+        const arm = join(tmp, 'cpuinfo-arm');
+        await writeFile(arm, 'processor\t: 0\nBogoMIPS\t: 50.00\nCPU implementer\t: 0x41\n');
+        assert.strictEqual(await readCpuModel(arm), null);
+        assert.strictEqual(await readCpuModel(join(tmp, 'missing')), null);
+    });
+
+    await t.test('lookupCpuPowerProfile - reads cpuinfo and the dataset', async () => {
+        const cpuinfoPath = join(tmp, 'cpuinfo');
+        const datasetPath = join(tmp, 'cpu-power.csv');
+        await writeFile(cpuinfoPath, 'model name\t: Intel(R) Core(TM) i7-8550U CPU @ 1.80GHz\n');
+        await writeFile(datasetPath, 'Name,TDP\nIntel Core i7-8550U,15\n');
+
+        const found = await lookupCpuPowerProfile({ cpuinfoPath, datasetPath });
+        assert.strictEqual(found.ok, true);
+        assert.strictEqual(found.ok && found.match.tdpWatts, 15);
+
+        await writeFile(cpuinfoPath, 'model name\t: Intel(R) Core(TM) i3-2100 CPU @ 3.10GHz\n');
+        const unknown = await lookupCpuPowerProfile({ cpuinfoPath, datasetPath });
+        assert.deepStrictEqual(unknown, { ok: false, model: 'Intel(R) Core(TM) i3-2100 CPU @ 3.10GHz', error: 'no_matching_cpu_model' });
+
+        const noDataset = await lookupCpuPowerProfile({ cpuinfoPath, datasetPath: join(tmp, 'missing.csv') });
+        assert.strictEqual(noDataset.ok, false);
+    });
+
+    await t.test('bundled dataset - loads and matches', async () => {
+        const dataset = await loadCpuPowerDataset();
+        assert.ok(dataset.length > 0);
+        assert.strictEqual(matchCpuModel('AMD EPYC 7763 64-Core Processor', dataset)?.tdpWatts, 280);
+    });
+});
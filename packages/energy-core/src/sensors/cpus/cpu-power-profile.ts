@@ -0,0 +1,146 @@
+import { readFile } from "node:fs/promises";
+import { extractErrorCode, reasonFromCode } from "@nodefootprint/shared";
+import { repoDataPath } from "../../utils/data-path.js";
+
+const DEFAULT_CPUINFO_PATH = '/proc/cpuinfo';
+// <repo>/data/cpu-power.csv: hand-picked subset in codecarbon's layout (Name,TDP), see data/README.md
+const DEFAULT_DATASET_PATH = repoDataPath('cpu-power.csv');
+
+const MIN_CONFIDENCE = 0.5;
+// same model number, different suffix (5800X3D vs 5800X, 6248R vs 6248)
+const SUFFIX_MISMATCH_PENALTY = 0.7;
+
+export interface CpuPowerEntry {
+    name: string;
+    tdpWatts: number;
+}
+
+export interface CpuModelMatch {
+    model: string;      // model name read from /proc/cpuinfo
+    name: string;       // matched dataset entry
+    tdpWatts: number;
+    confidence: number; // 0..1
+}
+
+export type CpuPowerLookupResult =
+    | { ok: true, match: CpuModelMatch }
+    | { ok: false, model: string | null, error: string };
+
+/**
+ * Parses a `Name,TDP` csv. The name may contain commas: the TDP is the last column.
+ * Header, `#` comments, blank lines and rows without a positive TDP are skipped.
+ */
+export function parseCpuPowerCsv(raw: string): CpuPowerEntry[] {
+    const entries: CpuPowerEntry[] = [];
+    for (const line of raw.split('\n')) {
+        if (line.startsWith('#')) continue;
+        const separator = line.lastIndexOf(',');
+        if (separator <= 0) continue;
+        const name = line.slice(0, separator).trim().replace(/^"|"$/g, '');
+        const tdpWatts = Number(line.slice(separator + 1).trim());
+        if (!name || !Number.isFinite(tdpWatts) || tdpWatts <= 0) continue;
+        entries.push({ name, tdpWatts });
+    }
+    return entries;
+}
+
+export async function loadCpuPowerDataset(datasetPath: string = DEFAULT_DATASET_PATH): Promise<CpuPowerEntry[]> {
+    return parseCpuPowerCsv(await readFile(datasetPath, 'utf8'));
+}
+
+/**
+ * "Intel(R) Core(TM) i7-8650U CPU @ 1.90GHz" => "intel core i7-8650u"
+ * "AMD Ryzen 9 5950X 16-Core Processor"     => "amd ryzen 9 5950x"
+ */
+export function normalizeCpuModel(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/\((r|tm|c)\)/g, ' ')
+        .replace(/@.*$/, ' ')
+        .replace(/\bwith radeon.*$/, ' ')
+        .replace(/\b\d+-core\b/g, ' ')
+        .replace(/\b(cpu|processor)\b/g, ' ')
+        .replace(/[^a-z0-9+\- ]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// first token carrying a model number ("i7-8650u", "5950x", "e5-2680")
+function modelNumberToken(tokens: string[]): string | null {
+    return tokens.find((token) => /\d{3,}/.test(token)) ?? null;
+}
+
+/**
+ * Fuzzy match of a cpu model against the dataset.
+ * Candidates must share the model number; the score is the Dice coefficient of the
+ * normalized tokens, lowered when only the digits of the model number match.
+ * Returns the best candidate above `minConfidence`, or null.
+ */
+export function matchCpuModel(model: string, dataset: CpuPowerEntry[], minConfidence: number = MIN_CONFIDENCE): CpuModelMatch | null {
+    const tokens = normalizeCpuModel(model).split(' ').filter(Boolean);
+    const modelToken = modelNumberToken(tokens);
+    if (!modelToken) return null;
+    const modelDigits = modelToken.match(/\d{3,}/)![0];
+
+    let best: CpuModelMatch | null = null;
+    for (const entry of dataset) {
+        const candidate = normalizeCpuModel(entry.name).split(' ').filter(Boolean);
+        const candidateToken = modelNumberToken(candidate);
+        if (!candidateToken) continue;
+
+        let factor: number;
+        if (candidateToken === modelToken) {
+            factor = 1;
+        } else if (candidateToken.match(/\d{3,}/)![0] === modelDigits) {
+            factor = SUFFIX_MISMATCH_PENALTY;
+        } else {
+            continue;
+        }
+
+        const shared = candidate.filter((token) => tokens.includes(token)).length;
+        const confidence = factor * (2 * shared) / (tokens.length + candidate.length);
+        if (confidence >= minConfidence && (!best || confidence > best.confidence)) {
+            best = { model, name: entry.name, tdpWatts: entry.tdpWatts, confidence };
+        }
+    }
+    return best;
+}
+
+/**
+ * First "model name" of /proc/cpuinfo (x86), null when not exposed (most ARM kernels).
+ */
+export async function readCpuModel(cpuinfoPath: string = DEFAULT_CPUINFO_PATH): Promise<string | null> {
+    try {
+        const raw = await readFile(cpuinfoPath, 'utf8');
+        const line = raw.split('\n').find((l) => /^model name\s*:/.test(l));
+        const model = line?.slice(line.indexOf(':') + 1).trim();
+        return model ? model : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reads the cpu model and looks its TDP up in the bundled dataset. Never throws.
+ * @param options.cpuinfoPath  default '/proc/cpuinfo'
+ * @param options.datasetPath  default '<repo>/data/cpu-power.csv'
+ */
+export async function lookupCpuPowerProfile(options: { cpuinfoPath?: string, datasetPath?: string } = {}): Promise<CpuPowerLookupResult> {
+    const model = await readCpuModel(options.cpuinfoPath);
+    if (!model) {
+        return { ok: false, model: null, error: 'cpu_model_not_found' };
+    }
+
+    let dataset: CpuPowerEntry[];
+    try {
+        dataset = await loadCpuPowerDataset(options.datasetPath);
+    } catch (error) {
+        return { ok: false, model, error: reasonFromCode(extractErrorCode(error)) ?? 'error_accessing_file' };
+    }
+
+    const match = matchCpuModel(model, dataset);
+    if (!match) {
+        return { ok: false, model, error: 'no_matching_cpu_model' };
+    }
+    return { ok: true, match };
+}
@@ -0,0 +1,81 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { extractErrorCode, reasonFromCode } from "@nodefootprint/shared";
+
+const DEFAULT_CPU_BASE_PATH = '/sys/devices/system/cpu';
+
+export interface CpuTopology {
+    ok: boolean;
+    error?: string | null;
+    packageByCpu: Map<number, number>; // logical cpu id => physical_package_id
+    packageIds: number[];              // sorted, unique
+}
+
+/**
+ * Reads the socket layout from sysfs (cpuN/topology/physical_package_id).
+ * Offline or unreadable CPUs are skipped; never throws.
+ * @param basePath  Root of the cpu devices (default: '/sys/devices/system/cpu')
+ */
+export async function readCpuTopology(basePath: string = DEFAULT_CPU_BASE_PATH): Promise<CpuTopology> {
+    const packageByCpu = new Map<number, number>();
+    let entries: string[];
+    try {
+        entries = await readdir(basePath);
+    } catch (error) {
+        const code = extractErrorCode(error);
+        return { ok: false, error: reasonFromCode(code) ?? 'error_accessing_file', packageByCpu, packageIds: [] };
+    }
+
+    await Promise.all(entries
+        .filter((entry) => /^cpu\d+$/.test(entry))
+        .map(async (entry) => {
+            try {
+                const raw = await readFile(join(basePath, entry, 'topology', 'physical_package_id'), 'utf8');
+                const packageId = Number(raw.trim());
+                if (Number.isInteger(packageId) && packageId >= 0) {
+                    packageByCpu.set(Number(entry.slice(3)), packageId);
+                }
+            } catch {
+                // cpu offline or topology not exposed
+            }
+        }));
+
+    if (packageByCpu.size === 0) {
+        return { ok: false, error: 'no_topology_found', packageByCpu, packageIds: [] };
+    }
+
+    const packageIds = [...new Set(packageByCpu.values())].sort((a, b) => a - b);
+    return { ok: true, error: null, packageByCpu, packageIds };
+}
+
+/**
+ * Expands a kernel cpu list ("0-3,8,10-11") into cpu ids; invalid ranges are skipped.
+ */
+export function parseCpuList(list: string): number[] {
+    const cpus = new Set<number>();
+    for (const part of list.trim().split(',')) {
+        if (!/^\s*\d+(-\d+)?\s*$/.test(part)) continue;
+        const [start, end = start] = part.trim().split('-').map(Number);
+        if (!Number.isInteger(start) || !Number.isInteger(end) || end < start) continue;
+        for (let cpu = start; cpu <= end; cpu++) cpus.add(cpu);
+    }
+    return [...cpus].sort((a, b) => a - b);
+}
+
+/**
+ * Number of CPUs a process may run on (Cpus_allowed_list of /proc/<pid>/status).
+ * Null when unreadable; never throws.
+ * @param pid       Target process id
+ * @param procRoot  procfs mount point (default: '/proc')
+ */
+export async function readAllowedCpuCount(pid: number, procRoot: string = '/proc'): Promise<number | null> {
+    try {
+        const status = await readFile(join(procRoot, String(pid), 'status'), 'utf8');
+        const line = status.split('\n').find((l) => l.startsWith('Cpus_allowed_list:'));
+        if (!line) return null;
+        const count = parseCpuList(line.slice('Cpus_allowed_list:'.length)).length;
+        return count > 0 ? count : null;
+    } catch {
+        return null;
+    }
+}
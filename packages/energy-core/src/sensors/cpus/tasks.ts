@@ -0,0 +1,62 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { extractErrorCode, reasonFromCode } from "@nodefootprint/shared";
+import { parsePidStatFile, ProcessStatSnapshot } from "./ProcessCpuReader.js";
+
+export interface TaskStat extends ProcessStatSnapshot {
+    tid: number;
+}
+
+export interface TaskStatsResult {
+    ok: boolean;
+    error?: string | null;
+    tasks: TaskStat[];
+}
+
+/**
+ * Thread name from /proc/<pid>/task/<tid>/comm, null when unreadable.
+ */
+async function readTaskComm(file: string): Promise<string | null> {
+    try {
+        const comm = (await readFile(file, 'utf8')).trim();
+        return comm || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reads /proc/<pid>/task/<tid>/stat (and comm) for every thread of a process.
+ * Threads that exit between readdir and read are silently dropped.
+ * @param pid       Target process id
+ * @param procRoot  procfs mount point (default: '/proc')
+ */
+export async function readTaskStats(pid: number, procRoot: string = '/proc'): Promise<TaskStatsResult> {
+    const taskRoot = join(procRoot, String(pid), 'task');
+    let tids: string[];
+    try {
+        tids = await readdir(taskRoot);
+    } catch (error) {
+        const code = extractErrorCode(error);
+        return { ok: false, error: reasonFromCode(code) ?? 'error_accessing_file', tasks: [] };
+    }
+
+    const snapshots = await Promise.all(tids
+        .filter((tid) => /^\d+$/.test(tid))
+        .map(async (tid) => {
+            const [stat, comm] = await Promise.all([
+                parsePidStatFile(join(taskRoot, tid, 'stat')),
+                readTaskComm(join(taskRoot, tid, 'comm')),
+            ]);
+            return { tid: Number(tid), stat, comm };
+        }));
+
+    const tasks = snapshots
+        .filter(({ stat }) => stat.ok)
+        .map(({ tid, stat, comm }) => ({ ...stat, comm: comm ?? stat.comm, tid }));
+
+    if (tasks.length === 0) {
+        return { ok: false, error: 'no_task_found', tasks };
+    }
+    return { ok: true, error: null, tasks };
+}
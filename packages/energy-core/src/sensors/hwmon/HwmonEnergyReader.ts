@@ -0,0 +1,158 @@
+import { readFile } from "node:fs/promises";
+import * as readline from "node:readline";
+import { clampDt } from "../../timers/timing.js";
+import type { RaplPackageSample, RaplSample } from "../rapl/RaplReader.js";
+import type { HwmonProbeResult, HwmonSensorInfo } from "./hwmon-probe.js";
+
+export interface HwmonEnergyReaderOptions {
+    probe?: HwmonProbeResult;
+    log?: 'silent' | 'debug';
+}
+
+interface HwmonSensorState {
+    sensor: HwmonSensorInfo;
+    last: bigint | null; // µJ (energy) or µW (power)
+}
+
+async function readValue(file: string): Promise<bigint | null> {
+    try {
+        const raw = await readFile(file, { encoding: "utf-8" });
+        return BigInt(raw.trim());
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * HwmonEnergyReader reads the sensors selected by `hwmonProbe`:
+ * - energy counters (µJ) => delta between two samples, a counter going backwards is a reset (0 J);
+ * - power gauges (µW) => integrated over the measured dt, capped at 5 s (trapezoid between two readings).
+ * Same sample contract as RaplReader (first sample primes), one `packages` entry per sensor.
+ */
+export class HwmonEnergyReader {
+    public readonly mode = 'hwmon';
+
+    private sensors: HwmonSensorState[] | null = null;
+    private lastNs: bigint | null = null;
+    private log: 'silent' | 'debug';
+    private probeStatus: string | null = null;
+    private probeHints: string | null = null;
+
+    constructor(options: HwmonEnergyReaderOptions) {
+        const { probe, log } = options;
+        this.log = log ?? 'silent';
+
+        if (!probe) {
+            this.probeStatus = 'NO_PROBE';
+            this.probeHints = 'no probe data provided';
+            return;
+        }
+
+        this.probeStatus = probe.status;
+        this.probeHints = probe.hint ?? null;
+
+        const selected = probe.sensors.filter((s) => s.selected);
+        if (probe.status !== 'OK' || selected.length === 0) {
+            this.probeHints = probe.hint ?? 'hwmon probe failed';
+            return;
+        }
+
+        this.sensors = selected.map((sensor) => ({ sensor, last: null }));
+    }
+
+    get status() {
+        return this.probeStatus;
+    }
+
+    get hint() {
+        return this.probeHints;
+    }
+
+    get isReady(): boolean {
+        return this.sensors !== null;
+    }
+
+    async sample(nowNs: bigint): Promise<RaplSample | null> {
+        if (!this.sensors) {
+            return null;
+        }
+
+        const readings = await Promise.all(this.sensors.map(async (state) => ({ state, current: await readValue(state.sensor.file) })));
+
+        // --- 1) first measure : priming ---
+        if (this.lastNs === null) {
+            this.lastNs = nowNs;
+            for (const { state, current } of readings) {
+                state.last = current;
+            }
+            return {
+                ok: readings.some((r) => r.current !== null),
+                primed: false,
+                internalClampedDt: 0,
+                deltaUj: 0,
+                deltaJ: 0,
+                packages: readings.map(({ state, current }) => this.toPackageSample(state.sensor, 0, current !== null)),
+                domains: [],
+                wraps: 0,
+            };
+        }
+
+        if (this.log === "debug" && process.stdout.isTTY) {
+            readline.clearLine(process.stdout, 0);
+            readline.cursorTo(process.stdout, 0);
+            process.stdout.write(`hwmon sample at ${nowNs.toString()} ns`);
+        }
+
+        // measured dt, no 0.2 s floor: a power gauge integrated over a floored dt over-reports short ticks
+        const internalClampedDt = clampDt(Number(nowNs - this.lastNs) / 1e9, 0);
+        this.lastNs = nowNs;
+
+        let totalDeltaUj = 0;
+        let primed = false;
+        const packages: RaplPackageSample[] = [];
+
+        for (const { state, current } of readings) {
+            if (current === null) {
+                packages.push(this.toPackageSample(state.sensor, 0, false));
+                continue;
+            }
+
+            let deltaUj = 0;
+            if (state.last !== null) {
+                primed = true;
+                if (state.sensor.kind === 'energy') {
+                    const delta = current - state.last;
+                    deltaUj = delta > 0n ? Number(delta) : 0;
+                } else {
+                    // µW × s = µJ
+                    deltaUj = ((Number(state.last) + Number(current)) / 2) * internalClampedDt;
+                }
+            }
+            state.last = current;
+            totalDeltaUj += deltaUj;
+            packages.push(this.toPackageSample(state.sensor, deltaUj, true));
+        }
+
+        return {
+            ok: packages.some((p) => p.ok),
+            primed,
+            internalClampedDt,
+            deltaUj: totalDeltaUj,
+            deltaJ: totalDeltaUj / 1e6,
+            packages,
+            domains: [],
+            wraps: 0,
+        };
+    }
+
+    private toPackageSample(sensor: HwmonSensorInfo, deltaUj: number, ok: boolean): RaplPackageSample {
+        return {
+            node: `${sensor.node}/${sensor.label ?? sensor.channel}`,
+            path: sensor.file,
+            deltaUj,
+            deltaJ: deltaUj / 1e6,
+            wraps: 0,
+            ok,
+        };
+    }
+}
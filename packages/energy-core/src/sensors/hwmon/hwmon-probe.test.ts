@@ -0,0 +1,101 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import { join } from "node:path";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { hwmonProbe } from "./hwmon-probe.js";
+import { HwmonEnergyReader } from "./HwmonEnergyReader.js";
+import { createEnergyReader } from "../rapl/energyReader.js";
+import { createHwmonDevice, nowNs } from "../../utils/test-utils.js";
+
+test('hwmonProbe test suite', async (t) => {
+    const tmp = await mkdtemp(join(os.tmpdir(), 'hwmon-'));
+
+    t.after(async () => {
+        await rm(tmp, { recursive: true, force: true });
+    });
+
+    await t.test('FAILED when the hwmon class is missing or has no sensor', async () => {
+        assert.strictEqual((await hwmonProbe(join(tmp, 'missing'))).status, 'FAILED');
+
+        const base = join(tmp, 'empty');
+        await createHwmonDevice(base, 'hwmon0', 'k10temp', { temp1_input: 42000 });
+        const result = await hwmonProbe(base);
+        assert.strictEqual(result.status, 'FAILED');
+        assert.deepStrictEqual(result.sensors, []);
+    });
+
+    await t.test('amd_energy: socket counters selected, per-core counters ignored', async () => {
+        const base = join(tmp, 'amd');
+        await createHwmonDevice(base, 'hwmon2', 'amd_energy', {
+            energy1_input: 1000, energy1_label: 'Ecore000',
+            energy2_input: 2000, energy2_label: 'Ecore001',
+            energy3_input: 5000, energy3_label: 'Esocket0',
+        });
+        // power meters are not mixed with energy counters
+        await createHwmonDevice(base, 'hwmon3', 'acpi_power_meter', { power1_average: 90_000_000 });
+
+        const result = await hwmonProbe(base);
+        assert.strictEqual(result.status, 'OK');
+        assert.strictEqual(result.kind, 'energy');
+        assert.deepStrictEqual(result.sensors.filter((s) => s.selected).map((s) => s.label), ['Esocket0']);
+        assert.strictEqual(result.sensors.length, 4);
+    });
+
+    await t.test('power meter: powerN_average preferred over powerN_input', async () => {
+        const base = join(tmp, 'acpi');
+        await createHwmonDevice(base, 'hwmon0', 'acpi_power_meter', { power1_average: 80_000_000, power1_input: 1 });
+
+        const result = await hwmonProbe(base);
+        assert.strictEqual(result.status, 'OK');
+        assert.strictEqual(result.kind, 'power');
+        assert.deepStrictEqual(result.sensors.map((s) => [s.channel, s.file.endsWith('power1_average'), s.selected]), [['power1', true, true]]);
+    });
+
+    await t.test('HwmonEnergyReader - energy counter deltas', async () => {
+        const base = join(tmp, 'reader-energy');
+        const device = await createHwmonDevice(base, 'hwmon0', 'amd_energy', { energy1_input: 1_000_000, energy1_label: 'Esocket0' });
+        const reader = new HwmonEnergyReader({ probe: await hwmonProbe(base) });
+        assert.strictEqual(reader.isReady, true);
+        assert.strictEqual(reader.mode, 'hwmon');
+
+        const first = await reader.sample(nowNs(0));
+        assert.strictEqual(first?.primed, false);
+
+        await writeFile(join(device, 'energy1_input'), '3500000\n');
+        const second = await reader.sample(nowNs(1));
+        assert.strictEqual(second?.primed, true);
+        assert.strictEqual(second?.deltaJ, 2.5);
+        assert.strictEqual(second?.packages[0].node, 'hwmon0/Esocket0');
+    });
+
+    await t.test('HwmonEnergyReader - power gauges integrated over internalClampedDt', async () => {
+        const base = join(tmp, 'reader-power');
+        const device = await createHwmonDevice(base, 'hwmon0', 'ina3221', { power1_input: 2_000_000 });
+        const reader = new HwmonEnergyReader({ probe: await hwmonProbe(base) });
+
+        await reader.sample(nowNs(0));
+        await writeFile(join(device, 'power1_input'), '4000000\n');
+        const sample = await reader.sample(nowNs(2));
+        assert.strictEqual(sample?.internalClampedDt, 2);
+        // (2 W + 4 W) / 2 × 2 s
+        assert.strictEqual(sample?.deltaJ, 6);
+
+        // short tick: 100 ms integrated as 100 ms, not the 0.2 s floor of the other readers
+        const short = await reader.sample(nowNs(2.1));
+        assert.ok(Math.abs(short!.internalClampedDt - 0.1) < 1e-9);
+        assert.ok(Math.abs(short!.deltaJ - 0.4) < 1e-9);
+    });
+
+    await t.test('createEnergyReader - RAPL, then hwmon, then empirical', async () => {
+        const base = join(tmp, 'factory');
+        await createHwmonDevice(base, 'hwmon0', 'acpi_power_meter', { power1_average: 50_000_000 });
+        const raplFailed = { status: 'FAILED' as const, packages: [] };
+
+        const hwmonReader = createEnergyReader({ probe: raplFailed, hwmonProbe: await hwmonProbe(base) });
+        assert.strictEqual(hwmonReader.mode, 'hwmon');
+
+        const fallbackReader = createEnergyReader({ probe: raplFailed, hwmonProbe: await hwmonProbe(join(tmp, 'missing')), fallback: { tdpWatts: 65 } });
+        assert.strictEqual(fallbackReader.mode, 'fallback');
+    });
+});
@@ -0,0 +1,125 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { accessReadable } from "@nodefootprint/shared";
+
+
+type HwmonStatus = 'OK' | 'DEGRADED' | 'FAILED';
+export type HwmonSensorKind = 'energy' | 'power';
+
+export interface HwmonSensorInfo {
+  node: string;         // "hwmon3"
+  path: string;         // "/sys/class/hwmon/hwmon3"
+  name: string;         // driver, content of "name" (amd_energy, acpi_power_meter, ina3221...)
+  channel: string;      // "energy1", "power1"
+  kind: HwmonSensorKind; // energy => µJ counter, power => µW gauge
+  label: string | null; // content of "<channel>_label" (ex: "Esocket0")
+  file: string;         // energyN_input, powerN_average or powerN_input
+  hasReadable: boolean;
+  reason: string | null;
+  selected: boolean;    // summed by HwmonEnergyReader
+}
+
+export interface HwmonProbeResult {
+  status: HwmonStatus;
+  kind?: HwmonSensorKind;  // kind of the selected sensors
+  sensors: HwmonSensorInfo[];
+  hint?: string | null;
+}
+
+const DEFAULT_BASE_PATH = '/sys/class/hwmon';
+
+const ENERGY_FILE = /^(energy\d+)_input$/;
+const POWER_FILE = /^(power\d+)_(average|input)$/;
+
+/**
+ * Channels to sum for one device, so that nested sensors are not counted twice:
+ * amd_energy exposes per-core (Ecore*) and per-socket (Esocket*) counters, only sockets are kept.
+ */
+function selectDeviceChannels(sensors: HwmonSensorInfo[]): HwmonSensorInfo[] {
+  const sockets = sensors.filter((s) => s.label !== null && /socket|package/i.test(s.label));
+  return sockets.length > 0 ? sockets : sensors;
+}
+
+/**
+ * Probes `/sys/class/hwmon/hwmon*` for energy counters (`energyN_input`, µJ: amd_energy...)
+ * and power gauges (`powerN_average`/`powerN_input`, µW: acpi_power_meter, INA2xx/INA3221 on ARM boards).
+ *
+ * Energy counters are preferred over power gauges: both are never mixed, since a
+ * platform power meter already includes what a CPU energy counter reports.
+ * Like `raplProbe`, it never throws:
+ *
+ * - `"OK"`: at least one selected sensor is readable;
+ * - `"DEGRADED"`: sensors were found but none is readable (permissions ?);
+ * - `"FAILED"`: no energy/power sensor, or `basePath` is missing.
+ *
+ * @param basePath Root of the hwmon class (default `/sys/class/hwmon`), overridable for tests.
+ */
+export async function hwmonProbe(basePath: string = DEFAULT_BASE_PATH): Promise<HwmonProbeResult> {
+  let devices: string[];
+  try {
+    devices = (await fs.readdir(basePath)).filter((entry) => entry.startsWith('hwmon')).sort();
+  } catch {
+    return { status: 'FAILED', sensors: [], hint: `${basePath} not found` };
+  }
+
+  const byDevice: HwmonSensorInfo[][] = [];
+
+  for (const node of devices) {
+    const devicePath = path.join(basePath, node);
+    const [name, files] = await Promise.all([
+      fs.readFile(path.join(devicePath, 'name'), 'utf-8').then((n) => n.trim()).catch(() => node),
+      fs.readdir(devicePath).catch(() => [] as string[]),
+    ]);
+
+    const sensors: HwmonSensorInfo[] = [];
+    for (const file of files.sort()) {
+      const energy = ENERGY_FILE.exec(file);
+      const power = POWER_FILE.exec(file);
+      const channel = energy?.[1] ?? power?.[1];
+      if (!channel) continue;
+      // powerN_average wins over powerN_input for the same channel
+      if (power && power[2] === 'input' && files.includes(`${channel}_average`)) continue;
+
+      const filePath = path.join(devicePath, file);
+      const [readable, label] = await Promise.all([
+        accessReadable(filePath),
+        fs.readFile(path.join(devicePath, `${channel}_label`), 'utf-8').then((l) => l.trim()).catch(() => null),
+      ]);
+
+      sensors.push({
+        node,
+        path: devicePath,
+        name,
+        channel,
+        kind: energy ? 'energy' : 'power',
+        label,
+        file: filePath,
+        hasReadable: readable.ok,
+        reason: readable.ok ? null : readable.error,
+        selected: false,
+      });
+    }
+    if (sensors.length > 0) byDevice.push(sensors);
+  }
+
+  const sensors = byDevice.flat();
+  if (sensors.length === 0) {
+    return { status: 'FAILED', sensors, hint: `No hwmon energy/power sensor found in ${basePath}` };
+  }
+
+  const kind: HwmonSensorKind = sensors.some((s) => s.kind === 'energy' && s.hasReadable) ? 'energy' : 'power';
+  for (const device of byDevice) {
+    const candidates = device.filter((s) => s.kind === kind && s.hasReadable);
+    for (const sensor of selectDeviceChannels(candidates)) {
+      sensor.selected = true;
+    }
+  }
+
+  const anySelected = sensors.some((s) => s.selected);
+  return {
+    status: anySelected ? 'OK' : 'DEGRADED',
+    kind,
+    sensors,
+    hint: anySelected ? null : 'hwmon sensors found but not readable (permission denied ?)',
+  };
+}
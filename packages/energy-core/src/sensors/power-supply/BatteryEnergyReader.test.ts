@@ -0,0 +1,91 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import { join } from "node:path";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { batteryProbe } from "./battery-probe.js";
+import { BatteryEnergyReader } from "./BatteryEnergyReader.js";
+import { createEnergyReader } from "../rapl/energyReader.js";
+import { createPowerSupply, nowNs } from "../../utils/test-utils.js";
+
+test('BatteryEnergyReader test suite', async (t) => {
+    const tmp = await mkdtemp(join(os.tmpdir(), 'power-supply-'));
+
+    t.after(async () => {
+        await rm(tmp, { recursive: true, force: true });
+    });
+
+    await t.test('batteryProbe - FAILED without battery', async () => {
+        const base = join(tmp, 'desktop');
+        await createPowerSupply(base, 'AC', { type: 'Mains', online: 1 });
+        const probe = await batteryProbe(base);
+        assert.strictEqual(probe.status, 'FAILED');
+        assert.strictEqual(probe.acOnline, true);
+        assert.strictEqual((await batteryProbe(join(tmp, 'missing'))).status, 'FAILED');
+    });
+
+    await t.test('batteryProbe - picks the best power source', async () => {
+        const base = join(tmp, 'sources');
+        await createPowerSupply(base, 'BAT0', { type: 'Battery', status: 'Discharging', current_now: 1_000_000, voltage_now: 12_000_000, energy_now: 40_000_000 });
+        await createPowerSupply(base, 'BAT1', { type: 'Battery', status: 'Discharging', power_now: 5_000_000 });
+        const probe = await batteryProbe(base);
+        assert.strictEqual(probe.status, 'OK');
+        assert.strictEqual(probe.acOnline, null);
+        assert.deepStrictEqual(probe.batteries.map((b) => [b.node, b.powerSource]), [['BAT0', 'current_voltage'], ['BAT1', 'power_now']]);
+    });
+
+    await t.test('sample - integrates power_now over the tick', async () => {
+        const base = join(tmp, 'laptop');
+        const ac = await createPowerSupply(base, 'AC', { type: 'Mains', online: 0 });
+        const bat = await createPowerSupply(base, 'BAT0', { type: 'Battery', status: 'Discharging', power_now: 10_000_000 });
+
+        const reader = new BatteryEnergyReader({ probe: await batteryProbe(base) });
+        assert.strictEqual(reader.isReady, true);
+        assert.strictEqual(reader.mode, 'battery');
+
+        const first = await reader.sample(nowNs(0));
+        assert.strictEqual(first?.primed, false);
+
+        await writeFile(join(bat, 'power_now'), '14000000\n');
+        const second = await reader.sample(nowNs(1));
+        assert.strictEqual(second?.ok, true);
+        assert.strictEqual(second?.primed, true);
+        assert.strictEqual(second?.deltaJ, 12); // (10 W + 14 W) / 2 × 1 s
+
+        // 100 ms tick integrated over 100 ms, not the 0.2 s floor
+        const short = await reader.sample(nowNs(1.1));
+        assert.ok(Math.abs(short!.deltaJ - 1.4) < 1e-9);
+
+        // AC plugged mid-run: the tick is flagged and not counted
+        await writeFile(join(ac, 'online'), '1\n');
+        const third = await reader.sample(nowNs(2));
+        assert.strictEqual(third?.ok, false);
+        assert.strictEqual(third?.deltaJ, 0);
+        assert.strictEqual(reader.acOnlineSamples, 1);
+    });
+
+    await t.test('sample - energy_now discharge in µWh', async () => {
+        const base = join(tmp, 'energy');
+        const bat = await createPowerSupply(base, 'BAT0', { type: 'Battery', status: 'Discharging', energy_now: 50_000_000 });
+        const reader = new BatteryEnergyReader({ probe: await batteryProbe(base) });
+        await reader.sample(nowNs(0));
+        await writeFile(join(bat, 'energy_now'), '49999000\n');
+        const sample = await reader.sample(nowNs(5));
+        assert.strictEqual(sample?.deltaJ, 1000 * 3600 / 1e6);
+    });
+
+    await t.test('refuses to start on AC, only selected with source=battery', async () => {
+        const base = join(tmp, 'plugged');
+        await createPowerSupply(base, 'AC', { type: 'Mains', online: 1 });
+        await createPowerSupply(base, 'BAT0', { type: 'Battery', status: 'Charging', power_now: 20_000_000 });
+        const probe = await batteryProbe(base);
+
+        const reader = createEnergyReader({ source: 'battery', batteryProbe: probe });
+        assert.strictEqual(reader.mode, 'battery');
+        assert.strictEqual(reader.isReady, false);
+        assert.strictEqual(reader.status, 'AC_ONLINE');
+
+        const auto = createEnergyReader({ batteryProbe: probe, fallback: { tdpWatts: 15 } });
+        assert.strictEqual(auto.mode, 'fallback');
+    });
+});
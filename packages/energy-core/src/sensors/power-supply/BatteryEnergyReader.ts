@@ -0,0 +1,199 @@
+import { readFile } from "node:fs/promises";
+import { clampDt } from "../../timers/timing.js";
+import type { RaplPackageSample, RaplSample } from "../rapl/RaplReader.js";
+import { readAcOnline, BatteryInfo, BatteryProbeResult } from "./battery-probe.js";
+
+export interface BatteryEnergyReaderOptions {
+    probe?: BatteryProbeResult;
+    log?: 'silent' | 'debug';
+}
+
+interface BatteryState {
+    battery: BatteryInfo;
+    last: number | null; // µW (power_now, current×voltage) or µWh (energy_now)
+}
+
+const JOULES_PER_UWH = 3600 / 1e6;
+
+async function readNumber(file: string): Promise<number | null> {
+    try {
+        const value = Number((await readFile(file, "utf-8")).trim());
+        return Number.isFinite(value) ? value : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Current reading of a battery: µW for power sources, µWh for energy_now.
+ * Some firmwares report discharge as a negative power: the absolute value is kept.
+ */
+async function readBattery(battery: BatteryInfo): Promise<number | null> {
+    switch (battery.powerSource) {
+        case 'power_now': {
+            const power = await readNumber(battery.files.powerNow);
+            return power === null ? null : Math.abs(power);
+        }
+        case 'current_voltage': {
+            const [current, voltage] = await Promise.all([readNumber(battery.files.currentNow), readNumber(battery.files.voltageNow)]);
+            return current === null || voltage === null ? null : Math.abs(current * voltage) / 1e6;
+        }
+        case 'energy_now':
+            return readNumber(battery.files.energyNow);
+        default:
+            return null;
+    }
+}
+
+/**
+ * BatteryEnergyReader measures whole-platform power (CPU, RAM, display...) from the battery discharge.
+ * Power readings are integrated over internalClampedDt (trapezoid), energy_now is differentiated.
+ * Only meaningful on battery: it refuses to start with AC connected, and ticks taken while
+ * AC is online (or the battery is not "Discharging") are flagged (ok=false, acOnlineSamples++).
+ */
+export class BatteryEnergyReader {
+    public readonly mode = 'battery';
+    public acOnlineSamples = 0;
+
+    private batteries: BatteryState[] | null = null;
+    private acSupplies: string[] = [];
+    private lastNs: bigint | null = null;
+    private log: 'silent' | 'debug';
+    private probeStatus: string | null = null;
+    private probeHints: string | null = null;
+
+    constructor(options: BatteryEnergyReaderOptions) {
+        const { probe, log } = options;
+        this.log = log ?? 'silent';
+
+        if (!probe) {
+            this.probeStatus = 'NO_PROBE';
+            this.probeHints = 'no probe data provided';
+            return;
+        }
+
+        this.probeStatus = probe.status;
+        this.probeHints = probe.hint ?? null;
+
+        if (probe.status !== 'OK') {
+            this.probeHints = probe.hint ?? 'battery probe failed';
+            return;
+        }
+        if (probe.acOnline === true) {
+            this.probeStatus = 'AC_ONLINE';
+            this.probeHints = 'AC adapter connected: unplug it to measure the battery discharge';
+            return;
+        }
+
+        this.acSupplies = probe.acSupplies;
+        this.batteries = probe.batteries
+            .filter((b) => b.powerSource !== null)
+            .map((battery) => ({ battery, last: null }));
+    }
+
+    get status() {
+        return this.probeStatus;
+    }
+
+    get hint() {
+        return this.probeHints;
+    }
+
+    get isReady(): boolean {
+        return this.batteries !== null;
+    }
+
+    private async onExternalPower(): Promise<boolean> {
+        if (await readAcOnline(this.acSupplies)) return true;
+        const statuses = await Promise.all(this.batteries!.map(async ({ battery }) => {
+            try {
+                return (await readFile(battery.files.status, "utf-8")).trim();
+            } catch {
+                return null;
+            }
+        }));
+        return statuses.some((status) => status === 'Charging' || status === 'Full' || status === 'Not charging');
+    }
+
+    async sample(nowNs: bigint): Promise<RaplSample | null> {
+        if (!this.batteries) {
+            return null;
+        }
+
+        const [onAc, readings] = await Promise.all([
+            this.onExternalPower(),
+            Promise.all(this.batteries.map(async (state) => ({ state, current: await readBattery(state.battery) }))),
+        ]);
+
+        const firstSample = this.lastNs === null;
+        // measured dt, no 0.2 s floor: power_now integrated over a floored dt over-reports short ticks
+        const internalClampedDt = firstSample ? 0 : clampDt(Number(nowNs - this.lastNs!) / 1e9, 0);
+        this.lastNs = nowNs;
+
+        if (onAc) {
+            // readings are charge/idle values: flag the tick and restart from fresh baselines
+            this.acOnlineSamples++;
+            if (this.log === 'debug') {
+                console.error('BatteryEnergyReader: AC online, tick ignored');
+            }
+            for (const { state } of readings) state.last = null;
+            return {
+                ok: false,
+                primed: !firstSample,
+                internalClampedDt,
+                deltaUj: 0,
+                deltaJ: 0,
+                packages: readings.map(({ state }) => this.toPackageSample(state.battery, 0, false)),
+                domains: [],
+                wraps: 0,
+            };
+        }
+
+        let totalDeltaJ = 0;
+        let primed = false;
+        const packages: RaplPackageSample[] = [];
+
+        for (const { state, current } of readings) {
+            if (current === null) {
+                packages.push(this.toPackageSample(state.battery, 0, false));
+                continue;
+            }
+
+            let deltaJ = 0;
+            if (state.last !== null && !firstSample) {
+                primed = true;
+                if (state.battery.powerSource === 'energy_now') {
+                    deltaJ = Math.max(state.last - current, 0) * JOULES_PER_UWH;
+                } else {
+                    // µW × s = µJ
+                    deltaJ = ((state.last + current) / 2) * internalClampedDt / 1e6;
+                }
+            }
+            state.last = current;
+            totalDeltaJ += deltaJ;
+            packages.push(this.toPackageSample(state.battery, deltaJ, true));
+        }
+
+        return {
+            ok: packages.some((p) => p.ok),
+            primed,
+            internalClampedDt,
+            deltaUj: totalDeltaJ * 1e6,
+            deltaJ: totalDeltaJ,
+            packages,
+            domains: [],
+            wraps: 0,
+        };
+    }
+
+    private toPackageSample(battery: BatteryInfo, deltaJ: number, ok: boolean): RaplPackageSample {
+        return {
+            node: battery.node,
+            path: battery.path,
+            deltaUj: deltaJ * 1e6,
+            deltaJ,
+            wraps: 0,
+            ok,
+        };
+    }
+}
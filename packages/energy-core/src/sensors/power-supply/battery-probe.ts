@@ -0,0 +1,119 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { accessReadable } from "@nodefootprint/shared";
+
+
+type BatteryStatus = 'OK' | 'DEGRADED' | 'FAILED';
+// how whole-system power is obtained, by order of preference
+export type BatteryPowerSource = 'power_now' | 'current_voltage' | 'energy_now';
+
+export interface BatteryInfo {
+  node: string;          // "BAT0"
+  path: string;          // "/sys/class/power_supply/BAT0"
+  powerSource: BatteryPowerSource | null; // null => nothing readable
+  files: {
+    powerNow: string;    // µW
+    currentNow: string;  // µA
+    voltageNow: string;  // µV
+    energyNow: string;   // µWh
+    status: string;      // Charging / Discharging / Full...
+  };
+}
+
+export interface BatteryProbeResult {
+  status: BatteryStatus;
+  batteries: BatteryInfo[];
+  acSupplies: string[];    // "online" files of the Mains supplies
+  acOnline: boolean | null; // null => no AC supply found
+  hint?: string | null;
+}
+
+const DEFAULT_BASE_PATH = '/sys/class/power_supply';
+
+async function readTrimmed(file: string): Promise<string | null> {
+  try {
+    return (await fs.readFile(file, 'utf-8')).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when one of the AC ("Mains") supplies reports online=1, null when none can be read.
+ */
+export async function readAcOnline(acSupplies: string[]): Promise<boolean | null> {
+  const values = await Promise.all(acSupplies.map(readTrimmed));
+  const known = values.filter((v): v is string => v !== null);
+  if (known.length === 0) return null;
+  return known.some((v) => v === '1');
+}
+
+/**
+ * Probes `/sys/class/power_supply` for batteries (type "Battery") and AC adapters (type "Mains").
+ * For each battery the best readable power source is kept: `power_now`, then
+ * `current_now × voltage_now`, then `energy_now` deltas. Never throws:
+ *
+ * - `"OK"`: a battery with a readable power source;
+ * - `"DEGRADED"`: batteries found but nothing readable;
+ * - `"FAILED"`: no battery (desktop, server, VM) or `basePath` missing.
+ *
+ * @param basePath Root of the power_supply class (default `/sys/class/power_supply`), overridable for tests.
+ */
+export async function batteryProbe(basePath: string = DEFAULT_BASE_PATH): Promise<BatteryProbeResult> {
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(basePath)).sort();
+  } catch {
+    return { status: 'FAILED', batteries: [], acSupplies: [], acOnline: null, hint: `${basePath} not found` };
+  }
+
+  const batteries: BatteryInfo[] = [];
+  const acSupplies: string[] = [];
+
+  for (const node of entries) {
+    const supplyPath = path.join(basePath, node);
+    const type = await readTrimmed(path.join(supplyPath, 'type'));
+
+    if (type === 'Mains') {
+      acSupplies.push(path.join(supplyPath, 'online'));
+      continue;
+    }
+    if (type !== 'Battery') continue;
+
+    const files = {
+      powerNow: path.join(supplyPath, 'power_now'),
+      currentNow: path.join(supplyPath, 'current_now'),
+      voltageNow: path.join(supplyPath, 'voltage_now'),
+      energyNow: path.join(supplyPath, 'energy_now'),
+      status: path.join(supplyPath, 'status'),
+    };
+    const [power, current, voltage, energy] = await Promise.all([
+      accessReadable(files.powerNow),
+      accessReadable(files.currentNow),
+      accessReadable(files.voltageNow),
+      accessReadable(files.energyNow),
+    ]);
+
+    let powerSource: BatteryPowerSource | null = null;
+    if (power.ok) powerSource = 'power_now';
+    else if (current.ok && voltage.ok) powerSource = 'current_voltage';
+    else if (energy.ok) powerSource = 'energy_now';
+
+    batteries.push({ node, path: supplyPath, powerSource, files });
+  }
+
+  const acOnline = await readAcOnline(acSupplies);
+
+  if (batteries.length === 0) {
+    return { status: 'FAILED', batteries, acSupplies, acOnline, hint: `No battery found in ${basePath}` };
+  }
+
+  const anyReadable = batteries.some((b) => b.powerSource !== null);
+  return {
+    status: anyReadable ? 'OK' : 'DEGRADED',
+    batteries,
+    acSupplies,
+    acOnline,
+    hint: anyReadable ? null : 'battery found but power_now, current_now/voltage_now and energy_now are not readable',
+  };
+}
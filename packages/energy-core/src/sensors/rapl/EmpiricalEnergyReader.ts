@@ -99,6 +99,15 @@ export class EmpiricalEnergyReader {
     }
 
 
+    /**
+     * Modeled idle power (P_idle, or idleFraction × TDP), undefined when not configured.
+     */
+    get idlePowerWatts(): number | undefined {
+        if (!this.isReady) return undefined;
+        if (isPositive(this.pidleWatts) && isPositive(this.pmaxWatts)) return this.pidleWatts;
+        return (this.tdpWatts ?? 0) * this.idleFraction;
+    }
+
     async sample(nowNs: bigint): Promise<RaplSample | null> {
         if (!this.isReady) return null;
 
@@ -112,6 +121,7 @@ export class EmpiricalEnergyReader {
                 deltaJ: 0,
                 deltaUj: 0,
                 packages: [],
+                domains: [],
                 wraps: 0
             }
         }
@@ -124,6 +134,7 @@ export class EmpiricalEnergyReader {
                 deltaJ: 0,
                 deltaUj: 0,
                 packages: [],
+                domains: [],
                 wraps: 0
             }
         }
@@ -155,6 +166,7 @@ export class EmpiricalEnergyReader {
             deltaUj,
             deltaJ,
             packages: [],
+            domains: [],
             wraps: 0,
         }
     }
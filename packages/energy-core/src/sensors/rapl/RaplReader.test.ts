@@ -43,6 +43,7 @@ test('RaplReader - sample energy consumption', async (t) => {
                 packages: [
                     expectedPackage
                 ],
+                domains: [],
                 wraps: 0
             }
             assert.ok(sample);
@@ -95,6 +96,7 @@ test('RaplReader - sample energy consumption', async (t) => {
                         ok: true
                     }
                 ],
+                domains: [],
                 wraps: 0
             }
             assert.ok(sample);
@@ -145,6 +147,7 @@ test('RaplReader - sample energy consumption', async (t) => {
                         ok: true
                     }
                 ],
+                domains: [],
                 wraps: 1
             }
             assert.ok(sample);
@@ -214,6 +217,7 @@ test('RaplReader - sample energy consumption', async (t) => {
                     }
 
                 ],
+                domains: [],
                 wraps: 0
             }
             assert.ok(sample);
@@ -277,6 +281,52 @@ test('RaplReader - sample energy consumption', async (t) => {
     });
 });
 
+test('RaplReader - sub-domains', async (t) => {
+
+    await t.test('DOMAINS: dram/core deltas are reported separately and never summed into package energy', async () => {
+        const temp = path.join(os.tmpdir(), `rapl-reader-domains-test-${process.pid}`);
+        try {
+            const pkg = await createRaplPackages(temp, 'intel-rapl:0', { name: 'package-0', energy: 5000000n, maxRange: 20000000n });
+            const core = await createRaplPackages(temp, 'intel-rapl:0:0', { name: 'core', energy: 1000000n, maxRange: 20000000n });
+            const dram = await createRaplPackages(pkg.dir, 'intel-rapl:0:2', { name: 'dram', energy: 19000000n, maxRange: 20000000n });
+
+            const probe = await raplProbe(temp);
+            const raplReader = new RaplReader({ probe, log: 'silent' });
+
+            const prime = await raplReader.sample(nowNs(0));
+            assert.ok(prime);
+            assert.strictEqual(prime.domains.length, 2);
+            assert.ok(prime.domains.every((d) => d.ok && d.deltaJ === 0));
+
+            await writeFile(pkg.files.energyPath, String(7000000n), 'utf8');
+            await writeFile(core.files.energyPath, String(2500000n), 'utf8');
+            await writeFile(dram.files.energyPath, String(500000n), 'utf8'); // wrap
+
+            const sample = await raplReader.sample(nowNs(1.0));
+            assert.ok(sample);
+            assert.strictEqual(sample.deltaJ, 2);
+
+            const byDomain = Object.fromEntries(sample.domains.map((d) => [d.domain, d]));
+            assert.deepStrictEqual(byDomain.core, {
+                node: 'intel-rapl:0:0',
+                path: core.dir,
+                domain: 'core',
+                parent: 'intel-rapl:0',
+                deltaUj: 1500000,
+                deltaJ: 1.5,
+                wraps: 0,
+                ok: true
+            });
+            assert.strictEqual(byDomain.dram.deltaJ, 1.5);
+            assert.strictEqual(byDomain.dram.wraps, 1);
+            // package wraps only
+            assert.strictEqual(sample.wraps, 0);
+        } finally {
+            await rm(temp, { recursive: true, force: true });
+        }
+    });
+});
+
 test('clampDt utility function', async (t) => { 
 
     await t.test('CLAMP DT: clamp delta time between min and max thresholds', async () => {
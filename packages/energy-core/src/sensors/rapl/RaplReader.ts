@@ -1,4 +1,4 @@
-import { RaplPackageInfo, RaplProbeResult } from './rapl-probe.js';
+import { RaplDomain, RaplPackageInfo, RaplProbeResult, packageIdFromName } from './rapl-probe.js';
 import { clampDt } from '../../timers/timing.js';
 import { readFile } from 'fs/promises';
 import * as readline from 'node:readline';
@@ -15,13 +15,18 @@ export interface RaplPackageSample {
   wraps: number;
   ok: boolean;     // lecture OK pour ce package sur ce tick ?
 }
+export interface RaplDomainSample extends RaplPackageSample {
+  domain: RaplDomain;
+  parent: string | null;
+}
 export interface RaplSample {
     ok: boolean;
     primed?: boolean;
     internalClampedDt: number;
-    deltaUj: number;   // µJ
+    deltaUj: number;   // µJ (sum of packages only)
     deltaJ: number;    // J
     packages: RaplPackageSample[];
+    domains: RaplDomainSample[]; // sub-zones (core, uncore, dram) and psys, never summed into deltaJ
     wraps: number;
 }
 
@@ -34,9 +39,38 @@ interface RaplReaderPackageState {
     maxEnergyUj: bigint | null;
 }
 
+interface RaplReaderDomainState extends RaplReaderPackageState {
+    domain: RaplDomain;
+    parent: string | null;
+}
+
 interface RaplReaderState {
     lastNs: bigint | null;
     packages: RaplReaderPackageState[];
+    domains: RaplReaderDomainState[];
+}
+
+function toZoneState(p: RaplPackageInfo): RaplReaderPackageState {
+    return {
+        node: p.node,
+        path: p.path,
+        name: p.name,
+        file: p.files.energyUj!,
+        lastUj: null,
+        maxEnergyUj:
+            p.maxEnergyUj != null && Number.isFinite(p.maxEnergyUj) && p.maxEnergyUj > 0
+                ? BigInt(p.maxEnergyUj)
+                : null,
+    };
+}
+
+async function readCounter(file: string): Promise<bigint | null> {
+    try {
+        const raw = await readFile(file, { encoding: "utf-8" });
+        return BigInt(raw.trim());
+    } catch {
+        return null;
+    }
 }
 
 export class RaplReader {
@@ -65,7 +99,7 @@ export class RaplReader {
             this.probeHints = probe.hint ?? 'rapl probe failed';
             console.error('RAPL reader initialized with invalid probe status:', probe.status);
             if (probe.hint) {
-                console.info('RAPL reader hint:', probe.hint);
+                console.error('RAPL reader hint:', probe.hint);
             }
             return;
         }
@@ -90,19 +124,14 @@ export class RaplReader {
         this.probeStatus = 'OK';
         this.probeHints = null;
 
+        const domains = (probe.zones || []).filter(
+            (z) => z.domain !== 'package' && z.hasEnergyReadable && z.files.energyUj,
+        );
+
         this.state = {
             lastNs: null,
-            packages: packages.map((p) => ({
-                node: p.node,
-                path: p.path,
-                name: p.name,
-                file: p.files.energyUj!,
-                lastUj: null,
-                maxEnergyUj:
-                    p.maxEnergyUj != null && Number.isFinite(p.maxEnergyUj) && p.maxEnergyUj > 0
-                        ? BigInt(p.maxEnergyUj)
-                        : null,
-            })),
+            packages: packages.map(toZoneState),
+            domains: domains.map((z) => ({ ...toZoneState(z), domain: z.domain, parent: z.parent })),
         };
     }
 
@@ -114,6 +143,14 @@ export class RaplReader {
         return this.probeHints;
     }
 
+    /**
+     * node => physical package id ("intel-rapl:1" named "package-1" => 1),
+     * used to line packages up with the CPU topology
+     */
+    get packageIds(): Map<string, number | null> {
+        return new Map((this.state?.packages ?? []).map((pkg) => [pkg.node, packageIdFromName(pkg.name)]));
+    }
+
     /**
      * tell if the reader is ready to sample energy data (i.e. probe was successful)
      */
@@ -142,17 +179,16 @@ export class RaplReader {
             state.lastNs = nowNs;
 
             const primeReads = state.packages.map(async (pkg) => {
-                try {
-                    const raw = await readFile(pkg.file, { encoding: "utf-8" });
-                    pkg.lastUj = BigInt(raw.trim());
-                    return { pkg, ok: true };
-                } catch {
-                    pkg.lastUj = null;
-                    return { pkg, ok: false };
-                }
+                pkg.lastUj = await readCounter(pkg.file);
+                return { pkg, ok: pkg.lastUj !== null };
             });
 
-            const primeResults = await Promise.all(primeReads);
+            const [primeResults] = await Promise.all([
+                Promise.all(primeReads),
+                Promise.all(state.domains.map(async (zone) => {
+                    zone.lastUj = await readCounter(zone.file);
+                })),
+            ]);
 
             const packages: RaplPackageSample[] = primeResults.map(({ pkg, ok }) => ({
                 node: pkg.node,
@@ -163,6 +199,17 @@ export class RaplReader {
                 ok,
             }));
 
+            const domains: RaplDomainSample[] = state.domains.map((zone) => ({
+                node: zone.node,
+                path: zone.path,
+                domain: zone.domain,
+                parent: zone.parent,
+                deltaUj: 0,
+                deltaJ: 0,
+                wraps: 0,
+                ok: zone.lastUj !== null,
+            }));
+
             const ok = primeResults.some((r) => r.ok);
 
             // primed = false :  not exploitable delta yet
@@ -173,6 +220,7 @@ export class RaplReader {
                 deltaUj: 0,
                 deltaJ: 0,
                 packages,
+                domains,
                 wraps: 0,
             };
         }
@@ -191,60 +239,31 @@ export class RaplReader {
         let primed = false;
         let successfulReads = 0;
 
+        // measured dt, no 0.2 s floor: the counters cover the real interval
         let internalClampedDt = Number(nowNs - state.lastNs) / 1e9;
-        internalClampedDt = clampDt(internalClampedDt);
+        internalClampedDt = clampDt(internalClampedDt, 0);
         state.lastNs = nowNs;
 
-        const readResults = await Promise.all(
-            state.packages.map(async (pkg) => {
-                try {
-                    const raw = await readFile(pkg.file, { encoding: "utf-8" });
-                    const currentUJ = BigInt(raw.trim());
-                    return { pkg, currentUJ };
-                } catch {
-                    return { pkg, currentUJ: null as bigint | null };
-                }
-            })
-        );
+        const [readResults, domainResults] = await Promise.all([
+            Promise.all(state.packages.map(async (pkg) => ({ pkg, currentUJ: await readCounter(pkg.file) }))),
+            Promise.all(state.domains.map(async (zone) => ({ zone, currentUJ: await readCounter(zone.file) }))),
+        ]);
 
         const packageSamples: RaplPackageSample[] = [];
 
         for (const { pkg, currentUJ } of readResults) {
-            // read result for this package
-            let pkgDeltaUj = 0n;
-            let pkgWraps = 0n;
-            let pkgOk = false;
+            const delta = this.advance(pkg, currentUJ);
 
-            if (currentUJ !== null) {
-                pkgOk = true;
+            if (delta.ok) {
                 successfulReads++;
-
-                if (pkg.lastUj === null) {
-                    // DIDN'T HAVE HISTORY → priming for this package
-                    pkg.lastUj = currentUJ;
-                } else {
-                    // HAD HISTORY → can compute delta
-                    primed = true;
-
-                    let deltaUj = currentUJ - pkg.lastUj;
-
-                    // wraparound
-                    if (deltaUj < 0n && pkg.maxEnergyUj !== null) {
-                        wraps += 1n;
-                        pkgWraps += 1n;
-                        deltaUj = (pkg.maxEnergyUj - pkg.lastUj) + currentUJ;
-                    }
-
-                    if (deltaUj >= 0n) {
-                        totalDeltaUj += deltaUj;
-                        pkgDeltaUj = deltaUj;
-                    }
-
-                    pkg.lastUj = currentUJ;
-                }
+            }
+            if (delta.hadHistory) {
+                primed = true;
+                wraps += delta.wraps;
+                totalDeltaUj += delta.deltaUj;
             }
 
-            const deltaUjNumber = Number(pkgDeltaUj);
+            const deltaUjNumber = Number(delta.deltaUj);
             const deltaJ = deltaUjNumber / 1e6;
 
             packageSamples.push({
@@ -252,11 +271,26 @@ export class RaplReader {
                 path: pkg.path,
                 deltaUj: deltaUjNumber,
                 deltaJ,
-                wraps: Number(pkgWraps),
-                ok: pkgOk,
+                wraps: Number(delta.wraps),
+                ok: delta.ok,
             });
         }
 
+        const domainSamples: RaplDomainSample[] = domainResults.map(({ zone, currentUJ }) => {
+            const delta = this.advance(zone, currentUJ);
+            const deltaUjNumber = Number(delta.deltaUj);
+            return {
+                node: zone.node,
+                path: zone.path,
+                domain: zone.domain,
+                parent: zone.parent,
+                deltaUj: deltaUjNumber,
+                deltaJ: deltaUjNumber / 1e6,
+                wraps: Number(delta.wraps),
+                ok: delta.ok,
+            };
+        });
+
         const ok = successfulReads > 0;
 
         // if no total energy delta, avoid division by zero
@@ -268,6 +302,7 @@ export class RaplReader {
                 deltaUj: 0,
                 deltaJ: 0,
                 packages: packageSamples,
+                domains: domainSamples,
                 wraps: Number(wraps),
             };
         }
@@ -282,8 +317,44 @@ export class RaplReader {
             deltaUj: totalDeltaUjNumber,
             deltaJ: totalDeltaJ,
             packages: packageSamples,
+            domains: domainSamples,
             wraps: Number(wraps),
         };
     }
 
+    /**
+     * Moves one zone counter forward and returns its delta (wraparound corrected).
+     * A zone without history is primed here and reports hadHistory=false.
+     */
+    private advance(zone: RaplReaderPackageState, currentUJ: bigint | null) {
+        let deltaUj = 0n;
+        let wraps = 0n;
+
+        if (currentUJ === null) {
+            return { ok: false, hadHistory: false, deltaUj, wraps };
+        }
+
+        if (zone.lastUj === null) {
+            // DIDN'T HAVE HISTORY → priming for this zone
+            zone.lastUj = currentUJ;
+            return { ok: true, hadHistory: false, deltaUj, wraps };
+        }
+
+        // HAD HISTORY → can compute delta
+        let rawDeltaUj = currentUJ - zone.lastUj;
+
+        // wraparound
+        if (rawDeltaUj < 0n && zone.maxEnergyUj !== null) {
+            wraps += 1n;
+            rawDeltaUj = (zone.maxEnergyUj - zone.lastUj) + currentUJ;
+        }
+
+        if (rawDeltaUj >= 0n) {
+            deltaUj = rawDeltaUj;
+        }
+
+        zone.lastUj = currentUJ;
+        return { ok: true, hadHistory: true, deltaUj, wraps };
+    }
+
 }
@@ -49,6 +49,12 @@ test('createEnergyReader test suite', async (t) => {
             const reader = createEnergyReader({ probe });
             assert.equal(reader.status, 'OK');
             assert.equal(reader.isReady, true);
+            assert.equal(reader.idlePowerWatts, undefined);
         }
     });
+    await t.test('empirical fallback exposes its modeled idle power', async () => {
+        const raplFailed = { status: 'FAILED' as const, packages: [] };
+        assert.equal(createEnergyReader({ probe: raplFailed, fallback: { pidleWatts: 8, pmaxWatts: 40 } }).idlePowerWatts, 8);
+        assert.equal(createEnergyReader({ probe: raplFailed }).idlePowerWatts, undefined);
+    });
 });
@@ -1,15 +1,26 @@
 import { EmpiricalEnergyReader, EmpiricalEnergyReaderOptions } from "./EmpiricalEnergyReader.js";
 import { RaplReader, RaplReaderOptions, RaplSample } from "./RaplReader.js";
+import { HwmonEnergyReader } from "../hwmon/HwmonEnergyReader.js";
+import type { HwmonProbeResult } from "../hwmon/hwmon-probe.js";
+import { BatteryEnergyReader } from "../power-supply/BatteryEnergyReader.js";
+import type { BatteryProbeResult } from "../power-supply/battery-probe.js";
 
 export interface EnergyReader {
     isReady: boolean;
     status: string | null;
     hint: string | null;
-    mode:'rapl' | 'fallback';
+    mode:'rapl' | 'hwmon' | 'battery' | 'fallback';
+    idlePowerWatts?: number;  // empirical: modeled host idle power (dynamic-only, idle-shared-by-reservation)
+    acOnlineSamples?: number; // battery: ticks ignored because the AC adapter was connected
     sample(nowNs: bigint): Promise<RaplSample | null>;
 }
 
+export type EnergySource = 'auto' | 'battery';
+
 export type EnergyReaderFactoryOptions = RaplReaderOptions & {
+    source?: EnergySource; // auto: RAPL => hwmon => empirical
+    hwmonProbe?: HwmonProbeResult;
+    batteryProbe?: BatteryProbeResult;
     fallback?: Partial<EmpiricalEnergyReaderOptions>;
 };
 
@@ -19,12 +30,26 @@ export function createEnergyReader(options: EnergyReaderFactoryOptions): EnergyR
     const probe = options?.probe;
     const log = options?.log;
 
+    // whole-platform discharge, explicit choice only (never an automatic fallback)
+    if (options.source === 'battery') {
+        return new BatteryEnergyReader({ probe: options.batteryProbe, log });
+    }
+
     const raplReader = new RaplReader({ probe, log });
 
     if (raplReader.isReady) {
         return raplReader;
     }
 
+    // RAPL => hwmon (amd_energy, power meters, INA sensors) => empirical
+    if (options.hwmonProbe) {
+        const hwmonReader = new HwmonEnergyReader({ probe: options.hwmonProbe, log });
+        if (hwmonReader.isReady) {
+            console.warn('RAPL not available, using hwmon sensors');
+            return hwmonReader;
+        }
+    }
+
     console.warn('RAPL not available, falling back to empirical estimation');
 
     const fb = options.fallback ?? {};
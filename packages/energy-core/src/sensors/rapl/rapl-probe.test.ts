@@ -59,24 +59,28 @@ test('rapl-probe test-suite', async (t) => {
             maxRange: 987654321n
         });
 
+        const expectedPackage = {
+            vendor: 'intel',
+            node: 'intel-rapl:0',   
+            path: raplePackage.dir,
+            name: 'package-0',
+            energyPath: raplePackage.files.energyPath,
+            hasEnergyReadable: true,
+            reason: null,
+            maxEnergyUj: 987654321,
+            files: {
+                energyUj: raplePackage.files.energyPath,
+                maxEnergyUj: raplePackage.files.maxRangePath
+            }
+        };
         const resultOk = {
             status: 'OK',
             vendor: 'intel',
             packages: [
-                {
-                    vendor: 'intel',
-                    node: 'intel-rapl:0',   
-                    path: raplePackage.dir,
-                    name: 'package-0',
-                    energyPath: raplePackage.files.energyPath,
-                    hasEnergyReadable: true,
-                    reason: null,
-                    maxEnergyUj: 987654321,
-                    files: {
-                        energyUj: raplePackage.files.energyPath,
-                        maxEnergyUj: raplePackage.files.maxRangePath
-                    }
-                }
+                expectedPackage
+            ],
+            zones: [
+                { ...expectedPackage, domain: 'package', parent: null, children: [] }
             ],
             hint: null  
         }
@@ -84,4 +88,37 @@ test('rapl-probe test-suite', async (t) => {
         const probe = await raplProbe(tmpRoot);
         assert.deepStrictEqual(probe, resultOk);
     }); 
-});
\ No newline at end of file
+
+    await t.test('should expose the whole zone tree (core, uncore, dram, psys)', async () => {
+        const treeRoot = path.join(tmpRoot, 'zone-tree');
+        await fs.rm(treeRoot, { recursive: true, force: true });
+
+        const pkg = await createRaplPackages(treeRoot, 'intel-rapl:0', { name: 'package-0', energy: 1n, maxRange: 10n });
+        // flat layout, as in /sys/class/powercap
+        await createRaplPackages(treeRoot, 'intel-rapl:0:0', { name: 'core', energy: 1n });
+        // nested layout, as in /sys/devices/virtual/powercap/intel-rapl
+        await createRaplPackages(pkg.dir, 'intel-rapl:0:1', { name: 'uncore', energy: 1n });
+        await createRaplPackages(pkg.dir, 'intel-rapl:0:2', { name: 'dram', energy: 1n });
+        await createRaplPackages(treeRoot, 'intel-rapl:1', { name: 'psys', energy: 1n });
+
+        const probe = await raplProbe(treeRoot);
+        assert.strictEqual(probe.status, 'OK');
+        assert.deepStrictEqual(probe.packages.map((p) => p.node), ['intel-rapl:0']);
+
+        const zones = [...(probe.zones ?? [])].sort((a, b) => a.node.localeCompare(b.node));
+        assert.deepStrictEqual(
+            zones.map((z) => [z.node, z.domain, z.parent]),
+            [
+                ['intel-rapl:0', 'package', null],
+                ['intel-rapl:0:0', 'core', 'intel-rapl:0'],
+                ['intel-rapl:0:1', 'uncore', 'intel-rapl:0'],
+                ['intel-rapl:0:2', 'dram', 'intel-rapl:0'],
+                ['intel-rapl:1', 'psys', null],
+            ]
+        );
+        assert.deepStrictEqual(
+            [...zones[0].children].sort(),
+            ['intel-rapl:0:0', 'intel-rapl:0:1', 'intel-rapl:0:2']
+        );
+    });
+});
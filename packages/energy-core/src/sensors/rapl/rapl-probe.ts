@@ -6,6 +6,7 @@ import { accessReadable } from "@nodefootprint/shared";
 
 type RaplStatus = 'OK' | 'DEGRADED' | 'FAILED';
 type RaplVendor = 'intel' | 'amd' | 'unknown';
+export type RaplDomain = 'package' | 'core' | 'uncore' | 'dram' | 'psys' | 'unknown';
 
 export interface RaplPackageInfo {
   vendor: RaplVendor;
@@ -22,24 +23,58 @@ export interface RaplPackageInfo {
   };
 }
 
+export interface RaplZoneInfo extends RaplPackageInfo {
+  domain: RaplDomain;
+  parent: string | null; // node of the parent zone (ex: "intel-rapl:0" for "intel-rapl:0:1")
+  children: string[];
+}
+
 export interface RaplProbeResult {
   status: RaplStatus;
   vendor?: RaplVendor;
   packages: RaplPackageInfo[];
+  zones?: RaplZoneInfo[];
   hint?: string | null;
 }
 
 
 const DEFAULT_BASE_PATH = '/sys/class/powercap';
 
+/**
+ * Maps the content of a zone `name` file to its RAPL domain
+ * ("package-0" => package, "dram" => dram, ...).
+ */
+export function domainFromName(name: string): RaplDomain {
+    if (name.startsWith('package-')) return 'package';
+    if (name === 'core' || name === 'uncore' || name === 'dram' || name === 'psys') return name;
+    return 'unknown';
+}
+
+/**
+ * "package-1" => 1 (matches cpuN/topology/physical_package_id), null for other zones.
+ */
+export function packageIdFromName(name: string): number | null {
+    const match = /^package-(\d+)$/.exec(name);
+    return match ? Number(match[1]) : null;
+}
+
+/**
+ * "intel-rapl:0:1" => "intel-rapl:0", top-level zones have no parent.
+ */
+function parentNode(node: string): string | null {
+    const parts = node.split(':');
+    return parts.length > 2 ? parts.slice(0, -1).join(':') : null;
+}
+
 
 /**
  * Probes the RAPL (Running Average Power Limit) interface exposed by the Linux kernel
  * via the sysfs `powercap` hierarchy and returns a description of detected CPU packages.
  *
  * The function inspects the `basePath` directory (default `/sys/class/powercap`),
- * iterates through its subdirectories, and selects those whose `name` file contains
- * the substring `"package-"`. For each RAPL package found, it attempts to retrieve:
+ * iterates through its subdirectories (and nested `<node>:N` sub-zones), and describes
+ * every zone that has a `name` file. Zones whose `name` contains the substring
+ * `"package-"` are the RAPL packages. For each zone found, it attempts to retrieve:
  *
  * - the cumulative energy counter `energy_uj` (in microjoules);
  * - the wrap value of the counter `max_energy_uj`, if available;
@@ -75,6 +110,8 @@ const DEFAULT_BASE_PATH = '/sys/class/powercap';
  * - `status`: `"OK" | "DEGRADED" | "FAILED"`.
  * - `packages`: array of objects describing detected RAPL packages
  *   (possibly empty if `status === "FAILED"`).
+ * - `zones`: the whole zone tree (packages, `core`, `uncore`, `dram`, `psys`),
+ *   each zone carrying its `domain`, its `parent` node and its `children` nodes.
  * - `hint`: explanatory string or `null`/undefined when all is well.
  * - `vendor`: the main vendor deduced from the packages, if known:
  *   - `"intel"` if a readable `intel-rapl:*` package is found,
@@ -141,15 +178,22 @@ export async function raplProbe(basePath: string = DEFAULT_BASE_PATH): Promise<R
     }
 
     const packages:RaplPackageInfo[] = [];
+    const zones:RaplZoneInfo[] = [];
+    const seen = new Set<string>();
+
+    // flat layout (/sys/class/powercap/intel-rapl:0:0) and nested layout
+    // (intel-rapl:0/intel-rapl:0:0) both end up here, deduplicated by node
+    const candidates: Array<{ dirname: string, dirPath: string }> = dirEntries
+        .filter((entry) => entry.isDirectory() || entry.isSymbolicLink())
+        .map((entry) => ({ dirname: entry.name, dirPath: path.join(basePath, entry.name) }));
+
+    while (candidates.length > 0) {
+        const { dirname, dirPath: packagePath } = candidates.shift()!;
 
-    for (const entry of dirEntries) {
-        if (!entry.isDirectory() && !entry.isSymbolicLink()) {
+        if (seen.has(dirname)) {
             continue;
         }
 
-        const dirname = entry.name;
-
-        const packagePath = path.join(basePath, dirname);
         const namePath = path.join(packagePath, 'name');
         const energyPath = path.join(packagePath, 'energy_uj');
         const maxEnergyPath = path.join(packagePath, 'max_energy_uj');
@@ -162,8 +206,13 @@ export async function raplProbe(basePath: string = DEFAULT_BASE_PATH): Promise<R
             continue;
         }
 
-        if (!name.includes('package-')) {
-            continue;
+        seen.add(dirname);
+
+        const subZones = await fs.readdir(packagePath, { withFileTypes: true }).catch(() => [] as Dirent[]);
+        for (const sub of subZones) {
+            if ((sub.isDirectory() || sub.isSymbolicLink()) && sub.name.startsWith(`${dirname}:`)) {
+                candidates.push({ dirname: sub.name, dirPath: path.join(packagePath, sub.name) });
+            }
         }
 
         const [readable, maxEnergyContent] = await Promise.all([
@@ -185,7 +234,7 @@ export async function raplProbe(basePath: string = DEFAULT_BASE_PATH): Promise<R
         } catch (error) {
             // ignore
         }
-        packages.push({
+        const info: RaplPackageInfo = {
             vendor: dirname.startsWith('intel-rapl') ? 'intel' : (dirname.startsWith('amd-rapl') ? 'amd' : 'unknown'),
             node: dirname,
             path: packagePath,
@@ -198,7 +247,19 @@ export async function raplProbe(basePath: string = DEFAULT_BASE_PATH): Promise<R
                 energyUj: realEnergyPath,
                 maxEnergyUj: maxEnergyPath
             }
-        });
+        };
+
+        const domain = domainFromName(name);
+        if (domain === 'package') {
+            packages.push(info);
+        }
+        zones.push({ ...info, domain, parent: parentNode(dirname), children: [] });
+    }
+
+    for (const zone of zones) {
+        if (zone.parent) {
+            zones.find((z) => z.node === zone.parent)?.children.push(zone.node);
+        }
     }
 
     if(packages.length === 0) {
@@ -214,6 +275,7 @@ export async function raplProbe(basePath: string = DEFAULT_BASE_PATH): Promise<R
         status,
         vendor,
         packages,
+        zones,
         hint
     };
 
@@ -0,0 +1,22 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { getEventListeners } from "node:events";
+import { msToNs, nowNs, sleepUntilNs } from "./timing.js";
+
+test("sleepUntilNs test suite", async (t) => {
+    await t.test("removes its abort listener when the deadline is reached", async () => {
+        const controller = new AbortController();
+        for (let i = 0; i < 5; i++) {
+            await sleepUntilNs(nowNs() + msToNs(2), controller.signal);
+        }
+        assert.strictEqual(getEventListeners(controller.signal, "abort").length, 0);
+    });
+
+    await t.test("returns as soon as the signal aborts", async () => {
+        const controller = new AbortController();
+        const start = nowNs();
+        setTimeout(() => controller.abort(), 5);
+        await sleepUntilNs(start + msToNs(10_000), controller.signal);
+        assert.ok(nowNs() - start < msToNs(5_000));
+    });
+});
@@ -4,6 +4,17 @@ import process from "node:process";
 export const NS_PER_MS = 1_000_000n;
 export const NS_PER_S = 1_000_000_000n;
 
+// USER_HZ : unité des "jiffies" de /proc/stat et /proc/<pid>/stat (100 sur Linux, fixé par l'ABI)
+export const USER_HZ = 100n;
+export const USEC_PER_S = 1_000_000n;
+
+/**
+ * Convertit des ticks (jiffies, USER_HZ) en microsecondes de temps CPU
+ */
+export function jiffiesToUsec(ticks: bigint, hz: bigint = USER_HZ): bigint {
+    return ticks * USEC_PER_S / hz;
+}
+
 
 /**
  * Horloge monotone
@@ -65,11 +76,21 @@ export async function sleepUntilNs(deadlineNs: bigint,signal?:AbortSignal): Prom
         return;
     }
 
-    await Promise.race([
-        sleepMs(remainingMs),
-        new Promise<void>((resolve) => signal.addEventListener("abort", () => resolve(),{once:true}))
-    ]);
-    
+    if (signal.aborted) return;
+
+    // le listener est retiré quand le timer gagne : sinon un par tick reste accroché au signal
+    // jusqu'à l'abort (fuite sur un monitor qui tourne des jours)
+    await new Promise<void>((resolve) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener("abort", onAbort);
+            resolve();
+        }, remainingMs);
+        signal.addEventListener("abort", onAbort, { once: true });
+    });
 }
 
 
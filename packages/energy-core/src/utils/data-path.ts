@@ -0,0 +1,17 @@
+import { existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * <repo>/data/<file>, resolved from the energy-core package root (first directory holding a
+ * package.json above this module): the same path from src/ and from the compiled dist/src/.
+ */
+export function repoDataPath(file: string): string {
+    let dir = dirname(fileURLToPath(import.meta.url));
+    while (!existsSync(join(dir, 'package.json'))) {
+        const parent = dirname(dir);
+        if (parent === dir) break;
+        dir = parent;
+    }
+    return join(dir, '..', '..', 'data', file);
+}
@@ -51,18 +51,118 @@ export async function createStatFileUnderControl (baseDir:string,stats:{user:num
     
 }
 
-export function generateStatSample({ pid, utime, stime, starttime, delay, hz = 100 }: { pid: number; utime: number; stime: number; starttime: number; delay: number; hz?: number }) {
+export function generateStatSample({ pid, utime, stime, starttime, delay, hz = 100, comm = 'node', ppid = 52710, cutime = 0, cstime = 0, processor = 1 }: { pid: number; utime: number; stime: number; starttime: number; delay: number; hz?: number; comm?: string; ppid?: number; cutime?: number; cstime?: number; processor?: number }) {
     const delta_ticks = Math.round(delay * hz);
     const new_utime = utime + Math.floor(delta_ticks / 2);
     const new_stime = stime + Math.ceil(delta_ticks / 2);
 
     const fields = [
-        pid, '(node)', 'S', 52710, 52711, 52710, 34819, 52711, 4194560,
+        pid, `(${comm})`, 'S', ppid, 52711, 52710, 34819, 52711, 4194560,
         18391, 0, 1, 0,
-        new_utime, new_stime, 0, 0, 20, 0, 11, 0,
+        new_utime, new_stime, cutime, cstime, 20, 0, 11, 0,
         starttime, 1278586880, 17245, '18446744073709551615', 1, 1, 0, 0, 0, 0, 0,
-        16781312, 134235650, 0, 0, 0, 17, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0
+        16781312, 134235650, 0, 0, 0, 17, processor, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0
     ];
 
     return fields.join(' ');
 }
+
+/**
+ * Fake /sys/devices/system/cpu tree: cpuN/topology/physical_package_id
+ */
+export async function createCpuTopology(baseDir:string, packageIdByCpu:number[]) {
+    await Promise.all(packageIdByCpu.map(async (packageId, cpu) => {
+        const topologyDir = join(baseDir, `cpu${cpu}`, 'topology');
+        await mkdir(topologyDir, { recursive: true });
+        await writeFile(join(topologyDir, 'physical_package_id'), `${packageId}\n`, 'utf8');
+    }));
+    return baseDir;
+}
+
+/**
+ * Fake /proc/<pid>/task/<tid>/{stat,comm} entries
+ */
+export async function createProcTasks(procRoot:string, pid:number, tasks:Array<{ tid:number; comm?:string; utime:number; stime:number; starttime?:number; processor?:number }>) {
+    const taskRoot = join(procRoot, String(pid), 'task');
+    await mkdir(taskRoot, { recursive: true });
+    await Promise.all(tasks.map(async (task) => {
+        const taskDir = join(taskRoot, String(task.tid));
+        await mkdir(taskDir, { recursive: true });
+        const comm = task.comm ?? 'node';
+        await writeFile(join(taskDir, 'stat'), generateStatSample({
+            pid: task.tid,
+            utime: task.utime,
+            stime: task.stime,
+            starttime: task.starttime ?? 1000,
+            delay: 0,
+            comm,
+            ppid: pid,
+            processor: task.processor ?? 0
+        }), 'utf8');
+        await writeFile(join(taskDir, 'comm'), `${comm}\n`, 'utf8');
+    }));
+    return taskRoot;
+}
+
+/**
+ * Fake /proc/<pid>/stat for a process tree; children=null => no task/<pid>/children file (ppid scan)
+ */
+export async function createProcProcess(procRoot:string, proc:{ pid:number; ppid:number; comm?:string; utime:number; stime:number; cutime?:number; cstime?:number; starttime?:number; children?:number[] | null }) {
+    const pidDir = join(procRoot, String(proc.pid));
+    const taskDir = join(pidDir, 'task', String(proc.pid));
+    await mkdir(taskDir, { recursive: true });
+    await writeFile(join(pidDir, 'stat'), generateStatSample({
+        pid: proc.pid,
+        utime: proc.utime,
+        stime: proc.stime,
+        cutime: proc.cutime ?? 0,
+        cstime: proc.cstime ?? 0,
+        starttime: proc.starttime ?? 1000,
+        delay: 0,
+        comm: proc.comm ?? 'node',
+        ppid: proc.ppid
+    }), 'utf8');
+    if (proc.children !== null) {
+        await writeFile(join(taskDir, 'children'), (proc.children ?? []).join(' ') + ' ', 'utf8');
+    }
+    return pidDir;
+}
+
+/**
+ * Fake cgroup v2 tree: <baseDir>/<path>/cpu.stat
+ */
+export async function createCgroup(baseDir:string, path:string, usageUsec:number | bigint) {
+    const cgroupDir = join(baseDir, path);
+    await mkdir(cgroupDir, { recursive: true });
+    const statPath = join(cgroupDir, 'cpu.stat');
+    await writeFile(statPath, [
+        `usage_usec ${usageUsec}`,
+        `user_usec ${usageUsec}`,
+        'system_usec 0',
+        'nr_periods 0',
+        'nr_throttled 0',
+        'throttled_usec 0',
+    ].join('\n') + '\n', 'utf8');
+    return { dir: cgroupDir, statPath };
+}
+
+/**
+ * Fake /sys/class/hwmon/<node> device, files = { "energy1_input": "123", "energy1_label": "Esocket0", ... }
+ */
+export async function createHwmonDevice(baseDir:string, node:string, name:string, files:Record<string, string | number | bigint>) {
+    const deviceDir = join(baseDir, node);
+    await mkdir(deviceDir, { recursive: true });
+    await writeFile(join(deviceDir, 'name'), `${name}\n`, 'utf8');
+    await Promise.all(Object.entries(files).map(([file, value]) => writeFile(join(deviceDir, file), `${value}\n`, 'utf8')));
+    return deviceDir;
+}
+
+/**
+ * Fake /sys/class/power_supply/<node> entry, files = { type: "Battery", power_now: 12000000, ... }
+ */
+export async function createPowerSupply(baseDir:string, node:string, files:Record<string, string | number>) {
+    const supplyDir = join(baseDir, node);
+    await mkdir(supplyDir, { recursive: true });
+    await Promise.all(Object.entries(files).map(([file, value]) => writeFile(join(supplyDir, file), `${value}\n`, 'utf8')));
+    return supplyDir;
+}
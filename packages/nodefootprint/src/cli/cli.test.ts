@@ -1,6 +1,19 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { splitCommand,extractVerbosity } from "./command/command-utils.js";
+import os from "node:os";
+import { join } from "node:path";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { splitCommand,extractVerbosity,resolveEmissionFactor,resolveFallbackOptions,resolveFallbackWithCpuLookup,resolveCarbonIntensitySeries,parseDurationMs,resolveSciOptions,resolveFacilityFactors,resolveAttribution,resolveEnergyBudget,resolveHistoryOptions,resolveAuditFormatter,spawnedRunFailure,isFailedRun,SpawnedRunResult } from "./command/command-utils.js";
+import { renderMonitorFrame } from "./command/monitor-command.js";
+import { renderFactorsTable } from "./command/factors-command.js";
+import { renderAdvice, loadAuditResult } from "./command/advise-command.js";
+import { renderTimeline, timelineFormatFromPath } from "./command/audit-command.js";
+import { renderBudget } from "./format/text-formatter.js";
+import { renderBenchTable, summarizeBenchRuns, BenchRun } from "./command/bench-command.js";
+import { interleaveOrder, renderComparison } from "./command/compare-command.js";
+import { compareSamples, checkEnergyBudget, MonitorSnapshot } from "../index.js";
+import { buildHistoryTrends, renderHistoryTrend } from "./command/history-command.js";
+import { HistoryEntry } from "../history/history.js";
 
 test("splitCommand: empty / whitespace", () => {
   assert.deepEqual(splitCommand(""), []);
@@ -104,3 +117,373 @@ test('extractVerbosity', async () => {
     });
     
 });
+
+
+test('resolveEmissionFactor: CLIFLAGS > CONFIG > default', async () => {
+    const config = { emissionFactor: { country: "FR", factor: 52 } };
+    assert.deepStrictEqual(await resolveEmissionFactor({ ef: "100" }, config), { emissionFactor: 100, emissionFactorSource: "cli", country: null });
+    assert.deepStrictEqual(await resolveEmissionFactor({}, config), { emissionFactor: 52, emissionFactorSource: "config", country: null });
+    assert.deepStrictEqual(await resolveEmissionFactor({}, null), { emissionFactor: 475, emissionFactorSource: "default", country: null });
+    await assert.rejects(() => resolveEmissionFactor({ ef: "-1" }, null), /--ef must be a positive number/);
+});
+
+test('resolveEmissionFactor: --ef > --country > config factor > config country', async () => {
+    const fromCountry = await resolveEmissionFactor({ country: "FRA" }, { emissionFactor: { country: "DE", factor: 300 } });
+    assert.strictEqual(fromCountry.emissionFactorSource, "cli");
+    assert.strictEqual(fromCountry.country?.isoCode, "FRA");
+    assert.strictEqual(fromCountry.emissionFactor, fromCountry.country?.emissionFactor_gCO2ePerKWh);
+
+    assert.strictEqual((await resolveEmissionFactor({ ef: "100", country: "FR" }, null)).emissionFactor, 100);
+
+    const fromConfig = await resolveEmissionFactor({}, { emissionFactor: { country: "de" } });
+    assert.strictEqual(fromConfig.emissionFactorSource, "config");
+    assert.strictEqual(fromConfig.country?.isoCode, "DEU");
+
+    await assert.rejects(() => resolveEmissionFactor({ country: "XX" }, null), /--country: no emission factor for "XX"/);
+});
+
+test('resolveCarbonIntensitySeries: --intensity > config', async (t) => {
+    const tmp = await mkdtemp(join(os.tmpdir(), 'nf-intensity-'));
+    t.after(async () => {
+        await rm(tmp, { recursive: true, force: true });
+    });
+    const file = join(tmp, 'grid.csv');
+    await writeFile(file, 'timestamp,intensity\n2025-01-18T00:00:00Z,30\n2025-01-18T01:00:00Z,40\n');
+
+    assert.strictEqual((await resolveCarbonIntensitySeries({}, null)).series, undefined);
+
+    const fromConfig = await resolveCarbonIntensitySeries({}, { emissionFactor: { intensityFile: file } });
+    assert.strictEqual(fromConfig.seriesSource, "config");
+    assert.strictEqual(fromConfig.series?.length, 2);
+
+    await assert.rejects(() => resolveCarbonIntensitySeries({ intensity: join(tmp, 'missing.csv') }, null), /--intensity: cannot load/);
+});
+
+test('resolveFallbackOptions: CLIFLAGS > CONFIG', () => {
+    const config = { fallback: { pidleWatts: 3, pmaxWatts: 25, tdpWatts: 45, idleFraction: 0.07, maxFraction: 0.55 } };
+
+    const fromCli = resolveFallbackOptions({ pidleW: "8", pmaxW: "65" }, config);
+    assert.strictEqual(fromCli.fallbackSource, "cli");
+    assert.strictEqual(fromCli.fallback.pidleWatts, 8);
+    assert.strictEqual(fromCli.fallback.pmaxWatts, 65);
+
+    const fromConfig = resolveFallbackOptions({}, config);
+    assert.strictEqual(fromConfig.fallbackSource, "config");
+    assert.strictEqual(fromConfig.fallback.tdpWatts, 45);
+
+    assert.strictEqual(resolveFallbackOptions({}, null).fallbackSource, "missing");
+    assert.throws(() => resolveFallbackOptions({ pidleW: "8" }, null), /Use both --pidleW and --pmaxW/);
+    assert.throws(() => resolveFallbackOptions({ pidleW: "10", pmaxW: "5" }, null), /--pmaxW must be >= --pidleW/);
+});
+
+test('resolveFallbackWithCpuLookup: CLIFLAGS > CONFIG > CPU MODEL LOOKUP', async () => {
+    const lookup = async () => ({ ok: true as const, match: { model: "Intel(R) Core(TM) i7-8650U CPU @ 1.90GHz", name: "Intel Core i7-8650U", tdpWatts: 15, confidence: 1 } });
+
+    const fromCli = await resolveFallbackWithCpuLookup({ tdp: "65" }, null, lookup);
+    assert.strictEqual(fromCli.fallbackSource, "cli");
+    assert.strictEqual(fromCli.fallback.tdpWatts, 65);
+    assert.strictEqual(fromCli.cpuLookup, null);
+
+    const fromLookup = await resolveFallbackWithCpuLookup({}, null, lookup);
+    assert.strictEqual(fromLookup.fallbackSource, "lookup");
+    assert.strictEqual(fromLookup.fallback.tdpWatts, 15);
+
+    const missing = await resolveFallbackWithCpuLookup({}, null, async () => ({ ok: false as const, model: null, error: "cpu_model_not_found" }));
+    assert.strictEqual(missing.fallbackSource, "missing");
+    assert.strictEqual(missing.fallback.tdpWatts, undefined);
+});
+
+test('renderMonitorFrame', () => {
+    const snapshot: MonitorSnapshot = {
+        pid: 42,
+        tick: {} as any,
+        elapsedSeconds: 3,
+        primed: true,
+        hostCpuPowerWatts: 10,
+        processCpuPowerWatts: 2.5,
+        tickHostCpuEnergyJoules: 10,
+        tickProcessCpuEnergyJoules: 2.5,
+        raplWraps: 0,
+        rollingShare: 0.25,
+        windowSamples: 2,
+        hostCpuEnergyJoules: 20,
+        processCpuEnergyJoules: 5,
+        processCpuEnergyShare: 0.25,
+        hostCpuCarbon_gCO2e: 0.002,
+        processCpuCarbon_gCO2e: 0.0005,
+        processOk: true,
+        processError: null,
+        processGone: false
+    };
+    const lines = renderMonitorFrame(snapshot, { comm: "node", source: "rapl", emissionFactor: 360 });
+
+    assert.strictEqual(lines[0], "PID: 42 (node)   Source: rapl   Elapsed: 3.0 s");
+    assert.ok(lines.includes("Rolling share:     25.00 % (2 ticks)"));
+    assert.ok(lines.includes("Process CPU energy: 5.000 J"));
+    assert.ok(lines.includes("Emission Factor: 360 gCO2e/kWh"));
+    assert.ok(!lines.includes("(priming readers...)"));
+    assert.ok(!lines.some((line) => line.includes("AC adapter")));
+
+    const onAc = renderMonitorFrame(snapshot, { comm: "node", source: "battery", emissionFactor: 360, acOnlineSamples: 2 });
+    assert.ok(onAc.includes("Warning: AC adapter connected during 2 tick(s), battery energy is underestimated"));
+});
+
+test('renderFactorsTable', () => {
+    const lines = renderFactorsTable([
+        { isoCode: "FRA", iso2: "FR", countryName: "France", emissionFactor_gCO2ePerKWh: 56.04, year: 2021 },
+        { isoCode: "XKX", iso2: null, countryName: "Kosovo", emissionFactor_gCO2ePerKWh: 780, year: 2021 },
+    ]);
+    assert.deepStrictEqual(lines, [
+        "FRA  FR  France    56.0 gCO2e/kWh (2021)",
+        "XKX  --  Kosovo   780.0 gCO2e/kWh (2021)",
+    ]);
+});
+
+test('parseDurationMs', () => {
+    assert.strictEqual(parseDurationMs('--window', undefined, 1000), 1000);
+    assert.strictEqual(parseDurationMs('--window', '24h', 0), 86_400_000);
+    assert.strictEqual(parseDurationMs('--window', '30m', 0), 1_800_000);
+    assert.strictEqual(parseDurationMs('--window', '1.5s', 0), 1500);
+    assert.strictEqual(parseDurationMs('--window', '250ms', 0), 250);
+    assert.strictEqual(parseDurationMs('--window', '10', 0), 10_000);
+    assert.throws(() => parseDurationMs('--window', '2w', 0), /--window must be a positive duration/);
+    assert.throws(() => parseDurationMs('--window', '0h', 0), /--window must be a positive duration/);
+});
+
+test('renderAdvice', () => {
+    const slot = (startMs: number, carbon_gCO2e: number) => ({ startMs, endMs: startMs + 3_600_000, carbon_gCO2e, effectiveEmissionFactor: carbon_gCO2e, covered: true });
+    const t0 = Date.parse('2025-01-18T00:00:00Z');
+    const lines = renderAdvice({
+        ok: true,
+        now: slot(t0, 250),
+        best: slot(t0 + 7_200_000, 50),
+        savings_gCO2e: 200,
+        savingsRatio: 0.8,
+        candidates: [slot(t0 + 7_200_000, 50), slot(t0 + 10_800_000, 100)],
+    }, { energyJoules: 3.6e6, durationSeconds: 3600 });
+
+    assert.ok(lines.includes("Best slot: 2025-01-18T02:00:00.000Z => 2025-01-18T03:00:00.000Z: 50.000000 gCO2e (50.0 gCO2e/kWh)"));
+    assert.ok(lines.includes("Savings:   200.000000 gCO2e (80.0 %)"));
+    assert.ok(lines.includes("  2025-01-18T03:00:00.000Z => 2025-01-18T04:00:00.000Z: 100.000000 gCO2e (100.0 gCO2e/kWh)"));
+
+    const none = renderAdvice({ ok: false, reason: "forecast_does_not_cover_window" }, { energyJoules: 1, durationSeconds: 1 });
+    assert.strictEqual(none.at(-1), "No recommendation: forecast_does_not_cover_window");
+});
+
+test('loadAuditResult: audit --json file', async (t) => {
+    const tmp = await mkdtemp(join(os.tmpdir(), 'nf-advise-'));
+    t.after(async () => {
+        await rm(tmp, { recursive: true, force: true });
+    });
+    const file = join(tmp, 'run.json');
+    await writeFile(file, JSON.stringify({ processCpuEnergyJoules: 12, durationSeconds: 4, emissionFactor_gCO2ePerKWh: 56 }));
+    assert.deepStrictEqual(await loadAuditResult(file), { energyJoules: 12, durationSeconds: 4, emissionFactor: 56 });
+
+    await writeFile(file, JSON.stringify({ processCpuEnergyJoules: 12, durationSeconds: 4 }));
+    assert.strictEqual((await loadAuditResult(file)).emissionFactor, 475);
+
+    await writeFile(file, "[1, 2]");
+    await assert.rejects(loadAuditResult(file), /is not an audit --json result/);
+});
+
+test('resolveSciOptions', () => {
+    const config = { sci: { functionalUnit: "request", embodied: { server: { embodied_gCO2e: 1_200_000, lifespanYears: 4, resourceShare: 0.25 } } } };
+
+    assert.strictEqual(resolveSciOptions({}, config), null);
+    assert.deepStrictEqual(resolveSciOptions({ sci: true }, null), { functionalUnits: 1, functionalUnit: "run", embodied: null, embodiedProfile: null });
+
+    const fromConfig = resolveSciOptions({ sci: true, "functional-unit": "1000", embodied: "server" }, config);
+    assert.strictEqual(fromConfig?.functionalUnits, 1000);
+    assert.strictEqual(fromConfig?.functionalUnit, "request");
+    assert.strictEqual(fromConfig?.embodied?.resourceShare, 0.25);
+
+    assert.strictEqual(resolveSciOptions({ sci: true, "functional-unit": "50 jobs" }, config)?.functionalUnit, "jobs");
+    assert.throws(() => resolveSciOptions({ sci: true, "functional-unit": "-3" }, null), /--functional-unit must be a positive number/);
+    assert.throws(() => resolveSciOptions({ sci: true, embodied: "laptop" }, config), /unknown profile "laptop" \(config sci.embodied: server\)/);
+});
+
+test('resolveFacilityFactors: flags > site preset > config', () => {
+    const config = { facility: { site: "paris", pue: 1.6, wue: 2, sites: { paris: { pue: 1.3, wue: 0.4 }, nordic: { pue: 1.1 } } } };
+
+    assert.strictEqual(resolveFacilityFactors({}, null), null);
+    assert.deepStrictEqual(resolveFacilityFactors({}, config), { pue: 1.3, wue_LPerKWh: 0.4, site: "paris" });
+    assert.deepStrictEqual(resolveFacilityFactors({ site: "nordic" }, config), { pue: 1.1, wue_LPerKWh: 2, site: "nordic" });
+    assert.deepStrictEqual(resolveFacilityFactors({ pue: "1.5" }, config), { pue: 1.5, wue_LPerKWh: 0.4, site: "paris" });
+    assert.deepStrictEqual(resolveFacilityFactors({ wue: "1.8" }, null), { pue: 1, wue_LPerKWh: 1.8, site: null });
+
+    assert.throws(() => resolveFacilityFactors({ pue: "0.8" }, null), /--pue must be a number >= 1/);
+    assert.throws(() => resolveFacilityFactors({ site: "tokyo" }, config), /unknown site "tokyo" \(config facility.sites: paris, nordic\)/);
+});
+
+test('resolveAttribution: strategy by name, reserved cores from the affinity', async () => {
+    const affinity = async () => 4;
+
+    const byDefault = await resolveAttribution({}, 1234, affinity);
+    assert.strictEqual(byDefault.strategy.name, "active-share");
+    assert.strictEqual(byDefault.reservedCores, null);
+
+    const reserved = await resolveAttribution({ attribution: "idle-shared-by-reservation", idleW: "6" }, 1234, affinity);
+    assert.strictEqual(reserved.idlePowerWatts, 6);
+    assert.strictEqual(reserved.reservedCores, 4);
+    assert.strictEqual(reserved.reservedCoresSource, "lookup");
+
+    const cli = await resolveAttribution({ attribution: "idle-shared-by-reservation", reservedCores: "2" }, 1234, affinity);
+    assert.strictEqual(cli.reservedCores, 2);
+
+    await assert.rejects(resolveAttribution({ attribution: "fair" }, 1234, affinity), /--attribution must be one of: active-share, dynamic-only/);
+    await assert.rejects(resolveAttribution({ idleW: "-1" }, 1234, affinity), /--idleW must be a number >= 0/);
+});
+
+test('renderTimeline: csv header and rows, ndjson lines', () => {
+    const point = {
+        tickId: 1, ticks: 1, startNs: 1e9, dtNs: 1e9, latenessNs: 0,
+        hostEnergyJoules: 10, processEnergyJoules: 5, hostCpuActiveTicks: 100, processCpuActiveTicks: 50,
+        hostWatts: 10, processWatts: 5, share: 0.5, peakHostWatts: 10,
+    };
+
+    const csv = renderTimeline([point], "csv").trim().split("\n");
+    assert.strictEqual(csv[0], "tickId,ticks,startNs,dtNs,latenessNs,hostEnergyJoules,processEnergyJoules,hostCpuActiveTicks,processCpuActiveTicks,hostWatts,processWatts,share,peakHostWatts");
+    assert.strictEqual(csv[1], "1,1,1000000000,1000000000,0,10,5,100,50,10,5,0.5,10");
+
+    const ndjson = renderTimeline([point, point], "ndjson").trim().split("\n");
+    assert.strictEqual(ndjson.length, 2);
+    assert.deepStrictEqual(JSON.parse(ndjson[1]), point);
+
+    assert.strictEqual(timelineFormatFromPath("run.NDJSON"), "ndjson");
+    assert.throws(() => timelineFormatFromPath("run.json"), /--timeline must end with .csv or .ndjson/);
+});
+
+test('bench: statistics over the measured runs and table', () => {
+    const runs = [10, 12, 14].map((joules, i) => ({
+        run: i + 1,
+        exitCode: 0,
+        signal: null,
+        timedOut: false,
+        processAvgWatts: joules / 2,
+        result: { processCpuEnergyJoules: joules, durationSeconds: 2, measuredSeconds: 1.9 },
+    })) as unknown as BenchRun[];
+    // failed, killed and truncated runs are left out of the statistics
+    runs.push(
+        { ...runs[0], run: 4, exitCode: 1, result: { ...runs[0].result, processCpuEnergyJoules: 1 } },
+        { ...runs[0], run: 5, exitCode: null, timedOut: true, result: { ...runs[0].result, processCpuEnergyJoules: 100 } },
+        { ...runs[0], run: 6, exitCode: null, signal: "SIGKILL", result: { ...runs[0].result, processCpuEnergyJoules: 50 } },
+    );
+
+    const statistics = summarizeBenchRuns(runs);
+    assert.strictEqual(statistics.processCpuEnergyJoules.n, 3);
+    assert.strictEqual(statistics.processCpuEnergyJoules.mean, 12);
+    assert.strictEqual(statistics.processCpuEnergyJoules.stddev, 2);
+    assert.strictEqual(statistics.durationSeconds.stddev, 0);
+    assert.strictEqual(statistics.processAvgWatts.median, 6);
+
+    const lines = renderBenchTable(statistics);
+    assert.match(lines[0], /^Metric\s+mean\s+median\s+stddev\s+min\s+max\s+95% CI$/);
+    // t(0.975, 2) = 4.303 => 12 ± 4.969
+    assert.match(lines[1], /^Process energy \(J\)\s+12\.000\s+12\.000\s+2\.000\s+10\.000\s+14\.000\s+7\.03\d \.\. 16\.96\d$/);
+    assert.match(lines[2], /^Duration \(s\)\s+2\.000/);
+});
+
+test('spawned runs: failed when they exit non-zero, are killed or measure no tick', () => {
+    const run = (overrides: Partial<SpawnedRunResult>) => ({
+        exitCode: 0,
+        signal: null,
+        timedOut: false,
+        result: { measuredSeconds: 1.9 },
+        ...overrides,
+    }) as SpawnedRunResult;
+
+    assert.strictEqual(spawnedRunFailure(run({})), null);
+    assert.strictEqual(isFailedRun(run({})), false);
+    assert.strictEqual(spawnedRunFailure(run({ exitCode: 2 })), "exit code 2");
+    assert.strictEqual(spawnedRunFailure(run({ exitCode: null, signal: "SIGKILL" })), "killed by SIGKILL");
+    assert.strictEqual(spawnedRunFailure(run({ exitCode: null, timedOut: true })), "killed at --duration");
+    assert.strictEqual(spawnedRunFailure(run({ result: { measuredSeconds: 0 } as SpawnedRunResult["result"] })), "exited before the first measured tick");
+    assert.strictEqual(isFailedRun(run({ result: { measuredSeconds: 0 } as SpawnedRunResult["result"] })), true);
+});
+
+test('compare: ABBA order and plain verdict', () => {
+    assert.deepStrictEqual(interleaveOrder(3), ["a", "b", "b", "a", "a", "b"]);
+
+    const commands = { a: "node old.js", b: "node new.js" };
+    const faster = renderComparison(compareSamples([10, 10.2, 9.8, 10.1], [8, 8.1, 7.9, 8.2]), commands);
+    assert.match(faster.join("\n"), /Energy ratio B\/A: 0\.80\d/);
+    assert.match(faster.at(-1)!, /^Verdict: B uses 19\.\d % less energy than A \(significant, p = .+ < 0\.05\)$/);
+
+    const noise = renderComparison(compareSamples([10, 12, 8, 11], [11, 9, 12, 10]), commands);
+    assert.match(noise.at(-1)!, /^Verdict: no significant difference between A and B/);
+
+    const bootstrap = renderComparison(compareSamples([10, 10.2, 9.8], [12, 12.1, 11.9], { method: "bootstrap" }), commands);
+    assert.match(bootstrap.at(-1)!, /B uses 20\.\d % more energy than A \(significant, 95% CI of the ratio excludes 1\)/);
+
+    assert.match(renderComparison(compareSamples([10], [8, 9]), commands).at(-1)!, /no comparison \(at least 2 successful runs/);
+});
+
+test('resolveEnergyBudget: flags > config budgets[label]', () => {
+    const config = { budgets: { nightly: { maxJoules: 100, maxGco2e: 2 } } };
+    assert.strictEqual(resolveEnergyBudget({}, config), null);
+    assert.deepStrictEqual(resolveEnergyBudget({ budget: "nightly", "max-joules": "80" }, config), {
+        label: "nightly",
+        budget: { maxJoules: 80, maxGco2e: 2, maxAvgWatts: undefined },
+    });
+    assert.strictEqual(resolveEnergyBudget({ "max-avg-watts": "12" }, null)!.budget.maxAvgWatts, 12);
+    assert.throws(() => resolveEnergyBudget({ budget: "weekly" }, config), /--budget: unknown budget "weekly" \(config budgets: nightly\)/);
+    assert.throws(() => resolveEnergyBudget({ "max-joules": "-1" }, null), /--max-joules must be a number >= 0/);
+});
+
+test('renderBudget: exceeded thresholds with the excess', () => {
+    const budget = checkEnergyBudget({ energyJoules: 120, carbon_gCO2e: 0.001, durationSeconds: 10 }, { maxJoules: 100, maxAvgWatts: 15 });
+    assert.deepStrictEqual(renderBudget(budget), [
+        "EXCEEDED Process energy: 120.000 J / 100 J (--max-joules), over by 20.000 J (+20.0 %)",
+        "ok       Process avg power: 12.000 W / 15 W (--max-avg-watts)",
+    ]);
+});
+
+test('resolveHistoryOptions: --history > config, label from --spawn', () => {
+    assert.deepStrictEqual(resolveHistoryOptions({}, null), { enabled: false, file: join(".nodefootprint", "history.ndjson"), label: "default" });
+    const config = { history: { enabled: true, file: "energy.ndjson" } };
+    assert.deepStrictEqual(resolveHistoryOptions({ spawn: "npm test" }, config), { enabled: true, file: "energy.ndjson", label: "npm test" });
+    assert.strictEqual(resolveHistoryOptions({ history: false, label: "ci" }, config).enabled, false);
+    assert.strictEqual(resolveHistoryOptions({ file: "other.ndjson" }, config).file, "other.ndjson");
+});
+
+test('history: trends per label and host with regressions', () => {
+    const joules = [10, 11, 9, 10, 16];
+    const entries = [
+        ...joules.map((j, i) => ({
+            label: "tests",
+            timestamp: `2026-01-0${i + 1}T10:00:00.000Z`,
+            host: { id: "host1" },
+            git: { commit: `${i}`.repeat(40), branch: "main" },
+            result: { processCpuEnergyJoules: j, processCpuCarbon_gCO2e: 0, durationSeconds: 2 },
+        })),
+        { label: "nightly", timestamp: "2026-01-01T00:00:00.000Z", host: { id: "host2" }, git: null, result: { processCpuEnergyJoules: 5, durationSeconds: 1 } },
+        // a slower host: its runs neither feed nor trip the host1 baseline
+        ...[30, 31].map((j) => ({ label: "tests", timestamp: "2026-01-06T10:00:00.000Z", host: { id: "host3" }, git: null, result: { processCpuEnergyJoules: j, durationSeconds: 2 } })),
+    ] as unknown as HistoryEntry[];
+
+    const trends = buildHistoryTrends(entries, "joules", 10);
+    assert.deepStrictEqual(trends.map((t) => [t.label, t.host]), [["tests", "host1"], ["nightly", "host2"], ["tests", "host3"]]);
+    assert.deepStrictEqual(trends[0].checks.map((c) => c.regression), [false, false, false, false, true]);
+    assert.deepStrictEqual(trends[2].checks.map((c) => c.regression), [false, false]);
+
+    const lines = renderHistoryTrend(trends[0], "joules", 2);
+    assert.strictEqual(lines[0], "tests on host1: 5 run(s)");
+    assert.strictEqual(lines.length, 4);
+    assert.match(lines[2], /^2026-01-04 10:00:00\s+3333333\s+host1\s+10\.000\s+\+0\.0 %$/);
+    assert.match(lines[3], /^2026-01-05 10:00:00\s+4444444\s+host1\s+16\.000\s+\+60\.0 % REGRESSION$/);
+
+    assert.strictEqual(buildHistoryTrends(entries, "avgWatts", 10)[0].checks[0].value, 5);
+    assert.match(renderHistoryTrend(trends[1], "joules", 20)[2], /^2026-01-01 00:00:00\s+-\s+host2\s+5\.000\s+--$/);
+});
+
+test('resolveAuditFormatter: --format > --json > --output extension > text', () => {
+    assert.strictEqual(resolveAuditFormatter({}).name, "text");
+    assert.strictEqual(resolveAuditFormatter({ json: true }).name, "json");
+    assert.strictEqual(resolveAuditFormatter({ output: "run.CSV" }).name, "csv");
+    assert.strictEqual(resolveAuditFormatter({ output: "run.jsonl" }).name, "ndjson");
+    assert.strictEqual(resolveAuditFormatter({ output: "run.out" }).name, "text");
+    assert.strictEqual(resolveAuditFormatter({ output: "report.html" }).name, "html");
+    assert.strictEqual(resolveAuditFormatter({ format: "markdown", output: "run.csv" }).name, "markdown");
+    assert.throws(() => resolveAuditFormatter({ format: "xml" }), /--format must be one of: text, json, ndjson, csv, markdown, html/);
+    assert.throws(() => resolveAuditFormatter({ format: "csv", json: true }), /--json conflicts with --format csv/);
+});
@@ -3,6 +3,12 @@ import process from "node:process";
 //import { readFile } from "node:fs/promises";
 import { printHelp } from "./command/help-command.js";
 import { auditCommand } from "./command/audit-command.js";
+import { monitorCommand } from "./command/monitor-command.js";
+import { factorsCommand } from "./command/factors-command.js";
+import { adviseCommand } from "./command/advise-command.js";
+import { benchCommand } from "./command/bench-command.js";
+import { compareCommand } from "./command/compare-command.js";
+import { historyCommand } from "./command/history-command.js";
 
 //fallback calibrated
 //audit --pid 1234 --duration 10 --pidleW 3.2 --pmaxW 25 -v
@@ -13,16 +19,22 @@ const VALID_COMMANDS = new Set();
 
 VALID_COMMANDS.add('audit');
 VALID_COMMANDS.add('monitor');
+VALID_COMMANDS.add('factors');
+VALID_COMMANDS.add('advise');
+VALID_COMMANDS.add('bench');
+VALID_COMMANDS.add('compare');
+VALID_COMMANDS.add('history');
 VALID_COMMANDS.add('help');
 
 
 
 async function main(argv:string[] = process.argv.slice(2)) {
     const [command = 'help',...options] = argv;
-    console.log(command,options);
-    console.log("============================");
-    console.log("Nodefootprint v 0.0.1");
-    console.log("============================\n");
+    // banner on stderr: stdout carries the report, parseable with --json / --format json|csv|ndjson
+    console.error(command,options);
+    console.error("============================");
+    console.error("Nodefootprint v 0.0.1");
+    console.error("============================\n");
     if(VALID_COMMANDS.has(command)) {
       switch(command) {
         case 'help':
@@ -32,7 +44,22 @@ async function main(argv:string[] = process.argv.slice(2)) {
           await auditCommand(options);
           break;
         case 'monitor':
-          console.log('monitor command');
+          await monitorCommand(options);
+          break;
+        case 'factors':
+          await factorsCommand(options);
+          break;
+        case 'advise':
+          await adviseCommand(options);
+          break;
+        case 'bench':
+          await benchCommand(options);
+          break;
+        case 'compare':
+          await compareCommand(options);
+          break;
+        case 'history':
+          await historyCommand(options);
           break;
         default:
           printHelp();
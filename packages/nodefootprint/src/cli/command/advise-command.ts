@@ -0,0 +1,115 @@
+import { parseArgs } from "node:util";
+import process from "node:process";
+import { readFile } from "node:fs/promises";
+import { parseDurationMs } from "./command-utils.js";
+import { findLowestCarbonStart, loadCarbonIntensitySeries, CarbonAwareResult, CarbonAwareSlot } from "../../index.js";
+import { printHelp } from "./help-command.js";
+
+/**
+ * Energy profile of a past run, read from an `audit --json` result
+ */
+export async function loadAuditResult(resultPath: string) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(resultPath, "utf-8"));
+  } catch (error) {
+    throw new Error(`--result: cannot read ${resultPath} (${(error as Error).message})`);
+  }
+  const record: Record<string, unknown> = typeof parsed === "object" && parsed !== null ? parsed as Record<string, unknown> : {};
+  const energyJoules = Number(record.processCpuEnergyJoules);
+  const durationSeconds = Number(record.durationSeconds);
+  if (!Number.isFinite(energyJoules) || !Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+    throw new Error(`--result: ${resultPath} is not an audit --json result (processCpuEnergyJoules, durationSeconds)`);
+  }
+  const emissionFactor = typeof record.emissionFactor_gCO2ePerKWh === "number" && Number.isFinite(record.emissionFactor_gCO2ePerKWh) ? record.emissionFactor_gCO2ePerKWh : 475;
+  return { energyJoules, durationSeconds, emissionFactor };
+}
+
+function formatSlot(slot: CarbonAwareSlot) {
+  return `${new Date(slot.startMs).toISOString()} => ${new Date(slot.endMs).toISOString()}: ${slot.carbon_gCO2e.toFixed(6)} gCO2e (${slot.effectiveEmissionFactor.toFixed(1)} gCO2e/kWh)`;
+}
+
+/**
+ * Builds the advice lines (pure, no I/O).
+ */
+export function renderAdvice(advice: CarbonAwareResult, context: { energyJoules: number, durationSeconds: number, top?: number }): string[] {
+  const lines = [
+    `Job: ${context.energyJoules.toFixed(3)} J over ${context.durationSeconds.toFixed(2)} s`,
+    "",
+  ];
+
+  if (advice.now) {
+    lines.push(`Run now:   ${formatSlot(advice.now)}${advice.now.covered ? "" : " (outside the forecast, static factor)"}`);
+  }
+  if (!advice.ok || !advice.best) {
+    lines.push(`No recommendation: ${advice.reason}`);
+    return lines;
+  }
+
+  lines.push(`Best slot: ${formatSlot(advice.best)}`);
+  lines.push(`Savings:   ${advice.savings_gCO2e!.toFixed(6)} gCO2e (${(advice.savingsRatio! * 100).toFixed(1)} %)`);
+
+  const others = (advice.candidates ?? []).slice(1, 1 + (context.top ?? 4));
+  if (others.length > 0) {
+    lines.push("", "Next best slots:");
+    for (const slot of others) lines.push(`  ${formatSlot(slot)}`);
+  }
+  return lines;
+}
+
+/**
+ * advise --result run.json --forecast forecast.csv [--window 24h]
+ * start time minimizing processCpuCarbon_gCO2e of a past run within the window
+ */
+export async function adviseCommand(argv = process.argv.slice(2)) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      help: { type: "boolean" },
+      result: { type: "string" },
+      forecast: { type: "string" },
+      window: { type: "string" },
+      now: { type: "string" },
+      json: { type: "boolean" },
+    },
+    allowPositionals: true
+  });
+
+  if (values.help) {
+    printHelp();
+    return;
+  }
+
+  if (!values.result || !values.forecast) {
+    throw new Error("advise needs --result <audit.json> and --forecast <file.csv|json>");
+  }
+
+  const windowMs = parseDurationMs("--window", values.window, 24 * 3_600_000);
+  const nowMs = values.now ? Date.parse(values.now) : Date.now();
+  if (!Number.isFinite(nowMs)) {
+    throw new Error("--now must be an ISO 8601 date");
+  }
+
+  const job = await loadAuditResult(values.result);
+
+  let series;
+  try {
+    series = await loadCarbonIntensitySeries(values.forecast);
+  } catch (error) {
+    throw new Error(`--forecast: cannot load ${values.forecast} (${(error as Error).message})`);
+  }
+
+  const advice = findLowestCarbonStart({ ...job, series, nowMs, windowMs });
+
+  if (values.json) {
+    console.log(JSON.stringify(advice, null, 2));
+    return;
+  }
+
+  console.log("==============================");
+  console.log("\nCarbon-aware scheduling advice");
+  console.log("\n--------------------------\n");
+  console.log(renderAdvice(advice, job).join("\n"));
+  console.log("\n--------------------------\n");
+  console.log("nodefootprint v.0.0.1");
+}
@@ -1,27 +1,62 @@
 import { parseArgs } from "node:util";
 import  process  from "node:process";
 import path from "node:path";
-import { spawnTarget, killGracefully, extractVerbosity, parsePositiveNumberFromCommand, tryReadProcComm } from "./command-utils.js";
-import { audit } from "../../index.js";
+import { appendFile, writeFile } from "node:fs/promises";
+import { spawnTarget, killGracefully, extractVerbosity, parsePositiveNumberFromCommand, tryReadProcComm, resolveFallbackWithCpuLookup, resolveEmissionFactor, resolveEnergySource, resolveCarbonIntensitySeries, resolveSciOptions, resolveFacilityFactors, resolveAttribution, resolveEnergyBudget, resolveHistoryOptions, resolveAuditFormatter, parseDurationMs } from "./command-utils.js";
+import { audit, resolvePidCgroup, computeSci, measureBaseline, checkEnergyBudget, TimelinePoint, BaselineMeasurement } from "../../index.js";
 import { createSamplers } from "../../index";
 import { printHelp } from "./help-command.js";
 import { AppConfig, loadConfig } from "../../config/config.js";
-import { EmpiricalEnergyReaderOptions } from "../../index.js";
+import { appendHistoryEntry, hostFingerprint, readGitRevision } from "../../history/history.js";
+import { AuditReport, BUDGET_EXCEEDED_EXIT_CODE } from "../format/report.js";
+import { renderBudget, textFormatter } from "../format/text-formatter.js";
+import { markdownFormatter } from "../format/formatters.js";
+import { htmlFormatter } from "../format/html-formatter.js";
 
 
 //parameter resolution order
 
-//CLIFLAGS > CONFIG > ERROR
+//CLIFLAGS > CONFIG > CPU MODEL LOOKUP > ERROR
 
 //if rapl ok
 //else
 //if --pidleW and pmaxW in cli options OK
 //else if tdp in cli options OK
 //else search for config file with pidleW and pmaxW or tdp
+//else tdp of the cpu model (/proc/cpuinfo fuzzy-matched in data/cpu-power.csv)
 //else ERROR
 
 //TODO when -v dispaly source or options (via cli or via config)
 
+const TIMELINE_COLUMNS: (keyof TimelinePoint)[] = [
+  "tickId", "ticks", "startNs", "dtNs", "latenessNs",
+  "hostEnergyJoules", "processEnergyJoules", "hostCpuActiveTicks", "processCpuActiveTicks",
+  "hostWatts", "processWatts", "share", "peakHostWatts",
+];
+
+export type TimelineFormat = "csv" | "ndjson";
+
+/**
+ * --timeline out.csv|out.ndjson (.jsonl) => export format
+ */
+export function timelineFormatFromPath(file: string): TimelineFormat {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === ".csv") return "csv";
+  if (ext === ".ndjson" || ext === ".jsonl") return "ndjson";
+  throw new Error("--timeline must end with .csv or .ndjson");
+}
+
+/**
+ * Timeline file content (pure, no I/O): one row / JSON line per point.
+ */
+export function renderTimeline(points: TimelinePoint[], format: TimelineFormat): string {
+  if (format === "ndjson") {
+    return points.map((point) => JSON.stringify(point)).join("\n") + (points.length > 0 ? "\n" : "");
+  }
+  const rows = points.map((point) => TIMELINE_COLUMNS.map((column) => point[column]).join(","));
+  return [TIMELINE_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
 export async function auditCommand(argv = process.argv.slice(2)) {
 
   const { level: verbosity, debugMetaExplicit, rest } = extractVerbosity(argv);
@@ -38,6 +73,8 @@ export async function auditCommand(argv = process.argv.slice(2)) {
 
       pid: { type: "string" },
       spawn: { type: "string" },
+      baseline: { type: "string" },
+      cgroup: { type: "string" },
 
       pidleW: { type: "string" },// mincpuW
       pmaxW: { type: "string" }, //maxcpuW
@@ -47,8 +84,40 @@ export async function auditCommand(argv = process.argv.slice(2)) {
       tick: { type: "string" },
 
       ef: { type: "string" },
+      country: { type: "string" },
+      intensity: { type: "string" },
+      pue: { type: "string" },
+      wue: { type: "string" },
+      site: { type: "string" },
+      source: { type: "string" },
+
+      attribution: { type: "string" },
+      idleW: { type: "string" },
+      reservedCores: { type: "string" },
+
+      topology: { type: "boolean" },
+      tree: { type: "boolean" },
+      threads: { type: "boolean" },
+
+      sci: { type: "boolean" },
+      "functional-unit": { type: "string" },
+      embodied: { type: "string" },
 
       json: { type: "boolean" },
+      format: { type: "string" },
+      output: { type: "string" },
+      "github-summary": { type: "boolean" },
+      report: { type: "string" },
+      timeline: { type: "string" },
+
+      history: { type: "boolean" },
+      label: { type: "string" },
+      file: { type: "string" },
+
+      budget: { type: "string" },
+      "max-joules": { type: "string" },
+      "max-gco2e": { type: "string" },
+      "max-avg-watts": { type: "string" },
 
       debugTiming: { type: "boolean" },
       keepAlive: { type: "boolean" }
@@ -67,61 +136,56 @@ export async function auditCommand(argv = process.argv.slice(2)) {
   const config: AppConfig | undefined | null = configPath ? await loadConfig(configPath) : null;
 
 
-  const tdp = values.tdp ? Number(values.tdp) : undefined;
-  const pidleWatts = values.pidleW ? Number(values.pidleW) : undefined;
-  const pmaxWatts = values.pmaxW ? Number(values.pmaxW) : undefined;
-
-  const hasIdleCli = Number.isFinite(pidleWatts);
-  const hasMaxCli = Number.isFinite(pmaxWatts);
-
-  if (hasIdleCli !== hasMaxCli) {
-    throw new Error("Use both --pidleW and --pmaxW together (or none)");
-  }
-
-  if (hasIdleCli && (pidleWatts as number) <= 0) throw new Error("--pidleW must be > 0");
-  if (hasMaxCli && (pmaxWatts as number) <= 0) throw new Error("--pmaxW must be > 0");
-  if (hasIdleCli && (pmaxWatts as number) < (pidleWatts as number)) {
-    throw new Error("--pmaxW must be >= --pidleW");
-  }
-  if (values.tdp && (!Number.isFinite(tdp as any) || (tdp as number) <= 0)) {
-    throw new Error("--tdp must be > 0");
-  }
+  const { fallback, fallbackSource, cpuLookup } = await resolveFallbackWithCpuLookup(values, config);
 
   const durationSeconds = parsePositiveNumberFromCommand('--duration', values.duration, 10);
   const tickMs = parsePositiveNumberFromCommand('--tick', values.tick, 1000);
 
   const debugTiming = !!values.debugTiming;
-  const jsonOutput = !!values.json;
+  const formatter = resolveAuditFormatter(values);
+  // machine formats on stdout stay parseable: progress and notices go to stderr
+  const notice = formatter === textFormatter || values.output ? console.log : console.error;
   const keepAlive = !!values.keepAlive;
+  const timelineFormat = values.timeline ? timelineFormatFromPath(values.timeline) : null;
 
-  const emissionFactor = values.ef ? parsePositiveNumberFromCommand('--ef', values.ef, 475) :
-    (config?.emissionFactor?.factor ?? 475);
-
-  //track source for debug
-  const emissionFactorSource = values.ef ? "cli" : config?.emissionFactor?.factor ? "config" : "default";
-  const fallbackSource =
-    hasIdleCli ? "cli" :
-      (isFinite(config?.fallback?.pidleWatts as number) && isFinite(config?.fallback?.pmaxWatts as number)) ? "config" :
-        values.tdp ? "cli" :
-          isFinite(config?.fallback?.tdpWatts as number) ? "config" :
-            "missing";
+  const { emissionFactor, emissionFactorSource, country } = await resolveEmissionFactor(values, config);
+  const { series: carbonIntensitySeries, seriesFile, seriesSource } = await resolveCarbonIntensitySeries(values, config);
+  const source = resolveEnergySource(values.source);
+  const sciOptions = resolveSciOptions(values, config);
+  const facility = resolveFacilityFactors(values, config) ?? undefined;
+  const energyBudget = resolveEnergyBudget(values, config);
+  const historyOptions = resolveHistoryOptions(values, config);
 
+  const controller = new AbortController();
 
-  //merge with config 
+  let child: import("node:child_process").ChildProcess | null = null;
+  let pid: number | null = null;
 
-  const configFallback: Partial<EmpiricalEnergyReaderOptions> = config?.fallback ?? {};
-  const fallback = {
-    pidleWatts: hasIdleCli ? (pidleWatts as number) : configFallback.pidleWatts,
-    pmaxWatts: hasMaxCli ? (pmaxWatts as number) : configFallback.pmaxWatts,
-    tdpWatts: values.tdp ? (tdp as number) : configFallback.tdpWatts,
-    idleFraction: configFallback.idleFraction,
-    maxFraction: configFallback.maxFraction,
+  // the thread breakdown is read from the target pid, a cgroup energy is not its to split
+  if (values.threads && values.cgroup) {
+    throw new Error("--threads cannot be combined with --cgroup: audit the --pid/--spawn target without --cgroup");
+  }
+  if (values.topology && values.cgroup) {
+    throw new Error("--topology cannot be combined with --cgroup: the per-package ticks are read from the target pid only");
   }
 
-  const controller = new AbortController();
+  const baselineMs = parseDurationMs("--baseline", values.baseline, 0);
+  if (baselineMs > 0 && !values.spawn) {
+    throw new Error("--baseline needs --spawn: the host is measured before the workload starts");
+  }
 
-  let child: import("node:child_process").ChildProcess | null = null;
-  let pid: number;
+  // idle pre-roll, before the child exists
+  let baseline: BaselineMeasurement | undefined;
+  if (baselineMs > 0) {
+    const hostSamplers = await createSamplers(null, fallback, { source, hostOnly: true });
+    if (hostSamplers.energyReader.isReady) {
+      notice(`Measuring idle baseline for ${(baselineMs / 1000).toFixed(1)} s...`);
+      baseline = await measureBaseline({ samplers: hostSamplers, durationSeconds: baselineMs / 1000, tickMs });
+      if (!baseline.ok) {
+        throw new Error(`Baseline measurement failed: ${baseline.reason} (use a --baseline of several ticks)`);
+      }
+    }
+  }
 
   if (values.spawn) {
     const spawned = await spawnTarget(values.spawn);
@@ -146,11 +210,27 @@ export async function auditCommand(argv = process.argv.slice(2)) {
     if (!Number.isFinite(pid) || pid <= 1) {
       throw new Error("--pid must be a valid process id");
     }
-  } else {
-    throw new Error("Missing target: use --pid <pid> or --spawn \"cmd\"");
+  } else if (!values.cgroup) {
+    throw new Error("Missing target: use --pid <pid>, --spawn \"cmd\" or --cgroup <path>");
+  }
+
+  // --cgroup auto => cgroup of the --pid/--spawn target (container, systemd service)
+  let cgroup: string | undefined = values.cgroup;
+  if (cgroup === "auto") {
+    if (pid === null) {
+      throw new Error("--cgroup auto needs a target: use --pid <pid> or --spawn \"cmd\"");
+    }
+    const resolved = await resolvePidCgroup(pid);
+    if (!resolved.ok || !resolved.path) {
+      if (child) await killGracefully(child, 1000);
+      throw new Error(`Cannot resolve the cgroup of PID ${pid}: ${resolved.error}`);
+    }
+    cgroup = resolved.path;
   }
 
-  const samplers = await createSamplers(pid, fallback);
+  const { strategy: attribution, idlePowerWatts, reservedCores, reservedCoresSource } = await resolveAttribution(values, pid);
+
+  const samplers = await createSamplers(pid, fallback, { topology: !!values.topology, tree: !!values.tree, threads: !!values.threads, cgroup, source });
 
   //--- optionnal context in verbose mode
 
@@ -159,47 +239,95 @@ export async function auditCommand(argv = process.argv.slice(2)) {
   //if calibration not set in options or in config file error
   if (!energyReader.isReady) {
     if (child) killGracefully(child, 1000);
+    if (energyReader.mode === "battery") {
+      throw new Error(`Battery measurement unavailable: ${energyReader.hint ?? energyReader.status}`);
+    }
     const error = `Energy measurement unavailable: 
     RAPL not available and fallback not configured.\n
     Provide --pidleW/--pmaxW (recommended), or --tdp, or use --config <file>.`
-    throw new Error(error);
+    const lookupError = cpuLookup && !cpuLookup.ok ? `\n    CPU model lookup: ${cpuLookup.error}${cpuLookup.model ? ` (${cpuLookup.model})` : ""}` : "";
+    throw new Error(error + lookupError);
   }
 
 
+  // RAPL/hwmon do not model idle power: it has to be measured
+  const modeledIdleWatts = energyReader.idlePowerWatts ?? null;
+  if (["dynamic-only", "idle-shared-by-reservation"].includes(attribution.name) && idlePowerWatts === null && modeledIdleWatts === null && !baseline) {
+    if (child) await killGracefully(child, 1000);
+    throw new Error(`--attribution ${attribution.name} needs the host idle power: use --idleW <W> or --baseline <duration>`);
+  }
+
   if (verbose) {
-    if (values.config) console.log(`Config: ${values.config}`);
+    if (values.config) notice(`Config: ${values.config}`);
 
     const er: any = samplers.energyReader;
 
-    console.log(`Energy source: ${String(er?.mode ?? "unknown").toUpperCase()}`);
+    notice(`Energy source: ${String(er?.mode ?? "unknown").toUpperCase()}`);
 
     if (er?.mode === "fallback") {
-      console.log(`Fallback params source: ${fallbackSource.toUpperCase()}`);
+      notice(`Fallback params source: ${fallbackSource.toUpperCase()}`);
       // optionnel: afficher les watts choisis
       if (fallback.pidleWatts && fallback.pmaxWatts) {
-        console.log(`Fallback model: P_idle=${fallback.pidleWatts}W P_max=${fallback.pmaxWatts}W`);
+        notice(`Fallback model: P_idle=${fallback.pidleWatts}W P_max=${fallback.pmaxWatts}W`);
       } else if (fallback.tdpWatts) {
-        console.log(`Fallback model: TDP=${fallback.tdpWatts}W`);
+        notice(`Fallback model: TDP=${fallback.tdpWatts}W`);
+      }
+      if (cpuLookup?.ok) {
+        const { model, name, confidence } = cpuLookup.match;
+        notice(`CPU model: ${model} => ${name} (confidence: ${(confidence * 100).toFixed(0)} %)`);
+      } else if (cpuLookup) {
+        notice(`CPU model lookup failed: ${cpuLookup.error}${cpuLookup.model ? ` (${cpuLookup.model})` : ""}`);
       }
     }
 
-    console.log(
+    notice(
       `Emission factor: ${emissionFactor} gCO2e/kWh (source: ${emissionFactorSource.toUpperCase()})`
     );
+    if (country) {
+      notice(`Emission factor country: ${country.countryName} (${country.isoCode}), year ${country.year}`);
+    }
+    notice(`Attribution: ${attribution.name} (${attribution.description})`);
+    if (idlePowerWatts !== null) {
+      notice(`Idle power: ${idlePowerWatts} W (source: CLI)`);
+    } else if (baseline) {
+      notice(`Idle power: ${baseline.hostPowerWatts.toFixed(3)} W (source: BASELINE)`);
+    } else if (modeledIdleWatts !== null) {
+      notice(`Idle power: ${modeledIdleWatts} W (source: FALLBACK MODEL)`);
+    }
+    if (reservedCores !== null) {
+      notice(`Reserved cores: ${reservedCores} (source: ${reservedCoresSource.toUpperCase()})`);
+    }
+    if (facility) {
+      notice(`Facility: PUE=${facility.pue}${facility.wue_LPerKWh !== null ? ` WUE=${facility.wue_LPerKWh} L/kWh` : ""}${facility.site ? ` (site: ${facility.site})` : ""}`);
+    }
+    if (carbonIntensitySeries) {
+      const first = new Date(carbonIntensitySeries[0].timestampMs).toISOString();
+      const last = new Date(carbonIntensitySeries[carbonIntensitySeries.length - 1].timestampMs).toISOString();
+      notice(`Carbon intensity series: ${seriesFile} (${carbonIntensitySeries.length} points, ${first} .. ${last}, source: ${seriesSource.toUpperCase()})`);
+    }
 
-    console.log("");
+    notice("");
   }
 
-  console.log(`Starting audit for PID:${pid}...please wait`);
+  notice(`Starting audit for ${cgroup ? `cgroup:${cgroup}` : `PID:${pid}`}...please wait`);
 
   // run audit
 
   const result = await audit({
     pid,
+    cgroup,
     durationSeconds,
     tickMs,
     samplers,
     emissionFactor_gCO2ePerKWh: emissionFactor,
+    carbonIntensitySeries,
+    facility,
+    baseline,
+    attribution,
+    idlePowerWatts: idlePowerWatts ?? undefined,
+    reservedCores,
+    // the HTML report charts the per-tick series
+    timeline: timelineFormat !== null || !!values.report || formatter.name === "html",
     debugTiming,
     debugMeta,
     signal: controller.signal
@@ -210,40 +338,77 @@ export async function auditCommand(argv = process.argv.slice(2)) {
     await killGracefully(child, 2000);
   }
 
-  if (jsonOutput) {
-    console.log(JSON.stringify(result, null, 2));
-    return;
+  // ticks taken on AC (or while charging) are not counted
+  const acOnlineSamples = energyReader.acOnlineSamples ?? 0;
+  if (acOnlineSamples > 0) {
+    console.warn(`Warning: AC adapter connected during ${acOnlineSamples} tick(s), battery energy is underestimated`);
   }
 
+  if (values.timeline && timelineFormat && result.timeline) {
+    await writeFile(values.timeline, renderTimeline(result.timeline, timelineFormat), "utf-8");
+  }
 
+  // SCI = ((E × I) + M) per R, on the process energy
+  const sci = sciOptions ? computeSci({
+    energyJoules: result.processCpuEnergyJoules,
+    emissionFactor_gCO2ePerKWh: result.carbonIntensity?.processEffectiveFactor_gCO2ePerKWh ?? result.emissionFactor_gCO2ePerKWh,
+    durationSeconds: result.durationSeconds,
+    embodied: sciOptions.embodied,
+    functionalUnits: sciOptions.functionalUnits,
+    functionalUnit: sciOptions.functionalUnit,
+  }) : undefined;
+
+  const budget = energyBudget ? checkEnergyBudget({
+    energyJoules: result.processCpuEnergyJoules,
+    carbon_gCO2e: result.processCpuCarbon_gCO2e,
+    durationSeconds: result.durationSeconds,
+  }, energyBudget.budget, energyBudget.label) : undefined;
+  if (budget && !budget.ok) {
+    process.exitCode = BUDGET_EXCEEDED_EXIT_CODE;
+  }
 
-  // 5) print result
-  console.log("==============================");
-  console.log("\nCPU Energy Audit (bounded)");
-  console.log("\n--------------------------\n");
-  console.log(new Date().toLocaleDateString());
-  console.log(`PID: ${result.pid}`);
-  console.log(`Duration: ${result.durationSeconds.toFixed(2)} s`);
-  console.log("\n---------ENERGY-----------\n");
-  console.log(`Source: ${energyReader.mode}`);
-  console.log(`Host CPU energy: ${result.hostCpuEnergyJoules.toFixed(3)} J`);
-  console.log(`Process CPU energy: ${result.processCpuEnergyJoules.toFixed(3)} J`);
-  console.log(`Process energy share: ${(result.processCpuEnergyShare * 100).toFixed(2)} %`);
-  console.log("\n-----------POWER----------\n");
-  console.log(`Average CPU Power:`);
-  console.log(`Host avg CPU power: ${result.hostCpuEnergyJoules / result.durationSeconds} W`);
-  console.log(`Process avg CPU power: ${result.processCpuEnergyJoules / result.durationSeconds} W`);
-  console.log("\n-----------CARBON---------\n");
-  console.log(`CPU Carbon Footprint:`);
-  console.log(`Emission Factor:475`);
-  console.log(`Host CPU carbon footprint: ${result.hostCpuCarbon_gCO2e.toFixed(6)} gCO2e`);
-  console.log(`Process CPU carbon footprint: ${result.processCpuCarbon_gCO2e.toFixed(6)} gCO2e`);
-  console.log("\n--------------------------\n");
-  console.log(`Process active: ${result.isActive ? "yes" : "no"}`);
-  console.log("\n--------------------------\n");
-  if (debugMeta && (result as any).meta) {
-    console.log("\nDebug meta:");
-    console.log(JSON.stringify((result as any).meta, null, 2));
-  }
-  console.log("nodefootprint v.0.0.1");
+  if (historyOptions.enabled) {
+    // the timeline stays in --timeline files, the history keeps one line per run
+    const { timeline: _timeline, ...recorded } = result;
+    await appendHistoryEntry(historyOptions.file, {
+      label: historyOptions.label,
+      timestamp: new Date().toISOString(),
+      host: hostFingerprint(result.energySource),
+      git: await readGitRevision(),
+      result: recorded,
+    });
+  }
+
+  const report: AuditReport = {
+    ...result,
+    ...(sci ? { sci: { ...sci, embodiedProfile: sciOptions!.embodiedProfile } } : {}),
+    ...(budget ? { budget } : {}),
+  };
+  const output = formatter.format(report);
+  if (values.output) {
+    await writeFile(values.output, output + "\n", "utf-8");
+  } else {
+    console.log(output);
+  }
+
+  if (values.report) {
+    await writeFile(values.report, htmlFormatter.format(report), "utf-8");
+  }
+  if (values.output) notice(`\nReport (${formatter.name}) written to ${values.output}`);
+  if (values.report) notice(`HTML report written to ${values.report}`);
+  if (values.timeline && result.timeline) notice(`Timeline written to ${values.timeline}`);
+  if (historyOptions.enabled) notice(`History: recorded as "${historyOptions.label}" in ${historyOptions.file}`);
+  if (budget && !budget.ok && (formatter !== textFormatter || values.output)) {
+    // CI logs still show why the job failed
+    for (const line of renderBudget(budget).filter((l) => l.startsWith("EXCEEDED"))) console.error(line);
+  }
+
+  if (values["github-summary"]) {
+    const summaryFile = process.env.GITHUB_STEP_SUMMARY;
+    if (summaryFile) {
+      await appendFile(summaryFile, markdownFormatter.format(report) + "\n\n", "utf-8");
+    } else {
+      notice("--github-summary: GITHUB_STEP_SUMMARY is not set, no job summary written");
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { parseArgs } from "node:util";
+import process from "node:process";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { killGracefully, parsePositiveNumberFromCommand, parseDurationMs, resolveFallbackWithCpuLookup, resolveEmissionFactor, resolveEnergySource, auditSpawnedRun, isFailedRun, spawnedRunFailure, SpawnedRunOptions, SpawnedRunResult } from "./command-utils.js";
+import { describeSample, SampleStatistics } from "../../index.js";
+import { printHelp } from "./help-command.js";
+import { AppConfig, loadConfig } from "../../config/config.js";
+
+export interface BenchRun extends SpawnedRunResult {
+  run: number;              // 1-based, warmup runs excluded
+  processAvgWatts: number;
+}
+
+export interface BenchStatistics {
+  processCpuEnergyJoules: SampleStatistics;
+  durationSeconds: SampleStatistics;
+  processAvgWatts: SampleStatistics;
+}
+
+const METRIC_LABELS: Record<keyof BenchStatistics, string> = {
+  processCpuEnergyJoules: "Process energy (J)",
+  durationSeconds: "Duration (s)",
+  processAvgWatts: "Process avg power (W)",
+};
+
+/**
+ * Statistics over the successful runs: a failed or truncated run measures something else,
+ * it is kept in the --json runs, not in the statistics.
+ */
+export function summarizeBenchRuns(runs: BenchRun[]): BenchStatistics {
+  const succeeded = runs.filter((r) => !isFailedRun(r));
+  return {
+    processCpuEnergyJoules: describeSample(succeeded.map((r) => r.result.processCpuEnergyJoules)),
+    durationSeconds: describeSample(succeeded.map((r) => r.result.durationSeconds)),
+    processAvgWatts: describeSample(succeeded.map((r) => r.processAvgWatts)),
+  };
+}
+
+/**
+ * Builds the statistics table (pure, no I/O).
+ */
+export function renderBenchTable(statistics: BenchStatistics): string[] {
+  const columns = ["mean", "median", "stddev", "min", "max", "95% CI"];
+  const lines = [["Metric".padEnd(22), ...columns.map((c) => c.padStart(10))].join(" ")];
+  for (const key of Object.keys(METRIC_LABELS) as (keyof BenchStatistics)[]) {
+    const s = statistics[key];
+    const ci = s.ci95 ? `${s.ci95[0].toFixed(3)} .. ${s.ci95[1].toFixed(3)}` : "--";
+    lines.push([
+      METRIC_LABELS[key].padEnd(22),
+      ...[s.mean, s.median, s.stddev, s.min, s.max].map((v) => (Number.isFinite(v) ? v.toFixed(3) : "--").padStart(10)),
+      ci.padStart(10),
+    ].join(" "));
+  }
+  return lines;
+}
+
+/**
+ * bench --spawn "<cmd>" [--runs 10] [--warmup 1] [--cooldown 2s]
+ * audits the same command several times and reports the spread of the measurements
+ */
+export async function benchCommand(argv = process.argv.slice(2)) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      help: { type: "boolean" },
+
+      config: { type: "string" },
+
+      spawn: { type: "string" },
+      runs: { type: "string" },
+      warmup: { type: "string" },
+      cooldown: { type: "string" },
+      tree: { type: "boolean" },
+
+      pidleW: { type: "string" },
+      pmaxW: { type: "string" },
+      tdp: { type: "string" },
+
+      duration: { type: "string" },
+      tick: { type: "string" },
+
+      ef: { type: "string" },
+      country: { type: "string" },
+      source: { type: "string" },
+
+      json: { type: "boolean" },
+    },
+    allowPositionals: true
+  });
+
+  if (values.help) {
+    printHelp();
+    return;
+  }
+
+  if (!values.spawn) {
+    throw new Error("bench needs a command: --spawn \"<cmd>\"");
+  }
+
+  const configPath = values.config ?? path.resolve(process.cwd(), 'nodefootprint.config.json');
+  const config: AppConfig | undefined | null = configPath ? await loadConfig(configPath) : null;
+
+  const { fallback } = await resolveFallbackWithCpuLookup(values, config);
+  const { emissionFactor } = await resolveEmissionFactor(values, config);
+  const source = resolveEnergySource(values.source);
+
+  const runCount = Math.round(parsePositiveNumberFromCommand('--runs', values.runs, 10));
+  const warmup = values.warmup === undefined ? 1 : Number(values.warmup);
+  if (!Number.isInteger(warmup) || warmup < 0) {
+    throw new Error("--warmup must be an integer >= 0");
+  }
+  const cooldownMs = values.cooldown === undefined ? 0 : parseDurationMs('--cooldown', values.cooldown, 0);
+  const maxDurationSeconds = parsePositiveNumberFromCommand('--duration', values.duration, 300);
+  const tickMs = parsePositiveNumberFromCommand('--tick', values.tick, 100);
+  const jsonOutput = !!values.json;
+
+  let current: import("node:child_process").ChildProcess | null = null;
+  process.once("SIGINT", async () => {
+    if (current) await killGracefully(current, 1500);
+    process.exit(130);
+  });
+
+  const runOptions: SpawnedRunOptions = {
+    fallback, source, tree: !!values.tree, tickMs, maxDurationSeconds, emissionFactor,
+    onChild: (child) => { current = child; },
+  };
+
+  const runs: BenchRun[] = [];
+  for (let i = 0; i < warmup + runCount; i++) {
+    if (i > 0 && cooldownMs > 0) await sleep(cooldownMs);
+
+    const outcome = await auditSpawnedRun(values.spawn, runOptions);
+    const { result } = outcome;
+    const processAvgWatts = result.durationSeconds > 0 ? result.processCpuEnergyJoules / result.durationSeconds : 0;
+    const isWarmup = i < warmup;
+
+    if (!jsonOutput) {
+      const label = isWarmup ? `warmup ${i + 1}/${warmup}` : `run ${i - warmup + 1}/${runCount}`;
+      const failure = spawnedRunFailure(outcome);
+      const status = failure === null ? "" : ` (${failure})`;
+      console.log(`${label}: ${result.processCpuEnergyJoules.toFixed(3)} J, ${result.durationSeconds.toFixed(2)} s, ${processAvgWatts.toFixed(3)} W${status}`);
+    }
+    if (!isWarmup) {
+      runs.push({ run: i - warmup + 1, processAvgWatts, ...outcome });
+    }
+  }
+
+  const statistics = summarizeBenchRuns(runs);
+  const failedRuns = runs.filter(isFailedRun).length;
+
+  if (jsonOutput) {
+    console.log(JSON.stringify({ command: values.spawn, warmup, cooldownMs, statistics, failedRuns, runs }, null, 2));
+    return;
+  }
+
+  console.log("==============================");
+  console.log(`\nCPU Energy Benchmark: ${values.spawn}`);
+  console.log(`${runCount} runs (+${warmup} warmup), tick ${tickMs} ms${cooldownMs > 0 ? `, cooldown ${cooldownMs} ms` : ""}`);
+  console.log("\n--------------------------\n");
+  console.log(renderBenchTable(statistics).join("\n"));
+  if (failedRuns > 0) {
+    console.log(`\nWarning: ${failedRuns} of ${runs.length} run(s) failed, were killed or measured no tick, excluded from the statistics`);
+  }
+  console.log("\n--------------------------\n");
+  console.log("nodefootprint v.0.0.1");
+}
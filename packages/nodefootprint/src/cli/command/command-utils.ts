@@ -1,6 +1,11 @@
 import { spawn } from "node:child_process";
 import { once } from "node:events";
 import { readFile } from "node:fs/promises";
+import { AppConfig } from "../../config/config.js";
+import { DEFAULT_HISTORY_FILE } from "../../history/history.js";
+import { getAuditFormatter, listAuditFormatters, auditFormatterForFile } from "../format/formatters.js";
+import type { AuditFormatter } from "../format/report.js";
+import { EmpiricalEnergyReaderOptions, EnergySource, lookupCpuPowerProfile, CpuPowerLookupResult, lookupCountryEmissionFactor, CountryEmissionFactor, loadCarbonIntensitySeries, EmbodiedProfile, FacilityFactors, ATTRIBUTION_STRATEGIES, DEFAULT_ATTRIBUTION_STRATEGY, getAttributionStrategy, readAllowedCpuCount, audit, createSamplers, EnergyBudget } from "../../index.js";
 
 
 // splitCommand.ts
@@ -265,6 +270,21 @@ export function parsePositiveNumberFromCommand(name:string,v:string | undefined,
   return n;
 }
 
+const DURATION_UNITS_MS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * "500ms", "90s", "30m", "24h", "1d" => milliseconds; a bare number is in seconds
+ */
+export function parseDurationMs(name: string, v: string | undefined, fallbackMs: number) {
+  if (v === undefined) return fallbackMs;
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/.exec(v.trim());
+  const ms = match ? Number(match[1]) * DURATION_UNITS_MS[match[2] ?? "s"] : NaN;
+  if (!Number.isFinite(ms) || ms <= 0) {
+    throw new Error(`${name} must be a positive duration (e.g. 90s, 30m, 24h)`);
+  }
+  return ms;
+}
+
 export async function tryReadProcComm(pid:number) {
   try {
     const comm = await readFile(`/proc/${pid}/comm`,"utf-8");
@@ -272,4 +292,418 @@ export async function tryReadProcComm(pid:number) {
   } catch (error) {
     return null;
   }
-}
\ No newline at end of file
+}
+
+export interface EnergyFlags {
+  pidleW?: string;
+  pmaxW?: string;
+  tdp?: string;
+  ef?: string;
+  country?: string;
+  intensity?: string;
+}
+
+export type ParameterSource = "cli" | "config" | "lookup" | "default" | "missing";
+
+/**
+ * Resolves fallback power parameters
+ * order: CLIFLAGS > CONFIG > missing
+ */
+export function resolveFallbackOptions(values: EnergyFlags, config?: AppConfig | null) {
+  const tdp = values.tdp ? Number(values.tdp) : undefined;
+  const pidleWatts = values.pidleW ? Number(values.pidleW) : undefined;
+  const pmaxWatts = values.pmaxW ? Number(values.pmaxW) : undefined;
+
+  const hasIdleCli = Number.isFinite(pidleWatts);
+  const hasMaxCli = Number.isFinite(pmaxWatts);
+
+  if (hasIdleCli !== hasMaxCli) {
+    throw new Error("Use both --pidleW and --pmaxW together (or none)");
+  }
+
+  if (hasIdleCli && (pidleWatts as number) <= 0) throw new Error("--pidleW must be > 0");
+  if (hasMaxCli && (pmaxWatts as number) <= 0) throw new Error("--pmaxW must be > 0");
+  if (hasIdleCli && (pmaxWatts as number) < (pidleWatts as number)) {
+    throw new Error("--pmaxW must be >= --pidleW");
+  }
+  if (values.tdp && (!Number.isFinite(tdp as any) || (tdp as number) <= 0)) {
+    throw new Error("--tdp must be > 0");
+  }
+
+  //track source for debug
+  const fallbackSource: ParameterSource =
+    hasIdleCli ? "cli" :
+      (isFinite(config?.fallback?.pidleWatts as number) && isFinite(config?.fallback?.pmaxWatts as number)) ? "config" :
+        values.tdp ? "cli" :
+          isFinite(config?.fallback?.tdpWatts as number) ? "config" :
+            "missing";
+
+  //merge with config
+  const configFallback: Partial<EmpiricalEnergyReaderOptions> = config?.fallback ?? {};
+  const fallback = {
+    pidleWatts: hasIdleCli ? (pidleWatts as number) : configFallback.pidleWatts,
+    pmaxWatts: hasMaxCli ? (pmaxWatts as number) : configFallback.pmaxWatts,
+    tdpWatts: values.tdp ? (tdp as number) : configFallback.tdpWatts,
+    idleFraction: configFallback.idleFraction,
+    maxFraction: configFallback.maxFraction,
+  }
+
+  return { fallback, fallbackSource };
+}
+
+/**
+ * Resolves fallback power parameters, completed with the TDP of the cpu model
+ * (/proc/cpuinfo matched against data/cpu-power.csv) when neither CLI nor config provide them
+ * order: CLIFLAGS > CONFIG > CPU MODEL LOOKUP > missing
+ */
+export async function resolveFallbackWithCpuLookup(values: EnergyFlags, config?: AppConfig | null, lookup: () => Promise<CpuPowerLookupResult> = lookupCpuPowerProfile) {
+  const { fallback, fallbackSource } = resolveFallbackOptions(values, config);
+  if (fallbackSource !== "missing") {
+    return { fallback, fallbackSource, cpuLookup: null };
+  }
+
+  const cpuLookup = await lookup();
+  if (!cpuLookup.ok) {
+    return { fallback, fallbackSource, cpuLookup };
+  }
+  return {
+    fallback: { ...fallback, tdpWatts: cpuLookup.match.tdpWatts },
+    fallbackSource: "lookup" as ParameterSource,
+    cpuLookup,
+  };
+}
+
+/**
+ * Resolves the emission factor (gCO2e/kWh)
+ * order: --ef > --country > config.emissionFactor.factor > config.emissionFactor.country > default (475)
+ * countries (ISO-2 or ISO-3) are resolved from data/energy-mix.json
+ */
+export async function resolveEmissionFactor(values: EnergyFlags, config?: AppConfig | null) {
+  if (values.ef) {
+    const emissionFactor = parsePositiveNumberFromCommand('--ef', values.ef, 475);
+    return { emissionFactor, emissionFactorSource: "cli" as ParameterSource, country: null };
+  }
+
+  const resolveCountry = async (flag: string, code: string): Promise<CountryEmissionFactor> => {
+    const lookup = await lookupCountryEmissionFactor(code);
+    if (!lookup.ok) {
+      throw new Error(`${flag}: no emission factor for "${code}" (${lookup.error}), see "nodefootprint factors"`);
+    }
+    return lookup.country;
+  };
+
+  if (values.country) {
+    const country = await resolveCountry('--country', values.country);
+    return { emissionFactor: country.emissionFactor_gCO2ePerKWh, emissionFactorSource: "cli" as ParameterSource, country };
+  }
+
+  if (config?.emissionFactor?.factor) {
+    return { emissionFactor: config.emissionFactor.factor, emissionFactorSource: "config" as ParameterSource, country: null };
+  }
+
+  if (config?.emissionFactor?.country) {
+    const country = await resolveCountry('config emissionFactor.country', config.emissionFactor.country);
+    return { emissionFactor: country.emissionFactor_gCO2ePerKWh, emissionFactorSource: "config" as ParameterSource, country };
+  }
+
+  return { emissionFactor: 475, emissionFactorSource: "default" as ParameterSource, country: null };
+}
+
+
+const ENERGY_SOURCES: EnergySource[] = ["auto", "battery"];
+
+/**
+ * Resolves the energy source (--source)
+ * auto: RAPL > hwmon > empirical, battery: laptop discharge (whole platform)
+ */
+export function resolveEnergySource(value: string | undefined): EnergySource {
+  const source = (value ?? "auto") as EnergySource;
+  if (!ENERGY_SOURCES.includes(source)) {
+    throw new Error(`--source must be one of: ${ENERGY_SOURCES.join(", ")}`);
+  }
+  return source;
+}
+
+/**
+ * Loads the carbon intensity series (timestamp, gCO2e/kWh), if any
+ * order: --intensity > config.emissionFactor.intensityFile > none
+ * the resolved emission factor still applies outside the series
+ */
+export async function resolveCarbonIntensitySeries(values: EnergyFlags, config?: AppConfig | null) {
+  const file = values.intensity ?? config?.emissionFactor?.intensityFile;
+  if (!file) {
+    return { series: undefined, seriesFile: null, seriesSource: "missing" as ParameterSource };
+  }
+  const flag = values.intensity ? "--intensity" : "config emissionFactor.intensityFile";
+  try {
+    const series = await loadCarbonIntensitySeries(file);
+    return { series, seriesFile: file, seriesSource: (values.intensity ? "cli" : "config") as ParameterSource };
+  } catch (error) {
+    throw new Error(`${flag}: cannot load ${file} (${(error as Error).message})`);
+  }
+}
+
+export interface SciFlags {
+  sci?: boolean;
+  "functional-unit"?: string;
+  embodied?: string;
+}
+
+/**
+ * Resolves the SCI inputs: null without --sci
+ * --functional-unit "<n> [name]" (default: 1 run), name from config.sci.functionalUnit otherwise
+ * --embodied <profile> looked up in config.sci.embodied (none => M = 0)
+ */
+export function resolveSciOptions(values: SciFlags, config?: AppConfig | null) {
+  if (!values.sci) return null;
+
+  let functionalUnits = 1;
+  let functionalUnit = config?.sci?.functionalUnit ?? "run";
+  const raw = values["functional-unit"];
+  if (raw !== undefined) {
+    const match = /^(\d+(?:\.\d+)?)\s*(.*)$/.exec(raw.trim());
+    functionalUnits = match ? Number(match[1]) : NaN;
+    if (!Number.isFinite(functionalUnits) || functionalUnits <= 0) {
+      throw new Error("--functional-unit must be a positive number, optionally followed by a name (e.g. \"1000 requests\")");
+    }
+    if (match![2]) functionalUnit = match![2];
+    else if (!config?.sci?.functionalUnit) functionalUnit = "unit";
+  }
+
+  let embodied: EmbodiedProfile | null = null;
+  if (values.embodied) {
+    const profiles = config?.sci?.embodied ?? {};
+    embodied = profiles[values.embodied] ?? null;
+    if (!embodied) {
+      const known = Object.keys(profiles);
+      throw new Error(`--embodied: unknown profile "${values.embodied}" (config sci.embodied: ${known.length > 0 ? known.join(", ") : "none defined"})`);
+    }
+  }
+
+  return { functionalUnits, functionalUnit, embodied, embodiedProfile: values.embodied ?? null };
+}
+
+export interface FacilityFlags {
+  pue?: string;
+  wue?: string;
+  site?: string;
+}
+
+/**
+ * Resolves datacenter overhead factors: null when neither PUE nor WUE is set
+ * order (each factor): --pue/--wue > site preset (--site > config.facility.site) > config.facility.pue/wue
+ */
+export function resolveFacilityFactors(values: FacilityFlags, config?: AppConfig | null): FacilityFactors | null {
+  const site = values.site ?? config?.facility?.site ?? null;
+  const preset = site ? config?.facility?.sites?.[site] : undefined;
+  if (site && !preset) {
+    const known = Object.keys(config?.facility?.sites ?? {});
+    throw new Error(`--site: unknown site "${site}" (config facility.sites: ${known.length > 0 ? known.join(", ") : "none defined"})`);
+  }
+
+  const pue = values.pue !== undefined ? Number(values.pue) : preset?.pue ?? config?.facility?.pue;
+  const wue = values.wue !== undefined ? Number(values.wue) : preset?.wue ?? config?.facility?.wue;
+
+  if (pue !== undefined && (!Number.isFinite(pue) || pue < 1)) {
+    throw new Error("--pue must be a number >= 1");
+  }
+  if (wue !== undefined && (!Number.isFinite(wue) || wue < 0)) {
+    throw new Error("--wue must be a number >= 0 (litres/kWh)");
+  }
+  if (pue === undefined && wue === undefined) return null;
+
+  return { pue: pue ?? 1, wue_LPerKWh: wue ?? null, site };
+}
+
+export interface BudgetFlags {
+  budget?: string;
+  "max-joules"?: string;
+  "max-gco2e"?: string;
+  "max-avg-watts"?: string;
+}
+
+/**
+ * Resolves the energy budget of the audit: null when no threshold is set
+ * order (each threshold): --max-joules/--max-gco2e/--max-avg-watts > config.budgets[--budget]
+ */
+export function resolveEnergyBudget(values: BudgetFlags, config?: AppConfig | null): { budget: EnergyBudget; label: string | null } | null {
+  const label = values.budget ?? null;
+  const preset = label ? config?.budgets?.[label] : undefined;
+  if (label && !preset) {
+    const known = Object.keys(config?.budgets ?? {});
+    throw new Error(`--budget: unknown budget "${label}" (config budgets: ${known.length > 0 ? known.join(", ") : "none defined"})`);
+  }
+
+  const threshold = (name: string, flag: string | undefined, fromConfig: number | undefined) => {
+    const v = flag !== undefined ? Number(flag) : fromConfig;
+    if (v !== undefined && (!Number.isFinite(v) || v < 0)) {
+      throw new Error(`${name} must be a number >= 0`);
+    }
+    return v;
+  };
+  const budget: EnergyBudget = {
+    maxJoules: threshold("--max-joules", values["max-joules"], preset?.maxJoules),
+    maxGco2e: threshold("--max-gco2e", values["max-gco2e"], preset?.maxGco2e),
+    maxAvgWatts: threshold("--max-avg-watts", values["max-avg-watts"], preset?.maxAvgWatts),
+  };
+  if (budget.maxJoules === undefined && budget.maxGco2e === undefined && budget.maxAvgWatts === undefined) return null;
+
+  return { budget, label };
+}
+
+export interface HistoryFlags {
+  history?: boolean;
+  label?: string;
+  spawn?: string;
+  file?: string;
+}
+
+/**
+ * Resolves the result history store
+ * enabled: --history > config.history.enabled > off
+ * file: --file > config.history.file > .nodefootprint/history.ndjson (relative to cwd)
+ * label: --label > --spawn command > "default"
+ */
+export function resolveHistoryOptions(values: HistoryFlags, config?: AppConfig | null) {
+  return {
+    enabled: !!(values.history ?? config?.history?.enabled),
+    file: values.file ?? config?.history?.file ?? DEFAULT_HISTORY_FILE,
+    label: values.label ?? values.spawn ?? "default",
+  };
+}
+
+export interface OutputFlags {
+  format?: string;
+  json?: boolean;
+  output?: string;
+}
+
+/**
+ * Resolves the audit report format
+ * order: --format > --json > extension of --output (.json, .csv, .md...) > text
+ */
+export function resolveAuditFormatter(values: OutputFlags): AuditFormatter {
+  if (values.format !== undefined) {
+    const formatter = getAuditFormatter(values.format);
+    if (!formatter) {
+      throw new Error(`--format must be one of: ${listAuditFormatters().map((f) => f.name).join(", ")}`);
+    }
+    if (values.json && formatter.name !== "json") {
+      throw new Error(`--json conflicts with --format ${formatter.name}`);
+    }
+    return formatter;
+  }
+  if (values.json) return getAuditFormatter("json")!;
+  return (values.output ? auditFormatterForFile(values.output) : undefined) ?? getAuditFormatter("text")!;
+}
+
+export interface AttributionFlags {
+  attribution?: string;
+  idleW?: string;
+  reservedCores?: string;
+}
+
+/**
+ * Resolves the host => process attribution strategy (default: active-share)
+ * idle power: --idleW (measured) > idle power of the fallback model (resolved by audit) > none
+ * reserved cores: --reservedCores > CPU affinity of the target (Cpus_allowed_list) > none
+ */
+export async function resolveAttribution(values: AttributionFlags, pid: number | null, readAllowed: (pid: number) => Promise<number | null> = readAllowedCpuCount) {
+  const name = values.attribution ?? DEFAULT_ATTRIBUTION_STRATEGY;
+  const strategy = getAttributionStrategy(name);
+  if (!strategy) {
+    throw new Error(`--attribution must be one of: ${[...ATTRIBUTION_STRATEGIES.keys()].join(", ")}`);
+  }
+
+  const idlePowerWatts = values.idleW !== undefined ? Number(values.idleW) : null;
+  if (idlePowerWatts !== null && (!Number.isFinite(idlePowerWatts) || idlePowerWatts < 0)) {
+    throw new Error("--idleW must be a number >= 0");
+  }
+
+  let reservedCores = values.reservedCores !== undefined ? Number(values.reservedCores) : null;
+  if (reservedCores !== null && (!Number.isFinite(reservedCores) || reservedCores <= 0)) {
+    throw new Error("--reservedCores must be > 0");
+  }
+  let reservedCoresSource: ParameterSource = reservedCores !== null ? "cli" : "missing";
+  if (reservedCores === null && strategy.name === "idle-shared-by-reservation" && pid !== null) {
+    reservedCores = await readAllowed(pid);
+    if (reservedCores !== null) reservedCoresSource = "lookup";
+  }
+
+  return { strategy, idlePowerWatts, reservedCores, reservedCoresSource };
+}
+
+export interface SpawnedRunOptions {
+  fallback: ReturnType<typeof resolveFallbackOptions>["fallback"];
+  source: EnergySource;
+  tree: boolean;
+  tickMs: number;
+  maxDurationSeconds: number;
+  emissionFactor: number;
+  onChild: (child: import("node:child_process").ChildProcess | null) => void;
+}
+
+export interface SpawnedRunResult {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null; // killed by a signal before the end of the run
+  timedOut: boolean;        // still running at maxDurationSeconds, killed
+  result: Awaited<ReturnType<typeof audit>>;
+}
+
+/**
+ * Why a spawned run measures something else than the command (bench, compare), null when it succeeded:
+ * non-zero exit, killed by a signal or at --duration, or exited before the first measured tick.
+ */
+export function spawnedRunFailure(run: Pick<SpawnedRunResult, "exitCode" | "signal" | "timedOut" | "result">): string | null {
+  if (run.timedOut) return "killed at --duration";
+  if (run.signal) return `killed by ${run.signal}`;
+  if (run.exitCode) return `exit code ${run.exitCode}`;
+  if (!(run.result.measuredSeconds > 0)) return "exited before the first measured tick";
+  return null;
+}
+
+/**
+ * Failed runs are kept in the --json runs, not in the statistics.
+ */
+export function isFailedRun(run: Pick<SpawnedRunResult, "exitCode" | "signal" | "timedOut" | "result">): boolean {
+  return spawnedRunFailure(run) !== null;
+}
+
+/**
+ * One spawned run (bench, compare), audited until the command exits (or maxDurationSeconds).
+ */
+export async function auditSpawnedRun(command: string, options: SpawnedRunOptions): Promise<SpawnedRunResult> {
+  const { child } = await spawnTarget(command);
+  if (!child?.pid) {
+    throw new Error("spawn failed: missing pid");
+  }
+  options.onChild(child);
+
+  const controller = new AbortController();
+  child.once("exit", () => controller.abort());
+  child.once("error", () => controller.abort());
+
+  try {
+    const samplers = await createSamplers(child.pid, options.fallback, { source: options.source, tree: options.tree });
+    if (!samplers.energyReader.isReady) {
+      throw new Error(`Energy measurement unavailable: ${samplers.energyReader.hint ?? samplers.energyReader.status}
+    Provide --pidleW/--pmaxW (recommended), or --tdp, or use --config <file>.`);
+    }
+
+    const result = await audit({
+      pid: child.pid,
+      durationSeconds: options.maxDurationSeconds,
+      tickMs: options.tickMs,
+      samplers,
+      emissionFactor_gCO2ePerKWh: options.emissionFactor,
+      debugTiming: false,
+      signal: controller.signal,
+    });
+
+    const timedOut = child.exitCode === null && child.signalCode === null;
+    return { exitCode: child.exitCode, signal: child.signalCode, timedOut, result };
+  } finally {
+    await killGracefully(child, 2000);
+    options.onChild(null);
+  }
+}
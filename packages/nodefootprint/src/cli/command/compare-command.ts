@@ -0,0 +1,195 @@
+import { parseArgs } from "node:util";
+import process from "node:process";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { killGracefully, parsePositiveNumberFromCommand, parseDurationMs, resolveFallbackWithCpuLookup, resolveEmissionFactor, resolveEnergySource, auditSpawnedRun, isFailedRun, spawnedRunFailure, SpawnedRunOptions, SpawnedRunResult } from "./command-utils.js";
+import { compareSamples, ComparisonMethod, ComparisonResult } from "../../index.js";
+import { printHelp } from "./help-command.js";
+import { AppConfig, loadConfig } from "../../config/config.js";
+
+export type CompareSide = "a" | "b";
+
+export interface CompareRun extends SpawnedRunResult {
+  side: CompareSide;
+  run: number;              // 1-based per side, warmup runs excluded
+}
+
+/**
+ * Run order of the measured runs: ABBA pairs, so that a slow drift
+ * (thermal, turbo budget, background load) weighs the same on A and B.
+ */
+export function interleaveOrder(runs: number): CompareSide[] {
+  const order: CompareSide[] = [];
+  for (let i = 0; i < runs; i++) {
+    order.push(...(i % 2 === 0 ? ["a", "b"] as const : ["b", "a"] as const));
+  }
+  return order;
+}
+
+function formatCi(ci: [number, number] | null | undefined, digits: number, unit = ""): string {
+  return ci ? `${ci[0].toFixed(digits)}${unit} .. ${ci[1].toFixed(digits)}${unit}` : "--";
+}
+
+/**
+ * Builds the comparison report with a plain verdict (pure, no I/O).
+ */
+export function renderComparison(comparison: ComparisonResult, commands: { a: string; b: string }): string[] {
+  const lines = [
+    `A: ${commands.a}`,
+    `   ${comparison.a.n} runs, mean ${comparison.a.mean.toFixed(3)} J, stddev ${comparison.a.stddev.toFixed(3)} J, 95% CI ${formatCi(comparison.a.ci95, 3, " J")}`,
+    `B: ${commands.b}`,
+    `   ${comparison.b.n} runs, mean ${comparison.b.mean.toFixed(3)} J, stddev ${comparison.b.stddev.toFixed(3)} J, 95% CI ${formatCi(comparison.b.ci95, 3, " J")}`,
+    "",
+  ];
+
+  if (!comparison.ok) {
+    const why = comparison.reason === "not_enough_runs"
+      ? "at least 2 successful runs per command are needed"
+      : "A measured no energy, the ratio is undefined";
+    lines.push(`Verdict: no comparison (${why})`);
+    return lines;
+  }
+
+  const ratio = comparison.ratio!;
+  lines.push(`Energy ratio B/A: ${ratio.toFixed(3)}${comparison.ratioCi95 ? ` (95% CI ${formatCi(comparison.ratioCi95, 3)})` : ""}`);
+  lines.push(`Difference B-A:   ${comparison.difference!.toFixed(3)} J (95% CI ${formatCi(comparison.differenceCi95, 3, " J")})`);
+  const test = comparison.welch
+    ? `Welch t-test: t = ${comparison.welch.t.toFixed(2)}, df = ${comparison.welch.df.toFixed(1)}, p = ${comparison.welch.pValue.toPrecision(2)}`
+    : "bootstrap: ratio interval vs 1";
+  lines.push(`Method:           ${test}`);
+  lines.push("");
+
+  if (!comparison.significant) {
+    lines.push(`Verdict: no significant difference between A and B at 5 % (observed ${((ratio - 1) * 100).toFixed(1)} %, within the noise)`);
+    return lines;
+  }
+
+  const percent = Math.abs(ratio - 1) * 100;
+  const evidence = comparison.welch
+    ? `p = ${comparison.welch.pValue.toPrecision(2)} < 0.05`
+    : "95% CI of the ratio excludes 1";
+  lines.push(`Verdict: B uses ${percent.toFixed(1)} % ${ratio < 1 ? "less" : "more"} energy than A (significant, ${evidence})`);
+  return lines;
+}
+
+/**
+ * compare --a "<cmd1>" --b "<cmd2>" [--runs 10] [--warmup 1] [--method welch|bootstrap]
+ * audits two commands alternately and tests whether their energy differs
+ */
+export async function compareCommand(argv = process.argv.slice(2)) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      help: { type: "boolean" },
+
+      config: { type: "string" },
+
+      a: { type: "string" },
+      b: { type: "string" },
+      runs: { type: "string" },
+      warmup: { type: "string" },
+      cooldown: { type: "string" },
+      method: { type: "string" },
+      tree: { type: "boolean" },
+
+      pidleW: { type: "string" },
+      pmaxW: { type: "string" },
+      tdp: { type: "string" },
+
+      duration: { type: "string" },
+      tick: { type: "string" },
+
+      ef: { type: "string" },
+      country: { type: "string" },
+      source: { type: "string" },
+
+      json: { type: "boolean" },
+    },
+    allowPositionals: true
+  });
+
+  if (values.help) {
+    printHelp();
+    return;
+  }
+
+  if (!values.a || !values.b) {
+    throw new Error("compare needs two commands: --a \"<cmd1>\" --b \"<cmd2>\"");
+  }
+  const commands = { a: values.a, b: values.b };
+
+  const method = (values.method ?? "welch") as ComparisonMethod;
+  if (method !== "welch" && method !== "bootstrap") {
+    throw new Error("--method must be welch or bootstrap");
+  }
+
+  const configPath = values.config ?? path.resolve(process.cwd(), 'nodefootprint.config.json');
+  const config: AppConfig | undefined | null = configPath ? await loadConfig(configPath) : null;
+
+  const { fallback } = await resolveFallbackWithCpuLookup(values, config);
+  const { emissionFactor } = await resolveEmissionFactor(values, config);
+  const source = resolveEnergySource(values.source);
+
+  const runCount = Math.round(parsePositiveNumberFromCommand('--runs', values.runs, 10));
+  const warmup = values.warmup === undefined ? 1 : Number(values.warmup);
+  if (!Number.isInteger(warmup) || warmup < 0) {
+    throw new Error("--warmup must be an integer >= 0");
+  }
+  const cooldownMs = values.cooldown === undefined ? 0 : parseDurationMs('--cooldown', values.cooldown, 0);
+  const maxDurationSeconds = parsePositiveNumberFromCommand('--duration', values.duration, 300);
+  const tickMs = parsePositiveNumberFromCommand('--tick', values.tick, 100);
+  const jsonOutput = !!values.json;
+
+  let current: import("node:child_process").ChildProcess | null = null;
+  process.once("SIGINT", async () => {
+    if (current) await killGracefully(current, 1500);
+    process.exit(130);
+  });
+
+  const runOptions: SpawnedRunOptions = {
+    fallback, source, tree: !!values.tree, tickMs, maxDurationSeconds, emissionFactor,
+    onChild: (child) => { current = child; },
+  };
+
+  const schedule = [...interleaveOrder(warmup).map((side) => ({ side, warmup: true })), ...interleaveOrder(runCount).map((side) => ({ side, warmup: false }))];
+  const counters = { a: 0, b: 0 };
+  const runs: CompareRun[] = [];
+  for (const [i, step] of schedule.entries()) {
+    if (i > 0 && cooldownMs > 0) await sleep(cooldownMs);
+
+    const outcome = await auditSpawnedRun(commands[step.side], runOptions);
+    if (!step.warmup) counters[step.side]++;
+
+    if (!jsonOutput) {
+      const label = step.warmup ? `warmup ${step.side.toUpperCase()}` : `run ${step.side.toUpperCase()} ${counters[step.side]}/${runCount}`;
+      const failure = spawnedRunFailure(outcome);
+      const status = failure === null ? "" : ` (${failure})`;
+      console.log(`${label}: ${outcome.result.processCpuEnergyJoules.toFixed(3)} J, ${outcome.result.durationSeconds.toFixed(2)} s${status}`);
+    }
+    if (!step.warmup) {
+      runs.push({ side: step.side, run: counters[step.side], ...outcome });
+    }
+  }
+
+  // a failed or truncated run measures something else: it is kept in the output, not in the test
+  const energies = (side: CompareSide) => runs
+    .filter((r) => r.side === side && !isFailedRun(r))
+    .map((r) => r.result.processCpuEnergyJoules);
+  const comparison = compareSamples(energies("a"), energies("b"), { method });
+
+  if (jsonOutput) {
+    console.log(JSON.stringify({ a: commands.a, b: commands.b, method, warmup, cooldownMs, comparison, runs }, null, 2));
+    return;
+  }
+
+  console.log("==============================");
+  console.log(`\nCPU Energy Comparison (${runCount} runs each, interleaved, +${warmup} warmup)`);
+  console.log("\n--------------------------\n");
+  console.log(renderComparison(comparison, commands).join("\n"));
+  const failed = runs.filter(isFailedRun);
+  if (failed.length > 0) {
+    console.log(`\nWarning: ${failed.length} run(s) failed, were killed or measured no tick, excluded from the test`);
+  }
+  console.log("\n--------------------------\n");
+  console.log("nodefootprint v.0.0.1");
+}
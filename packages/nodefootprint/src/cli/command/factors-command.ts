@@ -0,0 +1,49 @@
+import { parseArgs } from "node:util";
+import process from "node:process";
+import { loadCountryEmissionFactors, searchCountries, CountryEmissionFactor } from "../../index.js";
+import { printHelp } from "./help-command.js";
+
+/**
+ * One line per country: "FRA  FR  France  56.0 gCO2e/kWh (2021)" (pure, no I/O).
+ */
+export function renderFactorsTable(countries: CountryEmissionFactor[]): string[] {
+  const nameWidth = Math.max(0, ...countries.map((c) => c.countryName.length));
+  return countries.map((c) =>
+    `${c.isoCode}  ${(c.iso2 ?? "--").padEnd(2)}  ${c.countryName.padEnd(nameWidth)}  ${c.emissionFactor_gCO2ePerKWh.toFixed(1).padStart(6)} gCO2e/kWh (${c.year})`);
+}
+
+/**
+ * factors [query] : lists the per-country emission factors of data/energy-mix.json,
+ * filtered by ISO-2/ISO-3 code or country name
+ */
+export async function factorsCommand(argv = process.argv.slice(2)) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      help: { type: "boolean" },
+      json: { type: "boolean" },
+    },
+    allowPositionals: true
+  });
+
+  if (values.help) {
+    printHelp();
+    return;
+  }
+
+  const query = positionals.join(" ");
+  const countries = searchCountries(query, await loadCountryEmissionFactors());
+
+  if (values.json) {
+    console.log(JSON.stringify(countries, null, 2));
+    return;
+  }
+
+  if (countries.length === 0) {
+    console.log(`No country matching "${query}"`);
+    return;
+  }
+
+  console.log(renderFactorsTable(countries).join("\n"));
+  console.log(`\n${countries.length} countr${countries.length > 1 ? "ies" : "y"} (source: Our World in Data, data/energy-mix.json)`);
+}
@@ -1,12 +1,25 @@
 export function printHelp() {
     console.log(`
 Usage:
-  audit --pid <pid> [--duration 10] [--tick 1000] [--ef 475] [--json] [-v|-vv]
-  audit --spawn "<cmd>" [--duration 10] [--tick 1000] [--ef 475] [--json] [-v|-vv]
+  audit --pid <pid> [--duration 10] [--tick 1000] [--ef 475] [--source auto|battery] [--tree] [--threads] [--topology] [--json] [-v|-vv]
+  audit --spawn "<cmd>" [--duration 10] [--tick 1000] [--ef 475] [--tree] [--topology] [--json] [-v|-vv]
+  audit --spawn "<cmd>" [--format text|json|ndjson|csv|markdown|html] [--output <file>] [--report <file.html>] [--github-summary]
+  audit --spawn "<cmd>" [--max-joules J] [--max-gco2e g] [--max-avg-watts W] [--budget <label>]
+  audit --cgroup <path|auto> [--pid <pid>] [--duration 10] [--tick 1000] [--json]
+  monitor --pid <pid> [--tick 1000] [--window 10] [--ef 475]
+  monitor --spawn "<cmd>" [--tick 1000] [--window 10] [--ef 475]
+  monitor --pid <pid> --port 9464 [--host 0.0.0.0]
+  bench --spawn "<cmd>" [--runs 10] [--warmup 1] [--cooldown 2s] [--tick 100] [--tree] [--json]
+  compare --a "<cmd1>" --b "<cmd2>" [--runs 10] [--warmup 1] [--method welch|bootstrap] [--cooldown 2s] [--json]
+  history [--label <name>] [--metric joules|gco2e|avgWatts] [--window 10] [--last 20] [--json]
+  history --prune [--keep <n>] [--older-than 90d]
+  factors [country] [--json]
+  advise --result <audit.json> --forecast <file.csv|json> [--window 24h] [--now <ISO date>] [--json]
 
 Options:
   --pid <pid>            Audit an existing process id
   --spawn "<cmd>"        Spawn a command and audit its PID (best for short-lived jobs)
+  --cgroup <path|auto>   Audit a cgroup v2 (container, systemd service); auto = cgroup of --pid/--spawn
 
   --pidleW <W>          Fallback idle CPU power in Watts (calibrated)
   --pmaxW <W>           Fallback max CPU power in Watts (calibrated)
@@ -16,9 +29,52 @@ Options:
   --duration <seconds>   Audit duration (default: 10)
   --tick <ms>            Sampling period in ms (default: 1000)
   --ef <g/kWh>           Emission factor in gCO2e/kWh (default: 475)
+  --country <code>       Emission factor of a country (ISO-2 or ISO-3, e.g. FR / FRA), see "factors"; --ef wins
+  --intensity <file>     audit: carbon intensity series (csv/json: timestamp, gCO2e/kWh), each tick uses the value in force
+  --source <auto|battery> Energy source: auto (RAPL > hwmon > empirical) or battery discharge (laptop on battery, whole platform)
+  --window <ticks>       monitor: ticks in the rolling share window (default: 10)
+                         advise: the job must end within now + window (90s, 30m, 24h, 1d; default: 24h)
+                         history: previous runs forming the regression baseline (default: 10)
+  --port <n>             monitor: serve /metrics (OpenMetrics, Prometheus) and /metrics.json while sampling
+  --host <addr>          monitor --port: listen address (default: 127.0.0.1)
+  --runs <n>             bench, compare: measured runs (per command for compare, default: 10)
+  --warmup <n>           bench, compare: runs discarded before measuring (default: 1)
+  --cooldown <duration>  bench, compare: pause between runs (e.g. 2s, default: none)
+  --max-joules <J>       audit: exit code 3 when the process energy exceeds J
+  --max-gco2e <g>        audit: exit code 3 when the process carbon exceeds g
+  --max-avg-watts <W>    audit: exit code 3 when the process average power exceeds W
+  --budget <label>       audit: thresholds of config budgets.<label> (flags win)
+  --history              audit: append the result to .nodefootprint/history.ndjson (label, host, git commit)
+  --label <name>         audit --history: run label (default: the --spawn command); history: show one label
+  --metric <name>        history: joules (default), gco2e or avgWatts
+  --last <n>             history: rows shown per label (default: 20)
+  --file <path>          audit --history, history: history file (default: config history.file or .nodefootprint/history.ndjson)
+  --prune                history: remove entries, with --keep <n> newest per label and/or --older-than <duration>
+  --a "<cmd>" / --b "<cmd>"  compare: the two commands, run alternately (ABBA)
+  --method <name>        compare: welch (t-test, default) or bootstrap (ratio interval)
+  --result <file>        advise: audit --json result giving the job energy and duration
+  --forecast <file>      advise: carbon intensity forecast (same formats as --intensity)
+  --tree                 audit: include all descendants of the target (per-process breakdown)
+  --threads              audit: joules and share per thread name (event loop, libuv pool, V8 helpers...)
+  --pue <n>              audit: datacenter PUE, facility energy/carbon = CPU × PUE (reported apart)
+  --wue <L/kWh>          audit: datacenter WUE, estimated water footprint of the CPU energy
+  --site <name>          audit: PUE/WUE preset from config facility.sites
+  --sci                  audit: Software Carbon Intensity ((E × I) + M) per R of the process
+  --functional-unit "<n> [name]"  audit --sci: R, e.g. "1000 requests" (default: 1 run)
+  --embodied <profile>   audit --sci: embodied hardware profile from config sci.embodied (M)
+  --baseline <duration>  audit --spawn: measure idle host power first (e.g. 5s), report the marginal energy
+  --timeline <file>      audit: per-tick series to .csv or .ndjson (downsampled beyond 3600 points)
+  --attribution <name>   audit: active-share (default), dynamic-only, idle-shared-by-reservation, regression
+  --idleW <W>            audit: measured host idle power (dynamic-only, idle-shared-by-reservation)
+  --reservedCores <n>    audit: cores reserved by the process (default: CPU affinity)
+  --topology             audit: attribute each RAPL package with its own tick ratio (multi-socket), not with --cgroup
 
   --keepAlive            Do not kill spawned process after audit
   --json                 Print JSON output (machine-readable)
+  --format <name>        audit: text (default), json, ndjson, csv, markdown or html
+  --report <file>        audit: also write an offline HTML report (power, share and lateness charts)
+  --output <file>        audit: write the report to a file (format from the extension without --format)
+  --github-summary       audit: append the markdown report to $GITHUB_STEP_SUMMARY (GitHub Actions)
   --debugTiming           Print scheduler timing per tick (dev)
 
   -v / --verbose         More info (reader mode, target comm…)
@@ -0,0 +1,155 @@
+import { parseArgs } from "node:util";
+import process from "node:process";
+import path from "node:path";
+import { parseDurationMs, parsePositiveNumberFromCommand, resolveHistoryOptions } from "./command-utils.js";
+import { detectRegressions, RegressionCheck } from "../../index.js";
+import { printHelp } from "./help-command.js";
+import { AppConfig, loadConfig } from "../../config/config.js";
+import { HistoryEntry, readHistory, pruneHistory } from "../../history/history.js";
+
+export type HistoryMetric = "joules" | "gco2e" | "avgWatts";
+
+const HISTORY_METRICS: Record<HistoryMetric, { name: string; unit: string; digits: number; read: (e: HistoryEntry) => number }> = {
+  joules: { name: "Process energy", unit: "J", digits: 3, read: (e) => e.result.processCpuEnergyJoules },
+  gco2e: { name: "Process carbon", unit: "gCO2e", digits: 6, read: (e) => e.result.processCpuCarbon_gCO2e },
+  avgWatts: {
+    name: "Process avg power", unit: "W", digits: 3,
+    read: (e) => e.result.durationSeconds > 0 ? e.result.processCpuEnergyJoules / e.result.durationSeconds : NaN,
+  },
+};
+
+export interface HistoryTrend {
+  label: string;
+  host: string;           // fingerprint id: runs of different hosts are not comparable
+  entries: HistoryEntry[];
+  checks: RegressionCheck[];
+}
+
+/**
+ * Groups the entries by label and host (file order kept) and checks each run against
+ * the rolling baseline of the same label on the same host.
+ */
+export function buildHistoryTrends(entries: HistoryEntry[], metric: HistoryMetric, window: number): HistoryTrend[] {
+  const groups = new Map<string, HistoryTrend>();
+  for (const entry of entries) {
+    const host = entry.host?.id ?? "?";
+    const key = JSON.stringify([entry.label, host]);
+    const trend = groups.get(key) ?? { label: entry.label, host, entries: [], checks: [] };
+    trend.entries.push(entry);
+    groups.set(key, trend);
+  }
+  return [...groups.values()].map((trend) => ({
+    ...trend,
+    checks: detectRegressions(trend.entries.map(HISTORY_METRICS[metric].read), { window }),
+  }));
+}
+
+/**
+ * Trend table of one label on one host, newest run last (pure, no I/O).
+ */
+export function renderHistoryTrend(trend: HistoryTrend, metric: HistoryMetric, last: number): string[] {
+  const { name, unit, digits } = HISTORY_METRICS[metric];
+  const lines = [
+    `${trend.label} on ${trend.host}: ${trend.entries.length} run(s)`,
+    ["Date".padEnd(20), "Commit".padEnd(8), "Host".padEnd(12), `${name} (${unit})`.padStart(24), "vs baseline".padStart(12), ""].join(" ").trimEnd(),
+  ];
+  const start = Math.max(0, trend.entries.length - last);
+  for (let i = start; i < trend.entries.length; i++) {
+    const entry = trend.entries[i];
+    const check = trend.checks[i];
+    const change = check.change === null ? "--" : `${check.change >= 0 ? "+" : ""}${(check.change * 100).toFixed(1)} %`;
+    lines.push([
+      entry.timestamp.slice(0, 19).replace("T", " ").padEnd(20),
+      (entry.git?.commit.slice(0, 7) ?? "-").padEnd(8),
+      (entry.host?.id ?? "?").padEnd(12),
+      check.value.toFixed(digits).padStart(24),
+      change.padStart(12),
+      check.regression ? "REGRESSION" : "",
+    ].join(" ").trimEnd());
+  }
+  return lines;
+}
+
+/**
+ * history [--label x] [--metric joules|gco2e|avgWatts] [--window 10] [--last 20]
+ * history --prune [--keep 100] [--older-than 90d]
+ * shows the recorded audits (audit --history) and flags the runs worse than their rolling baseline
+ */
+export async function historyCommand(argv = process.argv.slice(2)) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      help: { type: "boolean" },
+
+      config: { type: "string" },
+      file: { type: "string" },
+
+      label: { type: "string" },
+      metric: { type: "string" },
+      window: { type: "string" },
+      last: { type: "string" },
+
+      prune: { type: "boolean" },
+      keep: { type: "string" },
+      "older-than": { type: "string" },
+
+      json: { type: "boolean" },
+    },
+    allowPositionals: true
+  });
+
+  if (values.help) {
+    printHelp();
+    return;
+  }
+
+  const configPath = values.config ?? path.resolve(process.cwd(), 'nodefootprint.config.json');
+  const config: AppConfig | undefined | null = configPath ? await loadConfig(configPath) : null;
+  const { file } = resolveHistoryOptions(values, config);
+
+  if (values.prune) {
+    const keep = values.keep === undefined ? undefined : Math.round(parsePositiveNumberFromCommand('--keep', values.keep, 1));
+    const olderThanMs = values["older-than"] === undefined ? undefined : parseDurationMs('--older-than', values["older-than"], 0);
+    if (keep === undefined && olderThanMs === undefined) {
+      throw new Error("history --prune needs --keep <n> and/or --older-than <duration>");
+    }
+    const removed = await pruneHistory(file, { keep, olderThanMs });
+    console.log(`History: ${removed} entr${removed === 1 ? "y" : "ies"} removed from ${file}`);
+    return;
+  }
+
+  const metric = (values.metric ?? "joules") as HistoryMetric;
+  if (!(metric in HISTORY_METRICS)) {
+    throw new Error(`--metric must be one of: ${Object.keys(HISTORY_METRICS).join(", ")}`);
+  }
+  const window = Math.round(parsePositiveNumberFromCommand('--window', values.window, 10));
+  const last = Math.round(parsePositiveNumberFromCommand('--last', values.last, 20));
+
+  const entries = (await readHistory(file)).filter((e) => values.label === undefined || e.label === values.label);
+  const trends = buildHistoryTrends(entries, metric, window);
+
+  if (values.json) {
+    console.log(JSON.stringify({ file, metric, window, trends: trends.map(({ entries, ...trend }) => ({ ...trend, runs: entries.length })) }, null, 2));
+    return;
+  }
+
+  if (trends.length === 0) {
+    console.log(`No history${values.label !== undefined ? ` for "${values.label}"` : ""} in ${file} (record audits with --history)`);
+    return;
+  }
+
+  console.log("==============================");
+  console.log(`\nCPU Energy History: ${file}`);
+  console.log(`Baseline: previous ${window} runs, a run above their 95 % prediction bound is a REGRESSION`);
+  for (const trend of trends) {
+    console.log("\n--------------------------\n");
+    console.log(renderHistoryTrend(trend, metric, last).join("\n"));
+  }
+  const regressions = trends.flatMap((t) => t.checks.filter((c) => c.regression).map((c) => ({ label: `${t.label} on ${t.host}`, entry: t.entries[c.index] })));
+  console.log("\n--------------------------\n");
+  console.log(regressions.length === 0
+    ? "No regression detected"
+    : `${regressions.length} regression(s): ${regressions.map((r) => `${r.label} @ ${r.entry.git?.commit.slice(0, 7) ?? r.entry.timestamp}`).join(", ")}`);
+  console.log("\n--------------------------\n");
+  console.log("nodefootprint v.0.0.1");
+}
@@ -0,0 +1,216 @@
+import { parseArgs } from "node:util";
+import process from "node:process";
+import path from "node:path";
+import * as readline from "node:readline";
+import { spawnTarget, killGracefully, extractVerbosity, parsePositiveNumberFromCommand, tryReadProcComm, resolveFallbackWithCpuLookup, resolveEmissionFactor, resolveEnergySource } from "./command-utils.js";
+import { createSamplers, monitor, MonitorSnapshot } from "../../index.js";
+import { printHelp } from "./help-command.js";
+import { AppConfig, loadConfig } from "../../config/config.js";
+import { MetricsState } from "../../server/metrics.js";
+import { buildServer } from "../../server/server.js";
+
+/**
+ * Builds the lines of one monitor frame (pure, no I/O).
+ */
+export function renderMonitorFrame(snapshot: MonitorSnapshot, context: { comm?: string | null, source: string, emissionFactor: number, acOnlineSamples?: number }): string[] {
+  const share = snapshot.rollingShare === null ? "--" : `${(snapshot.rollingShare * 100).toFixed(2)} %`;
+  const lines = [
+    `PID: ${snapshot.pid}${context.comm ? ` (${context.comm})` : ""}   Source: ${context.source}   Elapsed: ${snapshot.elapsedSeconds.toFixed(1)} s`,
+    "",
+    "-----------POWER----------",
+    `Host CPU power:    ${snapshot.hostCpuPowerWatts.toFixed(3)} W`,
+    `Process CPU power: ${snapshot.processCpuPowerWatts.toFixed(3)} W`,
+    `Rolling share:     ${share} (${snapshot.windowSamples} ticks)`,
+    "",
+    "---------ENERGY-----------",
+    `Host CPU energy:    ${snapshot.hostCpuEnergyJoules.toFixed(3)} J`,
+    `Process CPU energy: ${snapshot.processCpuEnergyJoules.toFixed(3)} J`,
+    "",
+    "-----------CARBON---------",
+    `Emission Factor: ${context.emissionFactor} gCO2e/kWh`,
+    `Host CPU carbon footprint:    ${snapshot.hostCpuCarbon_gCO2e.toFixed(6)} gCO2e`,
+    `Process CPU carbon footprint: ${snapshot.processCpuCarbon_gCO2e.toFixed(6)} gCO2e`,
+  ];
+
+  if (!snapshot.primed) {
+    lines.push("", "(priming readers...)");
+  }
+  if (context.acOnlineSamples) {
+    lines.push("", `Warning: AC adapter connected during ${context.acOnlineSamples} tick(s), battery energy is underestimated`);
+  }
+  if (snapshot.processError) {
+    lines.push("", `Process sampling error: ${snapshot.processError}`);
+  }
+  if (snapshot.processGone) {
+    lines.push("", "Target process exited, monitor stopped");
+  }
+  return lines;
+}
+
+export async function monitorCommand(argv = process.argv.slice(2)) {
+
+  const { rest } = extractVerbosity(argv);
+
+  const { values } = parseArgs({
+    args: rest,
+    options: {
+      help: { type: "boolean" },
+
+      config: { type: "string" },
+
+      pid: { type: "string" },
+      spawn: { type: "string" },
+
+      pidleW: { type: "string" },
+      pmaxW: { type: "string" },
+      tdp: { type: "string" },
+
+      tick: { type: "string" },
+      window: { type: "string" },
+
+      ef: { type: "string" },
+      country: { type: "string" },
+      source: { type: "string" },
+
+      port: { type: "string" },
+      host: { type: "string" },
+
+      keepAlive: { type: "boolean" }
+    },
+    allowPositionals: true
+  });
+
+  if (values.help) {
+    printHelp();
+    return;
+  }
+
+  const configPath = values.config ?? path.resolve(process.cwd(), 'nodefootprint.config.json');
+  const config: AppConfig | undefined | null = configPath ? await loadConfig(configPath) : null;
+
+  const { fallback } = await resolveFallbackWithCpuLookup(values, config);
+  const { emissionFactor } = await resolveEmissionFactor(values, config);
+  const source = resolveEnergySource(values.source);
+
+  const tickMs = parsePositiveNumberFromCommand('--tick', values.tick, 1000);
+  const windowSize = Math.round(parsePositiveNumberFromCommand('--window', values.window, 10));
+  const port = values.port === undefined ? null : Number(values.port);
+  if (port !== null && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+    throw new Error("--port must be an integer between 1 and 65535");
+  }
+
+  const controller = new AbortController();
+
+  let child: import("node:child_process").ChildProcess | null = null;
+  let pid: number;
+
+  if (values.spawn) {
+    const spawned = await spawnTarget(values.spawn);
+    child = spawned.child;
+
+    if (!child?.pid) {
+      throw new Error("spawn failed: missing pid");
+    }
+    pid = child.pid;
+
+    child.once("exit", () => controller.abort());
+    child.once("error", () => controller.abort());
+  } else if (values.pid) {
+    pid = Number(values.pid);
+    if (!Number.isFinite(pid) || pid <= 1) {
+      throw new Error("--pid must be a valid process id");
+    }
+  } else {
+    throw new Error("Missing target: use --pid <pid> or --spawn \"cmd\"");
+  }
+
+  // Ctrl-C ends the loop, the summary is printed below
+  const onSigint = () => controller.abort();
+  process.once("SIGINT", onSigint);
+
+  const samplers = await createSamplers(pid, fallback, { source });
+  const energyReader = samplers.energyReader;
+
+  if (!energyReader.isReady) {
+    process.removeListener("SIGINT", onSigint);
+    if (child) await killGracefully(child, 1000);
+    if (energyReader.mode === "battery") {
+      throw new Error(`Battery measurement unavailable: ${energyReader.hint ?? energyReader.status}`);
+    }
+    throw new Error(`Energy measurement unavailable:
+    RAPL not available and fallback not configured.\n
+    Provide --pidleW/--pmaxW (recommended), or --tdp, or use --config <file>.`);
+  }
+
+  const comm = await tryReadProcComm(pid);
+  const context = { comm, source: energyReader.mode, emissionFactor };
+  const interactive = !!process.stdout.isTTY;
+
+  // --port: the loop below also feeds /metrics (OpenMetrics) and /metrics.json until it stops
+  const metrics = port === null ? null : new MetricsState({ pid, comm, energySource: energyReader.mode, tickMs });
+  let server: Awaited<ReturnType<typeof buildServer>> | null = null;
+  let metricsUrl: string | null = null;
+  if (metrics && port !== null) {
+    server = await buildServer(metrics, { logger: false });
+    try {
+      await server.listen({ port, host: values.host ?? "127.0.0.1" });
+    } catch (error) {
+      process.removeListener("SIGINT", onSigint);
+      if (child) await killGracefully(child, 1000);
+      throw new Error(`--port ${port}: ${(error as Error).message}`);
+    }
+    metricsUrl = `http://${values.host ?? "127.0.0.1"}:${port}/metrics`;
+    console.error(`Serving OpenMetrics on ${metricsUrl} (JSON on ${metricsUrl}.json)`);
+  }
+
+  let last: MonitorSnapshot | null = null;
+
+  for await (const snapshot of monitor({
+    pid,
+    tickMs,
+    windowSize,
+    samplers,
+    emissionFactor_gCO2ePerKWh: emissionFactor,
+    signal: controller.signal
+  })) {
+    last = snapshot;
+    metrics?.observe(snapshot);
+    // battery source: ticks on AC are not counted
+    const frameContext = { ...context, acOnlineSamples: energyReader.acOnlineSamples };
+
+    if (interactive) {
+      readline.cursorTo(process.stdout, 0, 0);
+      readline.clearScreenDown(process.stdout);
+      process.stdout.write(renderMonitorFrame(snapshot, frameContext).join("\n") + `${metricsUrl ? `\n\nMetrics: ${metricsUrl}` : ""}\n\nCtrl-C to stop\n`);
+    } else if (snapshot.primed) {
+      console.log([
+        `t=${snapshot.elapsedSeconds.toFixed(1)}s`,
+        `host=${snapshot.hostCpuPowerWatts.toFixed(3)}W`,
+        `process=${snapshot.processCpuPowerWatts.toFixed(3)}W`,
+        `share=${snapshot.rollingShare === null ? "--" : (snapshot.rollingShare * 100).toFixed(2) + "%"}`,
+        `processJ=${snapshot.processCpuEnergyJoules.toFixed(3)}`,
+        ...(frameContext.acOnlineSamples ? [`acTicks=${frameContext.acOnlineSamples}`] : []),
+      ].join(" | "));
+    }
+  }
+
+  process.removeListener("SIGINT", onSigint);
+  await server?.close();
+
+  if (child && !values.keepAlive) {
+    await killGracefully(child, 2000);
+  }
+
+  console.log("\n==============================");
+  console.log("\nCPU Energy Monitor (summary)");
+  console.log("\n--------------------------\n");
+  if (last) {
+    console.log(`Duration: ${last.elapsedSeconds.toFixed(2)} s`);
+    console.log(renderMonitorFrame(last, { ...context, acOnlineSamples: energyReader.acOnlineSamples }).join("\n"));
+    console.log(`Process energy share: ${(last.processCpuEnergyShare * 100).toFixed(2)} %`);
+  } else {
+    console.log("No sample collected");
+  }
+  console.log("\n--------------------------\n");
+  console.log("nodefootprint v.0.0.1");
+}
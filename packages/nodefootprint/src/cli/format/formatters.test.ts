@@ -0,0 +1,103 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { checkEnergyBudget } from "../../index.js";
+import { csvFormatter, jsonFormatter, markdownFormatter, ndjsonFormatter, getAuditFormatter, registerAuditFormatter } from "./formatters.js";
+import { textFormatter } from "./text-formatter.js";
+import { htmlFormatter, renderSvgChart, escapeHtml } from "./html-formatter.js";
+import { AuditReport } from "./report.js";
+
+function report(overrides: Partial<AuditReport> = {}): AuditReport {
+    return {
+        pid: 42,
+        durationSeconds: 4,
+        energySource: "rapl",
+        hostCpuEnergyJoules: 40,
+        processCpuEnergyJoules: 10,
+        processCpuEnergyShare: 0.25,
+        hostDramEnergyJoules: null,
+        packages: [],
+        domains: [],
+        hostCpuCarbon_gCO2e: 0.000578,
+        processCpuCarbon_gCO2e: 0.000144,
+        emissionFactor_gCO2ePerKWh: 52,
+        attribution: { strategy: "active-share", applied: true, idlePowerWatts: null, idleEnergyJoules: null, reservedCores: null, totalCores: null },
+        isActive: true,
+        ...overrides,
+    } as AuditReport;
+}
+
+test('text formatter: figures from the report, emission factor not hardcoded', () => {
+    const text = textFormatter.format(report());
+    assert.match(text, /Source: rapl/);
+    assert.match(text, /Process CPU energy: 10\.000 J/);
+    assert.match(text, /Emission factor: 52 gCO2e\/kWh\n/);
+    assert.doesNotMatch(text, /475/);
+
+    const series = textFormatter.format(report({
+        emissionFactor_gCO2ePerKWh: 61.25,
+        carbonIntensity: { points: 24, hostEffectiveFactor_gCO2ePerKWh: 61.25, processEffectiveFactor_gCO2ePerKWh: 60, uncoveredTicks: 2, staticFactor_gCO2ePerKWh: 52 },
+    }));
+    assert.match(series, /Emission factor: 61\.25 gCO2e\/kWh \(energy-weighted over the series\)/);
+    assert.match(series, /Ticks outside the series: 2 \(static factor 52 gCO2e\/kWh used\)/);
+});
+
+test('json / ndjson formatters: the full report', () => {
+    const r = report();
+    assert.deepStrictEqual(JSON.parse(jsonFormatter.format(r)), JSON.parse(JSON.stringify(r)));
+    assert.strictEqual(ndjsonFormatter.format(r).includes("\n"), false);
+    assert.deepStrictEqual(JSON.parse(ndjsonFormatter.format(r)), JSON.parse(jsonFormatter.format(r)));
+});
+
+test('csv formatter: header and one row, absent sections empty', () => {
+    const [header, row] = csvFormatter.format(report({ cgroup: "/sys/fs/cgroup/a,b" })).split("\n");
+    const columns = header.split(",");
+    assert.strictEqual(columns[0], "pid");
+    assert.ok(columns.includes("processCpuEnergyJoules") && columns.includes("sci_gCO2ePerUnit"));
+    assert.match(row, /^42,"\/sys\/fs\/cgroup\/a,b",rapl,4,40,10,25,2.5,,active-share,52,/);
+    assert.match(row, /,true$/);
+});
+
+test('markdown formatter: figures and budget tables', () => {
+    const r = report();
+    const markdown = markdownFormatter.format({ ...r, budget: checkEnergyBudget({ energyJoules: 10, carbon_gCO2e: 0.000144, durationSeconds: 4 }, { maxJoules: 8 }, "ci") });
+    const lines = markdown.split("\n");
+    assert.strictEqual(lines[0], "### CPU energy audit (PID 42)");
+    assert.ok(lines.includes("| Process CPU energy | 10.000 J |"));
+    assert.ok(lines.includes("| Process avg CPU power | 2.500 W |"));
+    assert.ok(!markdown.includes("Host DRAM energy"));
+    assert.ok(lines.includes("| Within budget | no |"));
+    assert.ok(lines.includes("#### Budget (ci)"));
+    assert.ok(lines.includes("| Process energy | 8 J | 10.000 J | exceeded by 2.000 J (+25.0 %) |"));
+});
+
+test('registerAuditFormatter: new formats plug in', () => {
+    registerAuditFormatter({ name: "joules", description: "process joules only", extensions: [], format: (r) => String(r.processCpuEnergyJoules) });
+    assert.strictEqual(getAuditFormatter("joules")!.format(report()), "10");
+});
+
+test('html formatter: offline page with one chart per series', () => {
+    const timeline = [0, 1, 2].map((i) => ({
+        tickId: i, ticks: 1, startNs: i * 1e9, dtNs: 1e9, latenessNs: 2e6,
+        hostEnergyJoules: 10, processEnergyJoules: 2.5, hostCpuActiveTicks: 100, processCpuActiveTicks: 25,
+        hostWatts: 10, processWatts: 2.5, share: 0.25, peakHostWatts: 10,
+    }));
+    const html = htmlFormatter.format(report({ cgroup: "/sys/fs/cgroup/<job>", timeline }));
+
+    assert.match(html, /^<!DOCTYPE html>/);
+    assert.match(html, /<title>CPU energy audit - cgroup \/sys\/fs\/cgroup\/&lt;job&gt;<\/title>/);
+    assert.strictEqual(html.match(/<svg /g)?.length, 3);
+    assert.match(html, /<figcaption>Scheduler lateness<\/figcaption>/);
+    // nothing fetched: no script, no external URL besides the SVG namespace
+    assert.doesNotMatch(html, /<script|<link|src=/);
+    assert.deepStrictEqual(html.match(/https?:\/\/[^"]+/g), ["http://www.w3.org/2000/svg", "http://www.w3.org/2000/svg", "http://www.w3.org/2000/svg"]);
+
+    assert.match(htmlFormatter.format(report()), /CPU power: no per-tick data/);
+});
+
+test('renderSvgChart: points scaled into the plot area', () => {
+    const svg = renderSvgChart([{ name: "a", color: "#000", points: [[0, 0], [2, 50], [4, 100]] }], { title: "Share", unit: "%", yMax: 100 });
+    // x: 64 .. 744, y: 208 (0) .. 16 (yMax)
+    assert.match(svg, /points="64\.0,208\.0 404\.0,112\.0 744\.0,16\.0"/);
+    assert.match(svg, />4 s</);
+    assert.strictEqual(escapeHtml(`a<b & "c"`), "a&lt;b &amp; &quot;c&quot;");
+});
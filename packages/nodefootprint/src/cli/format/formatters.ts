@@ -0,0 +1,93 @@
+import { AuditFormatter, AuditReport, BUDGET_LABELS, SUMMARY_FIELDS, SummaryField } from "./report.js";
+import { textFormatter } from "./text-formatter.js";
+import { htmlFormatter } from "./html-formatter.js";
+
+function csvCell(value: ReturnType<SummaryField["value"]>): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function markdownValue(field: SummaryField, value: NonNullable<ReturnType<SummaryField["value"]>>): string {
+  const text = typeof value === "boolean" ? (value ? "yes" : "no")
+    : typeof value === "number" && field.digits !== undefined ? value.toFixed(field.digits)
+    : String(value);
+  return `${text}${field.unit ? ` ${field.unit}` : ""}`.replaceAll("|", "\\|");
+}
+
+export const jsonFormatter: AuditFormatter = {
+  name: "json",
+  description: "full report, indented JSON (same as --json)",
+  extensions: [".json"],
+  format: (report) => JSON.stringify(report, null, 2),
+};
+
+export const ndjsonFormatter: AuditFormatter = {
+  name: "ndjson",
+  description: "full report on one JSON line, to append runs to a log",
+  extensions: [".ndjson", ".jsonl"],
+  format: (report) => JSON.stringify(report),
+};
+
+export const csvFormatter: AuditFormatter = {
+  name: "csv",
+  description: "header and one row of the main figures",
+  extensions: [".csv"],
+  format: (report) => [
+    SUMMARY_FIELDS.map((field) => field.key).join(","),
+    SUMMARY_FIELDS.map((field) => csvCell(field.value(report))).join(","),
+  ].join("\n"),
+};
+
+export const markdownFormatter: AuditFormatter = {
+  name: "markdown",
+  description: "tables of the main figures and budget checks (PR comments, job summaries)",
+  extensions: [".md"],
+  format(report: AuditReport): string {
+    const target = report.cgroup ? `cgroup ${report.cgroup}` : `PID ${report.pid}`;
+    const lines = [`### CPU energy audit (${target})`, "", "| Metric | Value |", "|---|---|"];
+    for (const field of SUMMARY_FIELDS) {
+      const value = field.value(report);
+      if (value === null || value === undefined || field.key === "pid" || field.key === "cgroup") continue;
+      lines.push(`| ${field.label} | ${markdownValue(field, value)} |`);
+    }
+
+    if (report.budget && report.budget.checks.length > 0) {
+      lines.push("", `#### Budget${report.budget.label ? ` (${report.budget.label})` : ""}`, "", "| Threshold | Limit | Actual | Status |", "|---|---|---|---|");
+      for (const check of report.budget.checks) {
+        const { name, unit, digits } = BUDGET_LABELS[check.metric];
+        const status = check.exceeded ? `exceeded by ${check.excess.toFixed(digits)} ${unit} (+${(check.excessRatio * 100).toFixed(1)} %)` : "ok";
+        lines.push(`| ${name} | ${check.limit} ${unit} | ${check.actual.toFixed(digits)} ${unit} | ${status} |`);
+      }
+    }
+    return lines.join("\n");
+  },
+};
+
+const AUDIT_FORMATTERS = new Map<string, AuditFormatter>(
+  [textFormatter, jsonFormatter, ndjsonFormatter, csvFormatter, markdownFormatter, htmlFormatter]
+    .map((formatter) => [formatter.name, formatter])
+);
+
+/**
+ * Adds (or replaces) a --format: the formatter receives the same report as --format json.
+ */
+export function registerAuditFormatter(formatter: AuditFormatter) {
+  AUDIT_FORMATTERS.set(formatter.name, formatter);
+}
+
+export function getAuditFormatter(name: string): AuditFormatter | undefined {
+  return AUDIT_FORMATTERS.get(name);
+}
+
+export function listAuditFormatters(): AuditFormatter[] {
+  return [...AUDIT_FORMATTERS.values()];
+}
+
+/**
+ * Format of an --output file from its extension, undefined when none matches.
+ */
+export function auditFormatterForFile(file: string): AuditFormatter | undefined {
+  const lower = file.toLowerCase();
+  return listAuditFormatters().find((formatter) => formatter.extensions.some((ext) => lower.endsWith(ext)));
+}
@@ -0,0 +1,176 @@
+import { AuditFormatter, AuditReport, BUDGET_LABELS, SUMMARY_FIELDS } from "./report.js";
+import type { TimelinePoint } from "../../index.js";
+
+export interface ChartSeries {
+  name: string;
+  color: string;
+  points: [number, number][];   // [seconds since the audit start, value]
+}
+
+export interface ChartOptions {
+  title: string;
+  unit: string;
+  yMax?: number;                // fixed scale (e.g. 100 for a percentage), else from the data
+}
+
+const CHART_WIDTH = 760;
+const CHART_HEIGHT = 240;
+const MARGIN = { top: 16, right: 16, bottom: 32, left: 64 };
+
+export function escapeHtml(text: string): string {
+  return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;");
+}
+
+function axisLabel(value: number): string {
+  return Math.abs(value) >= 100 || value === 0 ? value.toFixed(0) : Number(value.toPrecision(3)).toString();
+}
+
+/**
+ * Line chart as an inline <svg> (pure, no I/O): 0-based axes, 4 grid lines, one polyline per series.
+ */
+export function renderSvgChart(series: ChartSeries[], options: ChartOptions): string {
+  const all = series.flatMap((s) => s.points).filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y));
+  if (all.length === 0) {
+    return `<p class="empty">${escapeHtml(options.title)}: no per-tick data</p>`;
+  }
+
+  const xMax = Math.max(...all.map(([x]) => x)) || 1;
+  const yMax = options.yMax ?? (Math.max(...all.map(([, y]) => y)) * 1.1 || 1);
+  const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const px = (x: number) => (MARGIN.left + (x / xMax) * plotWidth).toFixed(1);
+  const py = (y: number) => (MARGIN.top + plotHeight - (Math.min(y, yMax) / yMax) * plotHeight).toFixed(1);
+
+  const parts: string[] = [];
+  for (let i = 0; i <= 4; i++) {
+    const y = (yMax * i) / 4;
+    const x = (xMax * i) / 4;
+    parts.push(`<line class="grid" x1="${MARGIN.left}" x2="${CHART_WIDTH - MARGIN.right}" y1="${py(y)}" y2="${py(y)}"/>`);
+    parts.push(`<text class="y" x="${MARGIN.left - 6}" y="${py(y)}">${axisLabel(y)}</text>`);
+    parts.push(`<text class="x" x="${px(x)}" y="${CHART_HEIGHT - MARGIN.bottom + 16}">${axisLabel(x)} s</text>`);
+  }
+  parts.push(`<text class="unit" x="${MARGIN.left - 6}" y="${MARGIN.top - 4}">${escapeHtml(options.unit)}</text>`);
+  for (const s of series) {
+    const points = s.points.filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y)).map(([x, y]) => `${px(x)},${py(y)}`).join(" ");
+    parts.push(`<polyline fill="none" stroke="${s.color}" stroke-width="1.5" points="${points}"><title>${escapeHtml(s.name)}</title></polyline>`);
+  }
+
+  const legend = series.map((s) => `<span><i style="background:${s.color}"></i>${escapeHtml(s.name)}</span>`).join("");
+  return [
+    `<figure><figcaption>${escapeHtml(options.title)}</figcaption>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="${escapeHtml(options.title)}">${parts.join("")}</svg>`,
+    `<div class="legend">${legend}</div></figure>`,
+  ].join("\n");
+}
+
+function seriesOf(points: TimelinePoint[], value: (p: TimelinePoint) => number): [number, number][] {
+  // a point is drawn at the end of its interval
+  return points.map((p) => [(p.startNs + p.dtNs) / 1e9, value(p)]);
+}
+
+const STYLE = `
+body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2933; max-width: 820px; margin: 2rem auto; padding: 0 1rem; }
+h1 { font-size: 1.4rem; margin-bottom: 0.2rem; }
+h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid #d9e2ec; padding-bottom: 0.3rem; }
+.subtitle { color: #627d98; margin-top: 0; }
+.cards { display: flex; flex-wrap: wrap; gap: 0.8rem; }
+.card { flex: 1 1 160px; border: 1px solid #d9e2ec; border-radius: 6px; padding: 0.6rem 0.8rem; }
+.card b { display: block; font-size: 1.3rem; }
+.card span { color: #627d98; font-size: 0.85rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+td, th { text-align: left; padding: 0.25rem 0.5rem; border-bottom: 1px solid #eef2f6; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+.exceeded { color: #c62828; font-weight: 600; }
+figure { margin: 1rem 0; }
+figcaption { font-weight: 600; margin-bottom: 0.3rem; }
+svg { width: 100%; height: auto; }
+svg .grid { stroke: #eef2f6; }
+svg text { font-size: 11px; fill: #627d98; }
+svg text.y, svg text.unit { text-anchor: end; dominant-baseline: middle; }
+svg text.x { text-anchor: middle; }
+.legend span { margin-right: 1rem; font-size: 0.85rem; }
+.legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; border-radius: 2px; }
+.empty { color: #627d98; font-style: italic; }
+footer { margin-top: 2rem; color: #9fb3c8; font-size: 0.8rem; }
+`;
+
+/**
+ * Single offline HTML page (no script, no external resource): totals, figures table,
+ * power / share / lateness charts from the timeline points.
+ */
+export const htmlFormatter: AuditFormatter = {
+  name: "html",
+  description: "self-contained HTML page with inline SVG charts (audit --report)",
+  extensions: [".html", ".htm"],
+  format(report: AuditReport): string {
+    const target = report.cgroup ? `cgroup ${report.cgroup}` : `PID ${report.pid}`;
+    const generated = new Date().toISOString().slice(0, 19).replace("T", " ");
+    const avgWatts = report.durationSeconds > 0 ? report.processCpuEnergyJoules / report.durationSeconds : 0;
+    const cards: [string, string][] = [
+      [`${report.processCpuEnergyJoules.toFixed(3)} J`, "process CPU energy"],
+      [`${report.processCpuCarbon_gCO2e.toFixed(6)} gCO2e`, "process CPU carbon"],
+      [`${avgWatts.toFixed(3)} W`, "process average power"],
+      [`${(report.processCpuEnergyShare * 100).toFixed(2)} %`, "share of the host energy"],
+    ];
+
+    const rows = SUMMARY_FIELDS.flatMap((field) => {
+      const value = field.value(report);
+      if (value === null || value === undefined) return [];
+      const text = typeof value === "boolean" ? (value ? "yes" : "no")
+        : typeof value === "number" && field.digits !== undefined ? value.toFixed(field.digits)
+        : String(value);
+      return [`<tr><td>${escapeHtml(field.label)}</td><td class="num">${escapeHtml(text)}${field.unit ? ` ${escapeHtml(field.unit)}` : ""}</td></tr>`];
+    });
+
+    const sections: string[] = [];
+    if (report.budget && report.budget.checks.length > 0) {
+      const checks = report.budget.checks.map((check) => {
+        const { name, unit, digits } = BUDGET_LABELS[check.metric];
+        const status = check.exceeded
+          ? `<span class="exceeded">exceeded by ${check.excess.toFixed(digits)} ${unit} (+${(check.excessRatio * 100).toFixed(1)} %)</span>`
+          : "ok";
+        return `<tr><td>${name}</td><td class="num">${check.limit} ${unit}</td><td class="num">${check.actual.toFixed(digits)} ${unit}</td><td>${status}</td></tr>`;
+      });
+      sections.push(`<h2>Budget${report.budget.label ? ` (${escapeHtml(report.budget.label)})` : ""}</h2>`,
+        `<table><tr><th>Threshold</th><th>Limit</th><th>Actual</th><th>Status</th></tr>${checks.join("")}</table>`);
+    }
+
+    const points = report.timeline ?? [];
+    sections.push("<h2>Over time</h2>");
+    if (points.length > 0 && points.some((p) => p.ticks > 1)) {
+      sections.push(`<p class="subtitle">${points.length} points, up to ${Math.max(...points.map((p) => p.ticks))} ticks merged per point</p>`);
+    }
+    sections.push(
+      renderSvgChart([
+        { name: "host", color: "#3e7cb1", points: seriesOf(points, (p) => p.hostWatts) },
+        { name: "process", color: "#e07a1f", points: seriesOf(points, (p) => p.processWatts) },
+      ], { title: "CPU power", unit: "W" }),
+      renderSvgChart([
+        { name: "process share", color: "#2f9e44", points: seriesOf(points, (p) => p.share * 100) },
+      ], { title: "Process share of the host CPU time", unit: "%", yMax: 100 }),
+      renderSvgChart([
+        { name: "lateness", color: "#7048e8", points: seriesOf(points, (p) => p.latenessNs / 1e6) },
+      ], { title: "Scheduler lateness", unit: "ms" }),
+    );
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>CPU energy audit - ${escapeHtml(target)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>CPU energy audit - ${escapeHtml(target)}</h1>
+<p class="subtitle">${report.durationSeconds.toFixed(2)} s, energy source ${escapeHtml(report.energySource ?? "unknown")}, generated ${generated} UTC</p>
+<div class="cards">${cards.map(([value, label]) => `<div class="card"><b>${escapeHtml(value)}</b><span>${label}</span></div>`).join("")}</div>
+<h2>Figures</h2>
+<table>${rows.join("")}</table>
+${sections.join("\n")}
+<footer>nodefootprint v.0.0.1 - CPU-only estimate, attribution ${escapeHtml(report.attribution.strategy)}</footer>
+</body>
+</html>
+`;
+  },
+};
@@ -0,0 +1,61 @@
+import type { audit, SciResult, BudgetResult, BudgetMetric } from "../../index.js";
+
+/**
+ * Everything an audit prints: the audit() result plus the optional SCI and budget checks.
+ * This is also the --format json document.
+ */
+export type AuditReport = Awaited<ReturnType<typeof audit>> & {
+  sci?: SciResult & { embodiedProfile: string | null };
+  budget?: BudgetResult;
+};
+
+export interface AuditFormatter {
+  readonly name: string;
+  readonly description: string;
+  readonly extensions: string[];   // --output file extensions inferring this format
+  format(report: AuditReport): string;
+}
+
+// distinct from 1 (error) and 130 (SIGINT): the audit succeeded, the job is over budget
+export const BUDGET_EXCEEDED_EXIT_CODE = 3;
+
+export const BUDGET_LABELS: Record<BudgetMetric, { flag: string; name: string; unit: string; digits: number }> = {
+  joules: { flag: "--max-joules", name: "Process energy", unit: "J", digits: 3 },
+  gco2e: { flag: "--max-gco2e", name: "Process carbon", unit: "gCO2e", digits: 6 },
+  avgWatts: { flag: "--max-avg-watts", name: "Process avg power", unit: "W", digits: 3 },
+};
+
+export interface SummaryField {
+  key: string;            // csv column
+  label: string;          // markdown row
+  unit?: string;
+  digits?: number;
+  value(report: AuditReport): number | string | boolean | null | undefined;
+}
+
+/**
+ * One-row view of a report (csv, markdown): scalars only, absent sections give null.
+ */
+export const SUMMARY_FIELDS: SummaryField[] = [
+  { key: "pid", label: "PID", value: (r) => r.pid },
+  { key: "cgroup", label: "Cgroup", value: (r) => r.cgroup },
+  { key: "energySource", label: "Energy source", value: (r) => r.energySource },
+  { key: "durationSeconds", label: "Duration", unit: "s", digits: 2, value: (r) => r.durationSeconds },
+  { key: "hostCpuEnergyJoules", label: "Host CPU energy", unit: "J", digits: 3, value: (r) => r.hostCpuEnergyJoules },
+  { key: "processCpuEnergyJoules", label: "Process CPU energy", unit: "J", digits: 3, value: (r) => r.processCpuEnergyJoules },
+  { key: "processCpuEnergyShare", label: "Process energy share", unit: "%", digits: 2, value: (r) => r.processCpuEnergyShare * 100 },
+  { key: "processAvgWatts", label: "Process avg CPU power", unit: "W", digits: 3, value: (r) => r.durationSeconds > 0 ? r.processCpuEnergyJoules / r.durationSeconds : null },
+  { key: "hostDramEnergyJoules", label: "Host DRAM energy", unit: "J", digits: 3, value: (r) => r.hostDramEnergyJoules },
+  { key: "attribution", label: "Attribution", value: (r) => r.attribution.applied ? r.attribution.strategy : `active-share (${r.attribution.strategy} not applied)` },
+  { key: "emissionFactor_gCO2ePerKWh", label: "Emission factor", unit: "gCO2e/kWh", digits: 1, value: (r) => r.emissionFactor_gCO2ePerKWh },
+  { key: "hostCpuCarbon_gCO2e", label: "Host CPU carbon", unit: "gCO2e", digits: 6, value: (r) => r.hostCpuCarbon_gCO2e },
+  { key: "processCpuCarbon_gCO2e", label: "Process CPU carbon", unit: "gCO2e", digits: 6, value: (r) => r.processCpuCarbon_gCO2e },
+  { key: "pue", label: "PUE", value: (r) => r.facility?.pue },
+  { key: "processFacilityEnergyJoules", label: "Process facility energy", unit: "J", digits: 3, value: (r) => r.facility?.processFacilityEnergyJoules },
+  { key: "processFacilityCarbon_gCO2e", label: "Process facility carbon", unit: "gCO2e", digits: 6, value: (r) => r.facility?.processFacilityCarbon_gCO2e },
+  { key: "processWater_L", label: "Process water", unit: "L", digits: 6, value: (r) => r.facility?.processWater_L },
+  { key: "hostMarginalEnergyJoules", label: "Marginal host energy", unit: "J", digits: 3, value: (r) => r.baseline?.hostMarginalEnergyJoules },
+  { key: "sci_gCO2ePerUnit", label: "SCI", unit: "gCO2e/unit", digits: 6, value: (r) => r.sci?.sci_gCO2ePerUnit },
+  { key: "budgetOk", label: "Within budget", value: (r) => r.budget ? r.budget.ok : null },
+  { key: "isActive", label: "Process active", value: (r) => r.isActive },
+];
@@ -0,0 +1,156 @@
+import { BUDGET_LABELS, BUDGET_EXCEEDED_EXIT_CODE, AuditFormatter, AuditReport } from "./report.js";
+import type { BudgetResult } from "../../index.js";
+
+/**
+ * One line per checked threshold, exceeded ones with the excess (pure, no I/O).
+ */
+export function renderBudget(budget: BudgetResult): string[] {
+  return budget.checks.map((check) => {
+    const { flag, name, unit, digits } = BUDGET_LABELS[check.metric];
+    const values = `${check.actual.toFixed(digits)} ${unit} / ${check.limit} ${unit} (${flag})`;
+    return check.exceeded
+      ? `EXCEEDED ${name}: ${values}, over by ${check.excess.toFixed(digits)} ${unit} (+${(check.excessRatio * 100).toFixed(1)} %)`
+      : `ok       ${name}: ${values}`;
+  });
+}
+
+/**
+ * The console report (default format).
+ */
+export const textFormatter: AuditFormatter = {
+  name: "text",
+  description: "human-readable report (default)",
+  extensions: [".txt", ".log"],
+  format(result: AuditReport): string {
+    const lines: string[] = [];
+    lines.push("==============================");
+    lines.push("\nCPU Energy Audit (bounded)");
+    lines.push("\n--------------------------\n");
+    lines.push(new Date().toLocaleDateString());
+    if (result.cgroup) lines.push(`Cgroup: ${result.cgroup}`);
+    if (result.pid !== null) lines.push(`PID: ${result.pid}`);
+    lines.push(`Duration: ${result.durationSeconds.toFixed(2)} s`);
+    lines.push("\n---------ENERGY-----------\n");
+    lines.push(`Source: ${result.energySource ?? "unknown"}`);
+    lines.push(`Host CPU energy: ${result.hostCpuEnergyJoules.toFixed(3)} J`);
+    lines.push(`Process CPU energy: ${result.processCpuEnergyJoules.toFixed(3)} J`);
+    lines.push(`Process energy share: ${(result.processCpuEnergyShare * 100).toFixed(2)} %`);
+    lines.push(result.attribution.applied
+      ? `Attribution: ${result.attribution.strategy}`
+      : `Attribution: active-share (${result.attribution.strategy} not applied: ${result.attribution.reason})`);
+    if (result.attribution.applied && result.attribution.idleEnergyJoules !== null) {
+      lines.push(`Host idle energy: ${result.attribution.idleEnergyJoules.toFixed(3)} J (${result.attribution.idlePowerWatts!.toFixed(2)} W)`);
+    }
+    if (result.attribution.applied && result.attribution.regression) {
+      const fit = result.attribution.regression;
+      lines.push(`Regression: ${fit.joulesPerTick.toFixed(4)} J/tick, R²=${fit.r2.toFixed(3)} over ${fit.ticks} ticks`);
+    }
+    if (result.hostDramEnergyJoules !== null) {
+      lines.push(`Host DRAM energy: ${result.hostDramEnergyJoules.toFixed(3)} J (not attributed)`);
+    }
+    if (result.packages.length > 0) {
+      lines.push("\n---------PACKAGES---------\n");
+      for (const pkg of result.packages) {
+        lines.push(`${pkg.node}: ${pkg.energyJoules.toFixed(3)} J (wraps: ${pkg.wraps}, failed reads: ${pkg.failedReads})`);
+        for (const zone of result.domains.filter((d) => d.parent === pkg.node)) {
+          lines.push(`  ${zone.domain} (${zone.node}): ${zone.energyJoules.toFixed(3)} J`);
+        }
+      }
+      for (const zone of result.domains.filter((d) => d.parent === null)) {
+        lines.push(`${zone.domain} (${zone.node}): ${zone.energyJoules.toFixed(3)} J (platform)`);
+      }
+    }
+    if (result.processes) {
+      lines.push("\n---------PROCESSES--------\n");
+      for (const proc of [...result.processes].sort((a, b) => b.energyJoules - a.energyJoules)) {
+        lines.push(`${proc.pid} (${proc.comm ?? "?"}): ${proc.energyJoules.toFixed(3)} J (${(proc.share * 100).toFixed(2)} %)`);
+      }
+    }
+    if (result.threads) {
+      lines.push("\n---------THREADS----------\n");
+      for (const thread of [...result.threads].sort((a, b) => b.energyJoules - a.energyJoules)) {
+        lines.push(`${thread.comm} x${thread.threadCount}: ${thread.energyJoules.toFixed(3)} J (${(thread.share * 100).toFixed(2)} %)`);
+      }
+    }
+    if (result.topology) {
+      lines.push("\n---------TOPOLOGY---------\n");
+      lines.push(result.topology.applied
+        ? "Attribution: per package (socket-aware)"
+        : `Attribution: host-wide share (topology not applied: ${result.topology.reason})`);
+      for (const pkg of result.topology.packages) {
+        lines.push(`package ${pkg.packageId}${pkg.node ? ` (${pkg.node})` : ""}: share ${(pkg.cpuShare * 100).toFixed(2)} % of ${pkg.hostEnergyJoules.toFixed(3)} J => ${pkg.processEnergyJoules.toFixed(3)} J`);
+      }
+    }
+    if (result.timeline) {
+      lines.push("\n---------TIMELINE---------\n");
+      const ticksPerPoint = Math.max(1, ...result.timeline.map((p) => p.ticks));
+      const peak = Math.max(0, ...result.timeline.map((p) => p.peakHostWatts));
+      lines.push(`Timeline: ${result.timeline.length} points (${ticksPerPoint} tick(s)/point)`);
+      lines.push(`Peak host power (single tick): ${peak.toFixed(3)} W`);
+    }
+    lines.push("\n-----------POWER----------\n");
+    lines.push(`Average CPU Power:`);
+    lines.push(`Host avg CPU power: ${result.hostCpuEnergyJoules / result.durationSeconds} W`);
+    lines.push(`Process avg CPU power: ${result.processCpuEnergyJoules / result.durationSeconds} W`);
+    if (result.baseline) {
+      const b = result.baseline;
+      lines.push("\n---------BASELINE---------\n");
+      lines.push(`Idle host power: ${b.hostPowerWatts.toFixed(3)} W ± ${b.hostPowerStdWatts.toFixed(3)} W (${b.ticks} ticks over ${b.durationSeconds.toFixed(2)} s before spawn)`);
+      lines.push(`Marginal host energy: ${b.hostMarginalEnergyJoules.toFixed(3)} J ± ${b.hostMarginalEnergyUncertaintyJoules.toFixed(3)} J (total - idle × duration)`);
+      lines.push(`Marginal host power: ${b.hostMarginalPowerWatts.toFixed(3)} W`);
+      lines.push(`Marginal host active ticks: ${b.hostMarginalActiveTicks.toFixed(0)} (idle rate ${b.hostTicksPerSecond.toFixed(1)}/s)`);
+    }
+    lines.push("\n-----------CARBON---------\n");
+    lines.push(`CPU Carbon Footprint:`);
+    lines.push(`Emission factor: ${Number(result.emissionFactor_gCO2ePerKWh.toFixed(3))} gCO2e/kWh${result.carbonIntensity ? " (energy-weighted over the series)" : ""}`);
+    if (result.carbonIntensity) {
+      lines.push(`Effective emission factor (series): host ${result.carbonIntensity.hostEffectiveFactor_gCO2ePerKWh.toFixed(1)} gCO2e/kWh, process ${result.carbonIntensity.processEffectiveFactor_gCO2ePerKWh.toFixed(1)} gCO2e/kWh`);
+      if (result.carbonIntensity.uncoveredTicks > 0) {
+        lines.push(`Ticks outside the series: ${result.carbonIntensity.uncoveredTicks} (static factor ${result.carbonIntensity.staticFactor_gCO2ePerKWh} gCO2e/kWh used)`);
+      }
+    }
+    lines.push(`Host CPU carbon footprint: ${result.hostCpuCarbon_gCO2e.toFixed(6)} gCO2e`);
+    lines.push(`Process CPU carbon footprint: ${result.processCpuCarbon_gCO2e.toFixed(6)} gCO2e`);
+    if (result.facility) {
+      const f = result.facility;
+      lines.push(`\n---FACILITY (PUE ${f.pue}${f.site ? `, ${f.site}` : ""})---\n`);
+      lines.push(`Host facility energy: ${f.hostFacilityEnergyJoules.toFixed(3)} J (CPU × PUE)`);
+      lines.push(`Process facility energy: ${f.processFacilityEnergyJoules.toFixed(3)} J (CPU × PUE)`);
+      lines.push(`Host facility carbon footprint: ${f.hostFacilityCarbon_gCO2e.toFixed(6)} gCO2e`);
+      lines.push(`Process facility carbon footprint: ${f.processFacilityCarbon_gCO2e.toFixed(6)} gCO2e`);
+      if (f.wue_LPerKWh !== null) {
+        lines.push(`Host water footprint (estimated): ${(f.hostWater_L! * 1000).toFixed(3)} mL (WUE ${f.wue_LPerKWh} L/kWh)`);
+        lines.push(`Process water footprint (estimated): ${(f.processWater_L! * 1000).toFixed(3)} mL`);
+      }
+    }
+    const sci = result.sci;
+    if (sci) {
+      lines.push("\n------------SCI-----------\n");
+      if (sci.ok) {
+        lines.push(`Operational (E × I): ${sci.operational_gCO2e!.toFixed(6)} gCO2e`);
+        lines.push(`Embodied (M): ${sci.embodied_gCO2e!.toFixed(6)} gCO2e${sci.embodiedProfile ? ` (profile: ${sci.embodiedProfile}, time share ${sci.timeShare!.toExponential(3)}, resource share ${sci.resourceShare})` : " (no --embodied profile)"}`);
+        lines.push(`Functional unit (R): ${sci.functionalUnits} ${sci.functionalUnit}`);
+        lines.push(`SCI: ${sci.sci_gCO2ePerUnit!.toFixed(6)} gCO2e per functional unit (${sci.functionalUnit})`);
+      } else {
+        lines.push(`SCI unavailable: ${sci.reason}`);
+      }
+    }
+    const budget = result.budget;
+    if (budget) {
+      lines.push(`\n---------BUDGET${budget.label ? ` (${budget.label})` : ""}---------\n`);
+      lines.push(renderBudget(budget).join("\n"));
+      lines.push(budget.ok
+        ? "Budget: ok"
+        : `Budget: ${budget.exceeded.length} threshold(s) exceeded (exit code ${BUDGET_EXCEEDED_EXIT_CODE})`);
+    }
+    lines.push("\n--------------------------\n");
+    lines.push(`Process active: ${result.isActive ? "yes" : "no"}`);
+    lines.push("\n--------------------------\n");
+    if (result.meta) {
+      lines.push("\nDebug meta:");
+      lines.push(JSON.stringify(result.meta, null, 2));
+    }
+    lines.push("nodefootprint v.0.0.1");
+    return lines.join("\n");
+  },
+};
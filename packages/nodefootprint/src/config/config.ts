@@ -1,10 +1,27 @@
 import { readFile } from "fs/promises";
 import { extractErrorCode } from "@nodefootprint/shared";
+import type { EmbodiedProfile, EnergyBudget } from "../index.js";
 
 export interface AppConfig {
     emissionFactor?: {
-        country: string;
-        factor: number;
+        country?: string; // ISO-2 or ISO-3, resolved from data/energy-mix.json
+        factor?: number;  // gCO2e/kWh, wins over country
+        intensityFile?: string; // csv/json carbon intensity series (timestamp, gCO2e/kWh)
+    },
+    facility?: {
+        site?: string;  // default preset of "sites"
+        pue?: number;   // facility energy / IT energy
+        wue?: number;   // litres per IT kWh
+        sites?: Record<string, { pue: number; wue?: number }>; // per-datacenter presets
+    },
+    history?: {
+        enabled?: boolean; // record every audit (same as --history)
+        file?: string;     // default: .nodefootprint/history.ndjson
+    },
+    budgets?: Record<string, EnergyBudget>; // CI thresholds selected with --budget <label>
+    sci?: {
+        functionalUnit?: string; // name of R ("request", "job"...)
+        embodied?: Record<string, EmbodiedProfile>; // hardware profiles for --embodied <name>
     },
     fallback?: {
         pidleWatts: number;
@@ -0,0 +1,69 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import { join } from "node:path";
+import { mkdir, mkdtemp, rm, writeFile, appendFile } from "node:fs/promises";
+import { appendHistoryEntry, readHistory, pruneHistory, pruneHistoryEntries, readGitRevision, hostFingerprint, HistoryEntry } from "./history.js";
+
+function entry(label: string, timestamp: string, joules: number): HistoryEntry {
+    return {
+        label,
+        timestamp,
+        host: hostFingerprint("fallback"),
+        git: null,
+        result: { processCpuEnergyJoules: joules, durationSeconds: 1 },
+    } as unknown as HistoryEntry;
+}
+
+test('history: append, read (skips broken lines) and prune', async (t) => {
+    const dir = await mkdtemp(join(os.tmpdir(), "nf-history-"));
+    t.after(() => rm(dir, { recursive: true, force: true }));
+    const file = join(dir, ".nodefootprint", "history.ndjson");
+
+    assert.deepStrictEqual(await readHistory(file), []);
+
+    await appendHistoryEntry(file, entry("a", "2026-01-01T00:00:00.000Z", 1));
+    await appendHistoryEntry(file, entry("b", "2026-02-01T00:00:00.000Z", 2));
+    await appendFile(file, '{"label":"a","result":{"proc\n');
+    await appendHistoryEntry(file, entry("a", "2026-03-01T00:00:00.000Z", 3));
+    await appendHistoryEntry(file, entry("a", "2026-04-01T00:00:00.000Z", 4));
+
+    const entries = await readHistory(file);
+    assert.deepStrictEqual(entries.map((e) => e.result.processCpuEnergyJoules), [1, 2, 3, 4]);
+
+    const now = new Date("2026-04-02T00:00:00.000Z");
+    assert.deepStrictEqual(pruneHistoryEntries(entries, { keep: 1 }).map((e) => e.result.processCpuEnergyJoules), [2, 4]);
+    assert.deepStrictEqual(pruneHistoryEntries(entries, { olderThanMs: 40 * 86_400_000, now }).map((e) => e.result.processCpuEnergyJoules), [3, 4]);
+
+    assert.strictEqual(await pruneHistory(file, { keep: 2 }), 1);
+    assert.deepStrictEqual((await readHistory(file)).map((e) => e.result.processCpuEnergyJoules), [2, 3, 4]);
+    assert.strictEqual(await pruneHistory(file, { keep: 2 }), 0);
+});
+
+test('history: host fingerprint ignores the hostname, not the energy source', () => {
+    const runner1 = hostFingerprint("rapl", "runner-4f2a9");
+    const runner2 = hostFingerprint("rapl", "runner-81c07");
+    assert.strictEqual(runner1.id, runner2.id);
+    assert.strictEqual(runner2.hostname, "runner-81c07");
+    assert.notStrictEqual(hostFingerprint("fallback", "runner-4f2a9").id, runner1.id);
+});
+
+test('history: git revision from .git/HEAD (loose ref, packed-refs, detached)', async (t) => {
+    const dir = await mkdtemp(join(os.tmpdir(), "nf-git-"));
+    t.after(() => rm(dir, { recursive: true, force: true }));
+    const gitDir = join(dir, ".git");
+    const nested = join(dir, "packages", "app");
+    await mkdir(join(gitDir, "refs", "heads"), { recursive: true });
+    await mkdir(nested, { recursive: true });
+
+    await writeFile(join(gitDir, "HEAD"), "ref: refs/heads/main\n");
+    await writeFile(join(gitDir, "refs", "heads", "main"), "a".repeat(40) + "\n");
+    assert.deepStrictEqual(await readGitRevision(nested), { commit: "a".repeat(40), branch: "main" });
+
+    await writeFile(join(gitDir, "HEAD"), "ref: refs/heads/release\n");
+    await writeFile(join(gitDir, "packed-refs"), `# pack-refs with: peeled\n${"b".repeat(40)} refs/heads/release\n`);
+    assert.deepStrictEqual(await readGitRevision(dir), { commit: "b".repeat(40), branch: "release" });
+
+    await writeFile(join(gitDir, "HEAD"), "c".repeat(40) + "\n");
+    assert.deepStrictEqual(await readGitRevision(dir), { commit: "c".repeat(40), branch: null });
+});
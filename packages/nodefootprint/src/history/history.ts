@@ -0,0 +1,169 @@
+import os from "node:os";
+import process from "node:process";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { extractErrorCode } from "@nodefootprint/shared";
+import type { audit, EnergyReader } from "../index.js";
+
+export const DEFAULT_HISTORY_FILE = path.join(".nodefootprint", "history.ndjson");
+
+export interface HostFingerprint {
+    id: string;             // short hash of the hardware fields below: same id => comparable runs
+    hostname: string;       // not hashed: ephemeral CI runners get a new one on every job
+    platform: string;
+    arch: string;
+    cpuModel: string;
+    cpus: number;
+    energySource: EnergyReader["mode"] | null; // a RAPL measurement and a model estimate do not compare
+}
+
+export interface GitRevision {
+    commit: string;
+    branch: string | null;  // null on a detached HEAD
+}
+
+export interface HistoryEntry {
+    label: string;
+    timestamp: string;      // ISO 8601, end of the audit
+    host: HostFingerprint;
+    git: GitRevision | null;
+    result: Omit<Awaited<ReturnType<typeof audit>>, "timeline">;
+}
+
+export interface PruneOptions {
+    keep?: number;          // newest entries kept per label
+    olderThanMs?: number;   // entries older than now - olderThanMs are dropped
+    now?: Date;
+}
+
+/**
+ * Hardware and energy source of the run: runs of the same CPU model, core count and
+ * energy source share a regression baseline, whatever the machine name.
+ */
+export function hostFingerprint(energySource: EnergyReader["mode"] | null, hostname = os.hostname()): HostFingerprint {
+    const cpus = os.cpus();
+    const fields = {
+        platform: os.platform(),
+        arch: os.arch(),
+        cpuModel: cpus[0]?.model.trim() ?? "unknown",
+        cpus: cpus.length,
+        energySource,
+    };
+    const id = createHash("sha256").update(JSON.stringify(fields)).digest("hex").slice(0, 12);
+    return { id, hostname, ...fields };
+}
+
+/**
+ * Commit of the working tree, read from .git/HEAD (loose ref, then packed-refs)
+ * in the closest parent directory holding a .git; null outside a repository.
+ */
+export async function readGitRevision(cwd = process.cwd()): Promise<GitRevision | null> {
+    for (let dir = path.resolve(cwd); ; dir = path.dirname(dir)) {
+        const gitDir = await resolveGitDir(path.join(dir, ".git"));
+        if (gitDir) {
+            const head = (await readFile(path.join(gitDir, "HEAD"), "utf-8")).trim();
+            const ref = /^ref:\s*(.+)$/.exec(head)?.[1];
+            if (!ref) return { commit: head, branch: null };
+            const commit = await readRef(gitDir, ref);
+            return commit ? { commit, branch: ref.replace(/^refs\/heads\//, "") } : null;
+        }
+        if (path.dirname(dir) === dir) return null;
+    }
+}
+
+// .git is a directory, or a "gitdir: <path>" file (worktrees, submodules)
+async function resolveGitDir(dotGit: string): Promise<string | null> {
+    try {
+        const content = await readFile(dotGit, "utf-8");
+        const target = /^gitdir:\s*(.+)$/m.exec(content)?.[1]?.trim();
+        return target ? path.resolve(path.dirname(dotGit), target) : null;
+    } catch (error) {
+        return extractErrorCode(error) === "EISDIR" ? dotGit : null;
+    }
+}
+
+async function readRef(gitDir: string, ref: string): Promise<string | null> {
+    // worktrees keep HEAD apart but share refs with the main repository
+    const commonDir = await readFile(path.join(gitDir, "commondir"), "utf-8")
+        .then((c) => path.resolve(gitDir, c.trim()))
+        .catch(() => gitDir);
+    for (const dir of new Set([gitDir, commonDir])) {
+        try {
+            return (await readFile(path.join(dir, ref), "utf-8")).trim();
+        } catch {
+            // not a loose ref
+        }
+        try {
+            const packed = await readFile(path.join(dir, "packed-refs"), "utf-8");
+            const line = packed.split("\n").find((l) => l.trim().endsWith(` ${ref}`));
+            if (line) return line.split(" ")[0];
+        } catch {
+            // no packed-refs
+        }
+    }
+    return null;
+}
+
+export async function appendHistoryEntry(file: string, entry: HistoryEntry): Promise<void> {
+    await mkdir(path.dirname(file), { recursive: true });
+    await appendFile(file, JSON.stringify(entry) + "\n", "utf-8");
+}
+
+/**
+ * Entries in file order (chronological); a missing file is an empty history, unreadable lines are skipped.
+ */
+export async function readHistory(file: string): Promise<HistoryEntry[]> {
+    let raw: string;
+    try {
+        raw = await readFile(file, "utf-8");
+    } catch (error) {
+        if (extractErrorCode(error) === "ENOENT") return [];
+        throw error;
+    }
+    const entries: HistoryEntry[] = [];
+    for (const line of raw.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+            const entry = JSON.parse(line);
+            if (entry && typeof entry.label === "string" && entry.result) entries.push(entry);
+        } catch {
+            // truncated line (interrupted append)
+        }
+    }
+    return entries;
+}
+
+/**
+ * Entries kept by a prune (pure): within olderThanMs of now and among the `keep` newest of their label.
+ */
+export function pruneHistoryEntries(entries: HistoryEntry[], options: PruneOptions): HistoryEntry[] {
+    const now = (options.now ?? new Date()).getTime();
+    const recent = options.olderThanMs === undefined
+        ? entries
+        : entries.filter((e) => now - Date.parse(e.timestamp) <= options.olderThanMs!);
+    if (options.keep === undefined) return recent;
+
+    const seen = new Map<string, number>();
+    const kept: HistoryEntry[] = [];
+    for (let i = recent.length - 1; i >= 0; i--) {
+        const count = seen.get(recent[i].label) ?? 0;
+        if (count < options.keep) kept.push(recent[i]);
+        seen.set(recent[i].label, count + 1);
+    }
+    return kept.reverse();
+}
+
+/**
+ * Rewrites the file with the kept entries (temp file + rename, never half-written); returns the number removed.
+ */
+export async function pruneHistory(file: string, options: PruneOptions): Promise<number> {
+    const entries = await readHistory(file);
+    const kept = pruneHistoryEntries(entries, options);
+    if (kept.length === entries.length) return 0;
+
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, kept.map((e) => JSON.stringify(e) + "\n").join(""), "utf-8");
+    await rename(tmp, file);
+    return entries.length - kept.length;
+}
@@ -0,0 +1,97 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { MetricsState, OPENMETRICS_CONTENT_TYPE } from "./metrics.js";
+import { buildServer } from "./server.js";
+import type { MonitorSnapshot } from "../index.js";
+
+function snapshot(tickId: number, overrides: Partial<MonitorSnapshot> = {}): MonitorSnapshot {
+    return {
+        pid: 1234,
+        tick: {
+            tickId,
+            scheduleIndex: BigInt(tickId),
+            periodNs: 100_000_000n,
+            t0Ns: 0n,
+            deadlineNs: BigInt(tickId) * 100_000_000n,
+            startNs: BigInt(tickId) * 100_000_000n + 2_000_000n,
+            dtNs: tickId === 0 ? 0n : 100_000_000n,
+            latenessNs: 2_000_000n,
+            skippedPeriods: 0n,
+        },
+        elapsedSeconds: tickId * 0.1,
+        primed: tickId > 0,
+        hostCpuPowerWatts: 10,
+        processCpuPowerWatts: 2.5,
+        tickHostCpuEnergyJoules: tickId > 0 ? 1 : 0,
+        tickProcessCpuEnergyJoules: tickId > 0 ? 0.25 : 0,
+        raplWraps: 0,
+        rollingShare: tickId > 0 ? 0.25 : null,
+        windowSamples: tickId,
+        hostCpuEnergyJoules: tickId,
+        processCpuEnergyJoules: tickId * 0.25,
+        processCpuEnergyShare: 0.25,
+        hostCpuCarbon_gCO2e: 0,
+        processCpuCarbon_gCO2e: 0,
+        processOk: true,
+        processError: null,
+        processGone: false,
+        ...overrides,
+    };
+}
+
+test('metrics: OpenMetrics exposition of the monitor snapshots', () => {
+    const metrics = new MetricsState({ pid: 1234, comm: 'my "app"', energySource: "rapl", tickMs: 100 });
+
+    metrics.observe(snapshot(0));
+    assert.ok(!metrics.render().includes("nodefootprint_process_cpu_share{"), "no share before the window has data");
+
+    metrics.observe(snapshot(1));
+    metrics.observe(snapshot(2, { raplWraps: 1, tick: { ...snapshot(2).tick, latenessNs: 300_000_000n, dtNs: 400_000_000n, skippedPeriods: 2n } }));
+
+    const text = metrics.render();
+    const lines = text.split("\n");
+    assert.ok(text.endsWith("# EOF\n"));
+    assert.ok(lines.includes('nodefootprint_energy_source_info{mode="rapl"} 1'));
+    assert.ok(lines.includes("nodefootprint_host_cpu_energy_joules_total 2"));
+    assert.ok(lines.includes('nodefootprint_process_cpu_energy_joules_total{pid="1234",comm="my \\"app\\""} 0.5'));
+    assert.ok(lines.includes('nodefootprint_process_cpu_share{pid="1234",comm="my \\"app\\""} 0.25'));
+    assert.ok(lines.includes("nodefootprint_rapl_wraps_total 1"));
+    assert.ok(lines.includes("nodefootprint_scheduler_skipped_periods_total 2"));
+    assert.ok(lines.includes("# TYPE nodefootprint_host_cpu_energy_joules counter"));
+    assert.ok(lines.includes("# UNIT nodefootprint_host_cpu_energy_joules joules"));
+
+    // lateness: 2 ms twice, 300 ms once; cumulative buckets
+    assert.ok(lines.includes('nodefootprint_scheduler_lateness_seconds_bucket{le="0.001"} 0'));
+    assert.ok(lines.includes('nodefootprint_scheduler_lateness_seconds_bucket{le="0.0025"} 2'));
+    assert.ok(lines.includes('nodefootprint_scheduler_lateness_seconds_bucket{le="0.25"} 2'));
+    assert.ok(lines.includes('nodefootprint_scheduler_lateness_seconds_bucket{le="0.5"} 3'));
+    assert.ok(lines.includes('nodefootprint_scheduler_lateness_seconds_bucket{le="+Inf"} 3'));
+    assert.ok(lines.includes("nodefootprint_scheduler_lateness_seconds_count 3"));
+
+    // interval: the first tick is not observed, 100 ms and 400 ms at a 100 ms period
+    assert.ok(lines.includes('nodefootprint_scheduler_tick_interval_seconds_bucket{le="0.101"} 1'));
+    assert.ok(lines.includes('nodefootprint_scheduler_tick_interval_seconds_bucket{le="0.2"} 1'));
+    assert.ok(lines.includes('nodefootprint_scheduler_tick_interval_seconds_bucket{le="0.5"} 2'));
+    assert.ok(lines.includes("nodefootprint_scheduler_tick_interval_seconds_count 2"));
+
+    const json = metrics.toJSON();
+    assert.strictEqual(json.counters.processCpuEnergyJoules, 0.5);
+    assert.strictEqual(json.snapshot?.tick.latenessNs, 300_000_000);
+});
+
+test('server: /metrics is OpenMetrics, /metrics.json the JSON state', async (t) => {
+    const metrics = new MetricsState({ pid: 1234, comm: "node", energySource: "fallback", tickMs: 1000 });
+    metrics.observe(snapshot(1));
+    const app = await buildServer(metrics, { logger: false });
+    t.after(() => app.close());
+
+    const text = await app.inject({ method: "GET", url: "/metrics" });
+    assert.strictEqual(text.statusCode, 200);
+    assert.strictEqual(text.headers["content-type"], OPENMETRICS_CONTENT_TYPE);
+    assert.ok(text.body.includes('nodefootprint_energy_source_info{mode="fallback"} 1'));
+
+    const json = await app.inject({ method: "GET", url: "/metrics.json" });
+    assert.strictEqual(json.statusCode, 200);
+    assert.strictEqual(json.json().counters.hostCpuEnergyJoules, 1);
+    assert.strictEqual(json.json().snapshot.pid, 1234);
+});
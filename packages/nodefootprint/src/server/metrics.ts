@@ -0,0 +1,162 @@
+import type { EnergyReader, MonitorSnapshot } from "../index.js";
+
+export const OPENMETRICS_CONTENT_TYPE = "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+// upper bounds in seconds, +Inf is implicit
+export const LATENESS_BUCKETS_SECONDS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+// multiples of the tick period: 1 means on time, 2 means one tick missed
+export const INTERVAL_BUCKETS_PERIODS = [0.5, 0.9, 0.99, 1.01, 1.1, 1.5, 2, 5];
+
+export interface MetricsTarget {
+    pid: number;
+    comm: string | null;
+    energySource: EnergyReader["mode"];
+    tickMs: number;
+}
+
+class Histogram {
+    readonly counts: number[];   // per bucket, not cumulative, last one is +Inf
+    sum = 0;
+    count = 0;
+
+    constructor(readonly bounds: number[]) {
+        this.counts = new Array(bounds.length + 1).fill(0);
+    }
+
+    observe(value: number) {
+        const index = this.bounds.findIndex((bound) => value <= bound);
+        this.counts[index === -1 ? this.bounds.length : index]++;
+        this.sum += value;
+        this.count++;
+    }
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) return "NaN";
+    if (value === Infinity) return "+Inf";
+    if (value === -Infinity) return "-Inf";
+    return String(value);
+}
+
+function formatLabels(labels: Record<string, string | number>): string {
+    const pairs = Object.entries(labels).map(([name, value]) =>
+        `${name}="${String(value).replaceAll("\\", "\\\\").replaceAll("\"", "\\\"").replaceAll("\n", "\\n")}"`);
+    return pairs.length === 0 ? "" : `{${pairs.join(",")}}`;
+}
+
+/**
+ * Running state of one monitored target, fed with monitor() snapshots and
+ * exposed as OpenMetrics text (/metrics) or JSON (/metrics.json).
+ * Counters only grow: the process energy is the sum of the per-tick attributions,
+ * not the monitor's host total x cumulative share, which can go down.
+ */
+export class MetricsState {
+    private hostCpuEnergyJoules = 0;
+    private processCpuEnergyJoules = 0;
+    private raplWraps = 0;
+    private skippedPeriods = 0;
+    private readonly lateness = new Histogram(LATENESS_BUCKETS_SECONDS);
+    private readonly interval: Histogram;
+    private last: MonitorSnapshot | null = null;
+
+    constructor(readonly target: MetricsTarget) {
+        this.interval = new Histogram(INTERVAL_BUCKETS_PERIODS.map((ratio) => Number((ratio * target.tickMs / 1000).toPrecision(6))));
+    }
+
+    observe(snapshot: MonitorSnapshot) {
+        this.last = snapshot;
+        this.hostCpuEnergyJoules += snapshot.tickHostCpuEnergyJoules;
+        this.processCpuEnergyJoules += snapshot.tickProcessCpuEnergyJoules;
+        this.raplWraps += snapshot.raplWraps;
+        this.skippedPeriods += Number(snapshot.tick.skippedPeriods);
+        this.lateness.observe(Number(snapshot.tick.latenessNs) / 1e9);
+        // the first tick has no previous one
+        if (snapshot.tick.tickId > 0) {
+            this.interval.observe(Number(snapshot.tick.dtNs) / 1e9);
+        }
+    }
+
+    /**
+     * Last snapshot (bigints as numbers) with the counters, the /metrics.json document.
+     */
+    toJSON() {
+        const snapshot = this.last === null ? null : {
+            ...this.last,
+            tick: Object.fromEntries(Object.entries(this.last.tick).map(([key, value]) =>
+                [key, typeof value === "bigint" ? Number(value) : value])),
+        };
+        return {
+            ...this.target,
+            counters: {
+                hostCpuEnergyJoules: this.hostCpuEnergyJoules,
+                processCpuEnergyJoules: this.processCpuEnergyJoules,
+                raplWraps: this.raplWraps,
+                skippedPeriods: this.skippedPeriods,
+                ticks: this.lateness.count,
+            },
+            snapshot,
+        };
+    }
+
+    /**
+     * OpenMetrics text exposition (pure, no I/O), terminated by # EOF.
+     */
+    render(): string {
+        const processLabels = { pid: this.target.pid, comm: this.target.comm ?? "" };
+        const lines: string[] = [];
+        const family = (name: string, type: string, help: string, unit?: string) => {
+            lines.push(`# TYPE ${name} ${type}`);
+            if (unit) lines.push(`# UNIT ${name} ${unit}`);
+            lines.push(`# HELP ${name} ${help}`);
+        };
+        const sample = (name: string, labels: Record<string, string | number>, value: number) => {
+            lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+        };
+        const histogram = (name: string, h: Histogram) => {
+            let cumulative = 0;
+            h.bounds.forEach((bound, i) => {
+                cumulative += h.counts[i];
+                sample(`${name}_bucket`, { le: formatValue(bound) }, cumulative);
+            });
+            sample(`${name}_bucket`, { le: "+Inf" }, h.count);
+            sample(`${name}_sum`, {}, h.sum);
+            sample(`${name}_count`, {}, h.count);
+        };
+
+        family("nodefootprint_energy_source", "info", "Energy source used for the host CPU energy.");
+        sample("nodefootprint_energy_source_info", { mode: this.target.energySource }, 1);
+
+        family("nodefootprint_host_cpu_energy_joules", "counter", "Host CPU energy since the monitor started.", "joules");
+        sample("nodefootprint_host_cpu_energy_joules_total", {}, this.hostCpuEnergyJoules);
+
+        family("nodefootprint_process_cpu_energy_joules", "counter", "Host CPU energy attributed to the process, tick by tick, from its share of the active CPU time.", "joules");
+        sample("nodefootprint_process_cpu_energy_joules_total", processLabels, this.processCpuEnergyJoules);
+
+        family("nodefootprint_host_cpu_power_watts", "gauge", "Host CPU power over the last tick.", "watts");
+        sample("nodefootprint_host_cpu_power_watts", {}, this.last?.hostCpuPowerWatts ?? 0);
+
+        family("nodefootprint_process_cpu_power_watts", "gauge", "Process CPU power from the rolling share.", "watts");
+        sample("nodefootprint_process_cpu_power_watts", processLabels, this.last?.processCpuPowerWatts ?? 0);
+
+        // no sample until the rolling window has data, rather than a misleading 0
+        family("nodefootprint_process_cpu_share", "gauge", "Process share of the host active CPU time over the rolling window (0-1).");
+        if (this.last?.rollingShare !== null && this.last?.rollingShare !== undefined) {
+            sample("nodefootprint_process_cpu_share", processLabels, this.last.rollingShare);
+        }
+
+        family("nodefootprint_rapl_wraps", "counter", "RAPL energy counter wraparounds handled.");
+        sample("nodefootprint_rapl_wraps_total", {}, this.raplWraps);
+
+        family("nodefootprint_scheduler_skipped_periods", "counter", "Sampling periods skipped because a tick overran.");
+        sample("nodefootprint_scheduler_skipped_periods_total", {}, this.skippedPeriods);
+
+        family("nodefootprint_scheduler_lateness_seconds", "histogram", "Delay between a tick deadline and its start.", "seconds");
+        histogram("nodefootprint_scheduler_lateness_seconds", this.lateness);
+
+        family("nodefootprint_scheduler_tick_interval_seconds", "histogram", "Time between two tick starts.", "seconds");
+        histogram("nodefootprint_scheduler_tick_interval_seconds", this.interval);
+
+        lines.push("# EOF");
+        return lines.join("\n") + "\n";
+    }
+}
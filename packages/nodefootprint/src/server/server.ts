@@ -1,7 +1,8 @@
 import fastify from "fastify";
+import { MetricsState, OPENMETRICS_CONTENT_TYPE } from "./metrics.js";
 
-export async function buildServer(shareData: any) {
-    const app = fastify({logger: true});
+export async function buildServer(metrics: MetricsState, options: { logger?: boolean } = {}) {
+    const app = fastify({logger: options.logger ?? true});
 
     app.get('/status', async (request, reply) => {
         return {
@@ -10,9 +11,15 @@ export async function buildServer(shareData: any) {
         };
     });
 
+    // Prometheus / OpenMetrics scrape target
     app.get('/metrics', async (request, reply) => {
-        return shareData;
+        reply.type(OPENMETRICS_CONTENT_TYPE);
+        return metrics.render();
+    });
+
+    app.get('/metrics.json', async (request, reply) => {
+        return metrics.toJSON();
     });
 
     return app;
-}
\ No newline at end of file
+}